@@ -0,0 +1,12 @@
+import announcementService from "../services/announcement.service";
+import jobService from "../services/job.service";
+
+export function registerAnnouncementJob() {
+  jobService.register({
+    name: "publish_announcements",
+    description: "Terbitkan pengumuman terjadwal (tiap menit)",
+    schedule: "* * * * *",
+    quiet: true,
+    run: async () => ({ published: await announcementService.publishDue() }),
+  });
+}
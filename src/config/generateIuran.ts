@@ -1,161 +1,100 @@
-import cron from "node-cron";
-import userModel from "../models/user.model";
-import iuranModel from "../models/iuran.model";
-import { IURAN_STATUS, ROLES, USER_STATUS } from "../utils/constants";
+import { ROLES, USER_STATUS } from "../utils/constants";
 import notificationService from "../services/notification.service";
-
-function getCurrentPeriod(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  return `${year}-${month}`;
-}
-
-export function startMonthlyIuranGeneration() {
-  // Run on January 1st at 00:01 AM - Create yearly iuran for all users
-  cron.schedule("1 0 1 1 *", async () => {
-    try {
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      console.log(`Creating yearly iuran for all users for year ${currentYear}...`);
-
-      // Find all ACTIVE users EXCEPT ADMIN (skip inactive, away, and deleted users)
-      const users = await userModel
-        .find({
-          role: { $ne: ROLES.ADMIN },
-          status: USER_STATUS.ACTIVE,
-          isDeleted: { $ne: true },
-        })
-        .select("_id role status");
-
-      console.log(`Found ${users.length} users (excluding ADMIN)`);
-
-      let createdCount = 0;
-
-      for (const user of users) {
-        // Create iuran for all 12 months
-        for (let month = 1; month <= 12; month++) {
-          const period = `${currentYear}-${String(month).padStart(2, "0")}`;
-
-          const exists = await iuranModel.findOne({
-            user: user._id,
-            period: period,
-            type: "regular",
-          });
-
-          // Only create if doesn't exist
-          if (!exists) {
-            await iuranModel.create({
-              user: user._id,
-              period: period,
-              amount: "50000",
-              type: "regular",
-              status: IURAN_STATUS.UNPAID,
-              submitted_at: null,
-              confirmed_at: null,
-              confirmed_by: null,
-            });
-            createdCount++;
-          }
-        }
-      }
-
-      console.log(`Yearly iuran created: ${createdCount} records for ${users.length} users!`);
-
-      // Send push notification to all non-ADMIN users about new yearly iuran
-      if (createdCount > 0) {
-        const nonAdminRoles = [
-          ROLES.RT,
-          ROLES.RW,
-          ROLES.BENDAHARA,
-          ROLES.SEKRETARIS,
-          ROLES.SATPAM,
-          ROLES.WARGA,
-        ];
-
-        for (const role of nonAdminRoles) {
-          await notificationService.sendToRole(role, {
-            title: "Iuran Tahunan Baru 📋",
-            body: `Iuran untuk tahun ${currentYear} sudah tersedia. Silahkan lakukan pembayaran.`,
-            data: {
-              type: "new_yearly_iuran",
-              year: currentYear.toString(),
-            },
-          });
-        }
-        console.log(`Push notifications sent to all non-ADMIN users`);
-      }
-    } catch (error) {
-      console.error("Error creating yearly iuran:", error);
-    }
+import tariffService from "../services/tariff.service";
+import { listPeriods } from "../utils/period";
+import billingService from "../services/billing.service";
+import paymentService from "../services/payment.service";
+import reminderService from "../services/reminder.service";
+import jobService from "../services/job.service";
+
+export function registerIuranJobs() {
+  jobService.register({
+    name: "yearly_iuran",
+    description: "Buat iuran tahunan untuk semua warga (1 Januari 00:01)",
+    schedule: "1 0 1 1 *",
+    lockTtlMs: 60 * 60 * 1000,
+    run: generateYearlyIuran,
   });
 
-  console.log("Yearly iuran generation scheduled: January 1st at 00:01 AM");
-
-  // Run on 10th of every month at 00:01 AM - Jatuh Tempo Reminder
-  cron.schedule("1 0 10 * *", async () => {
-    try {
-      console.log("Sending Jatuh Tempo reminder notifications...");
-
-      const currentPeriod = getCurrentPeriod();
-
-      // Find all unpaid iuran for current month (including both regular and custom)
-      const unpaidIuran = await iuranModel
-        .find({
-          period: currentPeriod,
-          status: IURAN_STATUS.UNPAID,
-        })
-        .populate("user", "_id expoPushToken role")
-        .select("user period amount note type");
-
-      console.log(`Found ${unpaidIuran.length} unpaid iuran for month ${currentPeriod}`);
-
-      // Group by user and send one notification per user with all their unpaid iuran
-      const userUnpaidMap = new Map<string, typeof unpaidIuran>();
-
-      for (const iuran of unpaidIuran) {
-        if (iuran.user && typeof iuran.user === "object" && "_id" in iuran.user) {
-          const userId = iuran.user._id.toString();
-          if (!userUnpaidMap.has(userId)) {
-            userUnpaidMap.set(userId, []);
-          }
-          userUnpaidMap.get(userId)?.push(iuran);
-        }
-      }
-
-      // Send notification to each user with their unpaid iuran details
-      for (const [userId, userIuran] of userUnpaidMap) {
-        const totalAmount = userIuran.reduce((sum, iuran) => sum + Number(iuran.amount), 0);
+  jobService.register({
+    name: "apply_credit",
+    description: "Pakai saldo titipan untuk periode baru (tanggal 1 tiap bulan 00:05)",
+    schedule: "5 0 1 * *",
+    run: applyCredit,
+  });
 
-        let bodyMessage = "";
-        if (userIuran.length === 1) {
-          const iuran = userIuran[0];
-          const description = iuran.note ? ` - ${iuran.note}` : "";
-          bodyMessage = `Jatuh Tempo! Lakukan pembayaran sekarang${description}. Jumlah: Rp ${Number(iuran.amount).toLocaleString("id-ID")}`;
-        } else {
-          const details = userIuran.map(i => {
-            const desc = i.note ? ` (${i.note})` : "";
-            return `Rp ${Number(i.amount).toLocaleString("id-ID")}${desc}`;
-          }).join(", ");
-          bodyMessage = `Jatuh Tempo! Anda memiliki ${userIuran.length} iuran yang belum dibayar: ${details}. Total: Rp ${totalAmount.toLocaleString("id-ID")}`;
-        }
+  // Policies decide who is reminded on which day, see reminder.service.
+  // The next day's run covers a missed one, so there is nothing to catch up.
+  jobService.register({
+    name: "arrears_reminders",
+    description: "Kirim pengingat tunggakan sesuai kebijakan pengingat (tiap hari 08:00)",
+    schedule: "0 8 * * *",
+    catchUpWithinMs: 12 * 60 * 60 * 1000,
+    run: () => reminderService.runDue(),
+  });
+}
 
-        await notificationService.sendToUser(userId, {
-          title: "⚠️ Jatuh Tempo - Pembayaran Iuran",
-          body: bodyMessage,
-          data: {
-            type: "jatuh_tempo_reminder",
-            unpaidCount: userIuran.length,
-            totalAmount: totalAmount.toString(),
-          },
-        });
-      }
+// Iuran for all 12 months of the current year
+async function generateYearlyIuran() {
+  const now = new Date();
+  const currentYear = now.getFullYear();
+  console.log(`Creating yearly iuran for all users for year ${currentYear}...`);
+
+  // One bill per household, plus ACTIVE users EXCEPT ADMIN that have no household yet
+  // (skip inactive, away, and deleted users)
+  const targets = await billingService.listTargets({
+    role: { $ne: ROLES.ADMIN },
+    status: USER_STATUS.ACTIVE,
+    isDeleted: { $ne: true },
+  });
 
-      console.log(`Jatuh Tempo notifications sent to ${userUnpaidMap.size} users`);
-    } catch (error) {
-      console.error("Error sending Jatuh Tempo notifications:", error);
+  console.log(`Found ${targets.length} billing targets (households and users without household)`);
+
+  const resolveAmount = await tariffService.loadResolver();
+  let createdCount = 0;
+
+  for (const target of targets) {
+    // Create iuran for all 12 months, existing and exempt periods are skipped
+    const created = await billingService.ensureIuran(
+      target,
+      listPeriods(`${currentYear}-01`, `${currentYear}-12`),
+      resolveAmount
+    );
+    createdCount += created.length;
+  }
+
+  console.log(`Yearly iuran created: ${createdCount} records for ${targets.length} billing targets!`);
+
+  // Send push notification to all non-ADMIN users about new yearly iuran
+  if (createdCount > 0) {
+    const nonAdminRoles = [
+      ROLES.RT,
+      ROLES.RW,
+      ROLES.BENDAHARA,
+      ROLES.SEKRETARIS,
+      ROLES.SATPAM,
+      ROLES.WARGA,
+    ];
+
+    for (const role of nonAdminRoles) {
+      await notificationService.sendToRole(role, {
+        title: "Iuran Tahunan Baru 📋",
+        body: `Iuran untuk tahun ${currentYear} sudah tersedia. Silahkan lakukan pembayaran.`,
+        data: {
+          type: "new_yearly_iuran",
+          year: currentYear.toString(),
+        },
+      });
     }
-  });
+    console.log(`Push notifications sent to all non-ADMIN users`);
+  }
+
+  return { targets: targets.length, created: createdCount };
+}
 
-  console.log("Jatuh Tempo reminder scheduled: 10th of every month at 00:01 AM");
+// Spend saldo titipan on the new period
+async function applyCredit() {
+  const applied = await paymentService.applyAllCredit();
+  console.log(`Credit balance applied for ${applied} households/users`);
+  return { applied };
 }
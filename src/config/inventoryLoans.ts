@@ -0,0 +1,12 @@
+import inventoryLoanService from "../services/inventoryLoan.service";
+import jobService from "../services/job.service";
+
+export function registerInventoryLoanJob() {
+  jobService.register({
+    name: "inventory_loan_overdue",
+    description: "Pengingat pengembalian inventaris yang terlambat (tiap hari 09:00)",
+    schedule: "0 9 * * *",
+    catchUpWithinMs: 12 * 60 * 60 * 1000,
+    run: () => inventoryLoanService.remindOverdue(),
+  });
+}
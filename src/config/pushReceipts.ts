@@ -0,0 +1,12 @@
+import notificationService from "../services/notification.service";
+import jobService from "../services/job.service";
+
+export function registerPushReceiptJob() {
+  jobService.register({
+    name: "push_receipts",
+    description: "Ambil receipt push Expo dan hapus token perangkat yang mati (tiap 30 menit)",
+    schedule: "*/30 * * * *",
+    quiet: true,
+    run: async () => ({ removed: await notificationService.checkReceipts() }),
+  });
+}
@@ -0,0 +1,369 @@
+import { Response } from "express";
+import mongoose, { QueryFilter } from "mongoose";
+import announcementModel, { Announcement } from "../models/announcement.model";
+import announcementService, { publicFilter } from "../services/announcement.service";
+import auditService, { snapshot } from "../services/audit.service";
+import {
+  ANNOUNCEMENT_AUDIENCE,
+  ANNOUNCEMENT_STATUS,
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+} from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+import { generateSlug, generateUniqueSlug } from "../utils/slugGenerator";
+import { AnnouncementDTO, AnnouncementUpdateDTO } from "../utils/zodSchema";
+
+// Fields shown on the public feed
+const PUBLIC_FIELDS = "title slug body published_at expires_at";
+
+// Draft stays a draft, otherwise it waits for publish_at
+function statusFor(draft: boolean, publishAt: Date, now: Date): ANNOUNCEMENT_STATUS {
+  if (draft) return ANNOUNCEMENT_STATUS.DRAFT;
+  return publishAt > now ? ANNOUNCEMENT_STATUS.SCHEDULED : ANNOUNCEMENT_STATUS.PUBLISHED;
+}
+
+export default {
+  async create(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = AnnouncementDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+      const { draft = false, ...data } = parsed.data;
+
+      const now = new Date();
+      const audience = data.audience ?? ANNOUNCEMENT_AUDIENCE.ALL;
+      const publishAt = data.publish_at ?? now;
+      if (data.expires_at && data.expires_at <= now) {
+        response.error(res, "expiry must be in the future", "validation error");
+        return;
+      }
+
+      const baseSlug = generateSlug(data.title) || "pengumuman";
+      const existing = await announcementModel
+        .find({ slug: new RegExp(`^${baseSlug}`) })
+        .select("slug")
+        .lean();
+      const slug = generateUniqueSlug(baseSlug, existing.map((item) => item.slug));
+
+      const status = statusFor(draft, publishAt, now);
+      let result = await announcementModel.create({
+        ...data,
+        slug,
+        audience,
+        audience_values: audience === ANNOUNCEMENT_AUDIENCE.ALL ? [] : data.audience_values,
+        // Targeted announcements stay off the website unless asked for
+        is_public: data.is_public ?? audience === ANNOUNCEMENT_AUDIENCE.ALL,
+        publish_at: publishAt,
+        // Published through the service so the push goes out once
+        status: status === ANNOUNCEMENT_STATUS.PUBLISHED ? ANNOUNCEMENT_STATUS.SCHEDULED : status,
+        created_by: userId,
+      });
+      if (status === ANNOUNCEMENT_STATUS.PUBLISHED) {
+        result = (await announcementService.publish(result._id, now)) ?? result;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.ANNOUNCEMENT,
+        entity_id: result._id,
+        summary: `Pengumuman ${result.title} (${result.status})`,
+        after: result,
+      });
+
+      return response.success(res, result, "success create announcement");
+    } catch (error) {
+      response.error(res, error, "failed to create announcement");
+      return;
+    }
+  },
+
+  // All announcements for pengurus, including drafts and expired ones
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 10, page = 1, status, expired } = req.query;
+
+      const query: QueryFilter<Announcement> = {};
+      if (status) {
+        query.status = status as ANNOUNCEMENT_STATUS;
+      }
+      if (expired === "true") {
+        query.expires_at = { $lte: new Date() };
+      } else if (expired === "false") {
+        query.$or = [{ expires_at: null }, { expires_at: { $gt: new Date() } }];
+      }
+
+      const [result, count] = await Promise.all([
+        announcementModel
+          .find(query)
+          .populate("created_by", "username")
+          .sort({ publish_at: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        announcementModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success find all announcements"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to find all announcements");
+      return;
+    }
+  },
+
+  async findOne(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid announcement id", "validation error");
+        return;
+      }
+
+      const result = await announcementModel
+        .findById(id)
+        .populate("created_by", "username")
+        .populate("updated_by", "username")
+        .lean();
+      if (!result) {
+        return response.notFound(res, "announcement not found");
+      }
+
+      return response.success(res, result, "success find announcement");
+    } catch (error) {
+      response.error(res, error, "failed to find announcement");
+      return;
+    }
+  },
+
+  // Published announcements keep their audience and publish time, only the
+  // content, expiry and website visibility can change. No new push is sent.
+  async update(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid announcement id", "validation error");
+        return;
+      }
+
+      const parsed = AnnouncementUpdateDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+      const { draft, ...data } = parsed.data;
+
+      const announcement = await announcementModel.findById(id);
+      if (!announcement) {
+        return response.notFound(res, "announcement not found");
+      }
+
+      const published = announcement.status === ANNOUNCEMENT_STATUS.PUBLISHED;
+      if (
+        published &&
+        (data.audience !== undefined ||
+          data.audience_values !== undefined ||
+          data.send_push !== undefined ||
+          data.publish_at !== undefined ||
+          draft !== undefined)
+      ) {
+        response.error(
+          res,
+          "audience, push and publish time of a published announcement cannot be changed",
+          "validation error"
+        );
+        return;
+      }
+
+      const before = snapshot(announcement);
+      const now = new Date();
+
+      announcement.set(data);
+      if (announcement.audience === ANNOUNCEMENT_AUDIENCE.ALL) {
+        announcement.audience_values = [];
+      } else if (announcement.audience_values.length === 0) {
+        response.error(
+          res,
+          `at least one value is required for audience ${announcement.audience}`,
+          "validation error"
+        );
+        return;
+      }
+      if (announcement.expires_at && announcement.expires_at <= announcement.publish_at) {
+        response.error(res, "expiry must be after the publish time", "validation error");
+        return;
+      }
+      announcement.updated_by = req.user?.id ?? null;
+
+      let status = announcement.status;
+      if (!published) {
+        status = statusFor(
+          draft ?? announcement.status === ANNOUNCEMENT_STATUS.DRAFT,
+          announcement.publish_at,
+          now
+        );
+        announcement.status =
+          status === ANNOUNCEMENT_STATUS.PUBLISHED ? ANNOUNCEMENT_STATUS.SCHEDULED : status;
+      }
+      let result = await announcement.save();
+      if (!published && status === ANNOUNCEMENT_STATUS.PUBLISHED) {
+        result = (await announcementService.publish(result._id, now)) ?? result;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.ANNOUNCEMENT,
+        entity_id: result._id,
+        summary: `Pengumuman ${result.title} (${result.status})`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success update announcement");
+    } catch (error) {
+      response.error(res, error, "failed to update announcement");
+      return;
+    }
+  },
+
+  // Publish a draft or scheduled announcement right away
+  async publish(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid announcement id", "validation error");
+        return;
+      }
+
+      const announcement = await announcementModel.findById(id);
+      if (!announcement) {
+        return response.notFound(res, "announcement not found");
+      }
+      if (announcement.expires_at && announcement.expires_at <= new Date()) {
+        response.error(res, "announcement has expired", "validation error");
+        return;
+      }
+
+      const before = snapshot(announcement);
+      const result = await announcementService.publish(announcement._id);
+      if (!result) {
+        response.error(res, "announcement is already published", "validation error");
+        return;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.ANNOUNCEMENT,
+        entity_id: result._id,
+        summary: `Pengumuman ${result.title} diterbitkan`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success publish announcement");
+    } catch (error) {
+      response.error(res, error, "failed to publish announcement");
+      return;
+    }
+  },
+
+  async delete(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid announcement id", "validation error");
+        return;
+      }
+
+      const announcement = await announcementModel.findByIdAndDelete(id);
+      if (!announcement) {
+        return response.notFound(res, "announcement not found");
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.ANNOUNCEMENT,
+        entity_id: announcement._id,
+        summary: `Pengumuman ${announcement.title}`,
+        before: announcement,
+      });
+
+      return response.success(res, null, "success delete announcement");
+    } catch (error) {
+      response.error(res, error, "failed to delete announcement");
+      return;
+    }
+  },
+
+  // Public feed for the rt07-website
+  async publicFeed(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 10, page = 1 } = req.query;
+
+      const query = publicFilter();
+      const [result, count] = await Promise.all([
+        announcementModel
+          .find(query)
+          .select(PUBLIC_FIELDS)
+          .sort({ published_at: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        announcementModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success find announcements"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to find announcements");
+      return;
+    }
+  },
+
+  async findBySlug(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+
+      const result = await announcementModel
+        .findOne({ ...publicFilter(), slug })
+        .select(PUBLIC_FIELDS)
+        .lean();
+      if (!result) {
+        return response.notFound(res, "announcement not found");
+      }
+
+      return response.success(res, result, "success find announcement");
+    } catch (error) {
+      response.error(res, error, "failed to find announcement");
+      return;
+    }
+  },
+};
@@ -0,0 +1,105 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import auditLogModel from "../models/auditLog.model";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+
+export default {
+  // Admin only: filter by entity, actor, action and date range (YYYY-MM-DD, inclusive)
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const {
+        limit = 20,
+        page = 1,
+        entity_type,
+        entity_id,
+        actor,
+        action,
+        from,
+        to,
+      } = req.query;
+
+      const query: Record<string, any> = {};
+
+      if (entity_type) {
+        if (!Object.values(AUDIT_ENTITY).includes(entity_type as AUDIT_ENTITY)) {
+          response.error(
+            res,
+            `entity_type must be one of: ${Object.values(AUDIT_ENTITY).join(", ")}`,
+            "validation error"
+          );
+          return;
+        }
+        query.entity_type = entity_type;
+      }
+
+      if (entity_id) {
+        // Matches the record itself and its children (e.g. donations of an event)
+        query.$or = [{ entity_id }, { parent_id: entity_id }];
+      }
+
+      if (actor) {
+        if (!mongoose.isValidObjectId(actor)) {
+          response.error(res, "invalid actor id", "validation error");
+          return;
+        }
+        query.actor = actor;
+      }
+
+      if (action) {
+        if (!Object.values(AUDIT_ACTIONS).includes(action as AUDIT_ACTIONS)) {
+          response.error(
+            res,
+            `action must be one of: ${Object.values(AUDIT_ACTIONS).join(", ")}`,
+            "validation error"
+          );
+          return;
+        }
+        query.action = action;
+      }
+
+      if (from || to) {
+        const fromDate = from ? new Date(from as string) : null;
+        const toDate = to ? new Date(to as string) : null;
+
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+          response.error(res, "from/to must be valid dates", "validation error");
+          return;
+        }
+
+        query.createdAt = {};
+        if (fromDate) query.createdAt.$gte = fromDate;
+        if (toDate) {
+          toDate.setDate(toDate.getDate() + 1); // include the whole "to" day
+          query.createdAt.$lt = toDate;
+        }
+      }
+
+      const [result, count] = await Promise.all([
+        auditLogModel
+          .find(query)
+          .populate("actor", "username role")
+          .sort({ createdAt: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        auditLogModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success get audit log"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get audit log");
+      return;
+    }
+  },
+};
@@ -4,30 +4,55 @@ import {
   UserLoginDTO,
   PushTokenDTO,
   UpdateProfileDTO,
+  RefreshTokenDTO,
+  ChangePasswordDTO,
+  ResetPasswordDTO,
 } from "../utils/zodSchema";
 import userModel, { User } from "../models/user.model";
 import response from "../utils/response";
-import { encrypt } from "../utils/encryption";
-import { generateToken } from "../utils/jwt";
+import { needsRehash, verifyPassword } from "../utils/encryption";
 import { SECRET } from "../utils/env";
 import jwt from "jsonwebtoken";
 import { IReqUser } from "../utils/interface";
 import mongoose, { QueryFilter } from "mongoose";
-import fs from "fs";
-import path from "path";
 import iuranModel from "../models/iuran.model";
-import { IURAN_STATUS, ROLES, USER_STATUS } from "../utils/constants";
+import mediaService, { thumbnailUrl, uploadUrl } from "../services/media.service";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  IURAN_STATUS,
+  PERMISSIONS,
+  ROLES,
+  USER_STATUS,
+} from "../utils/constants";
 import ExcelJS from "exceljs";
 import {
   createUserImportTemplate,
   exportUsersToExcel,
 } from "../utils/excelTemplate";
+import tariffService from "../services/tariff.service";
+import sessionService, { DeviceInfo } from "../services/session.service";
+import passwordResetService from "../services/passwordReset.service";
+import auditService from "../services/audit.service";
+import permissionService from "../services/permission.service";
+import billingService from "../services/billing.service";
+import notificationService from "../services/notification.service";
+import { getCurrentPeriod, listPeriods } from "../utils/period";
+
+function getDeviceInfo(req: Request): DeviceInfo {
+  return {
+    device_name: req.body?.device_name || null,
+    user_agent: req.headers["user-agent"] || null,
+    ip: req.ip || null,
+  };
+}
 
 export default {
   async register(req: Request, res: Response): Promise<void> {
     const { email, username, password, role, address, phone_number, position } =
       req.body;
-    const image_url = req.file ? `/uploads/${req.file.filename}` : "";
+    const image_url = req.file ? uploadUrl(req.file) : "";
+    const thumbnail_url = req.file ? thumbnailUrl(req.file) : undefined;
 
     const parsed = UserDTO.safeParse({
       email: email || undefined,
@@ -38,6 +63,7 @@ export default {
       position,
       phone_number,
       image_url,
+      thumbnail_url,
     });
 
     if (!parsed.success) {
@@ -84,16 +110,20 @@ export default {
         const now = new Date();
         const currentYear = now.getFullYear();
         const currentMonth = now.getMonth() + 1; // 1-12
+        const resolveAmount = await tariffService.loadResolver();
         const iuranPromises = [];
 
         // Create iuran from current month to December
         for (let month = currentMonth; month <= 12; month++) {
           const period = `${currentYear}-${String(month).padStart(2, "0")}`;
+          const amount = resolveAmount(result, period);
+          if (amount === 0) continue; // exempt
+
           iuranPromises.push(
             iuranModel.create({
               user: result._id,
               period: period,
-              amount: "50000",
+              amount,
               type: "regular",
               status: IURAN_STATUS.UNPAID,
               submitted_at: null,
@@ -109,6 +139,14 @@ export default {
         );
       }
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: result._id,
+        summary: `User ${result.username}`,
+        after: result,
+      });
+
       response.success(res, result, "success register");
       return;
     } catch (error) {
@@ -145,32 +183,174 @@ export default {
         return response.unauthorized(res, "user not found");
       }
 
-      const validatePassword: boolean =
-        encrypt(password) === userByIdentifier?.password;
+      const validatePassword: boolean = await verifyPassword(
+        password || "",
+        userByIdentifier.password
+      );
 
       if (!validatePassword) {
         return response.unauthorized(res, "user not found");
       }
 
-      const token = generateToken({
-        id: userByIdentifier._id,
-        role: userByIdentifier.role,
-      });
+      // Upgrade legacy/outdated hashes while we have the plain password
+      if (needsRehash(userByIdentifier.password)) {
+        userByIdentifier.password = password;
+        await userByIdentifier.save();
+      }
 
-      return response.success(res, token, "login success");
+      // Short-lived access token + rotating refresh token bound to this device
+      const tokens = await sessionService.create(
+        userByIdentifier,
+        getDeviceInfo(req)
+      );
+
+      return response.success(res, tokens, "login success");
     } catch (error) {
       response.error(res, error, "failed to login");
       return;
     }
   },
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = RefreshTokenDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const result = await sessionService.rotate(
+        parsed.data.refresh_token,
+        getDeviceInfo(req)
+      );
+
+      if (typeof result === "string") {
+        return response.unauthorized(res, result);
+      }
+
+      return response.success(res, result, "token refreshed");
+    } catch (error) {
+      response.error(res, error, "failed to refresh token");
+      return;
+    }
+  },
+  async logout(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { session_id, all } = req.body || {};
+
+      // Log out every device of this user
+      if (all === true) {
+        const revoked = await sessionService.revokeAllForUser(userId, "logout all");
+        return response.success(res, { revoked }, "logged out from all devices");
+      }
+
+      // Default: the session of the current access token. session_id logs out another own device.
+      const sessionId = session_id || req.user?.sid;
+      if (!sessionId || !mongoose.isValidObjectId(sessionId)) {
+        response.error(res, "invalid session id", "validation error");
+        return;
+      }
+
+      const revoked = await sessionService.revoke(sessionId, "logout", userId);
+      if (!revoked) {
+        return response.notFound(res, "session not found");
+      }
+
+      return response.success(res, { revoked: 1 }, "logout success");
+    } catch (error) {
+      response.error(res, error, "failed to logout");
+      return;
+    }
+  },
+  async changePassword(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const parsed = ChangePasswordDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const user = await userModel.findById(req.user?.id);
+      if (!user || user.isDeleted) {
+        return response.notFound(res, "user not found");
+      }
+
+      if (!(await verifyPassword(parsed.data.current_password, user.password))) {
+        return response.unauthorized(res, "current password is incorrect");
+      }
+
+      user.password = parsed.data.password;
+      await user.save();
+
+      // Other devices have to log in again with the new password
+      await sessionService.revokeAllForUser(user._id, "password changed", req.user?.sid);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: user._id,
+        summary: `Password ${user.username} diganti`,
+      });
+
+      return response.success(res, null, "success change password");
+    } catch (error) {
+      response.error(res, error, "failed to change password");
+      return;
+    }
+  },
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = ResetPasswordDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const { identifier, code, password } = parsed.data;
+      const error = await passwordResetService.redeem(identifier, code, password);
+      if (error) {
+        return response.unauthorized(res, error);
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.PASSWORD_RESET,
+        summary: `Password ${identifier} direset dengan kode`,
+      });
+
+      return response.success(res, null, "password has been reset, please login");
+    } catch (error) {
+      response.error(res, error, "failed to reset password");
+      return;
+    }
+  },
   async me(req: IReqUser, res: Response): Promise<void> {
     try {
       const user = req.user;
-      const result = await userModel
-        .findById(user?.id)
-        .select("-password")
-        .lean();
-      return response.success(res, result, "success get user profile");
+      const [result, sessions] = await Promise.all([
+        userModel
+          .findById(user?.id)
+          .select("-password")
+          .populate("household", "kk_number address head")
+          .lean(),
+        sessionService.listActive(user?.id as any),
+      ]);
+
+      return response.success(
+        res,
+        result && {
+          ...result,
+          sessions: sessions.map((session) => ({
+            ...session,
+            current: session._id.toString() === user?.sid,
+          })),
+        },
+        "success get user profile"
+      );
     } catch (error) {
       response.error(res, error, "failed to get user profile");
       return;
@@ -192,8 +372,11 @@ export default {
         }
         try {
           const decoded: any = jwt.verify(token, SECRET);
-          const privilegedRoles = [ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS, ROLES.RT, ROLES.RW];
-          if (!privilegedRoles.includes(decoded.role)) {
+          const canReadFull = await permissionService.hasPermission(
+            decoded.role,
+            PERMISSIONS.USER_READ_FULL
+          );
+          if (!canReadFull) {
             response.unauthorized(res, "Insufficient permissions for full data");
             return;
           }
@@ -280,6 +463,7 @@ export default {
           status: user.status,
           role: user.role,
           image_url: user.image_url,
+          thumbnail_url: user.thumbnail_url,
           unpaidIuranCount: unpaidData?.count || 0,
           unpaidIuranPeriods: unpaidData?.periods || [],
         };
@@ -313,6 +497,7 @@ export default {
       return;
     }
   },
+  // Registers the device of the app, one user can have several
   async updatePushToken(req: IReqUser, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
@@ -321,34 +506,70 @@ export default {
         return;
       }
 
-      const { pushToken } = req.body;
-
-      const parsed = PushTokenDTO.safeParse({ pushToken });
+      const parsed = PushTokenDTO.safeParse(req.body);
 
       if (!parsed.success) {
         response.error(res, parsed.error, "validation error");
         return;
       }
 
-      const result = await userModel
-        .findByIdAndUpdate(
-          userId,
-          { expoPushToken: parsed.data.pushToken },
-          { new: true }
-        )
-        .select("-password");
-
-      if (!result) {
+      const user = await userModel.exists({ _id: userId, isDeleted: { $ne: true } });
+      if (!user) {
         response.notFound(res, "user not found");
         return;
       }
 
-      return response.success(res, result, "push token updated successfully");
+      const device = await notificationService.registerDevice(userId, parsed.data.pushToken, {
+        platform: parsed.data.platform,
+        device_name: parsed.data.deviceName,
+      });
+
+      return response.success(res, device, "push token updated successfully");
     } catch (error) {
       response.error(res, error, "failed to update push token");
       return;
     }
   },
+  async removePushToken(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { pushToken } = req.body || {};
+      if (typeof pushToken !== "string" || !pushToken) {
+        response.error(res, "Push token is required", "validation error");
+        return;
+      }
+
+      const removed = await notificationService.unregisterDevice(userId, pushToken);
+      if (!removed) {
+        return response.notFound(res, "push token not found");
+      }
+
+      return response.success(res, null, "push token removed successfully");
+    } catch (error) {
+      response.error(res, error, "failed to remove push token");
+      return;
+    }
+  },
+  async devices(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const devices = await notificationService.listDevices(userId);
+      return response.success(res, devices, "success get devices");
+    } catch (error) {
+      response.error(res, error, "failed to get devices");
+      return;
+    }
+  },
   async updateProfile(req: IReqUser, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
@@ -358,7 +579,8 @@ export default {
       }
 
       const { username, address, position, phone_number } = req.body;
-      const image_url = req.file ? `/uploads/${req.file.filename}` : undefined;
+      const image_url = req.file ? uploadUrl(req.file) : undefined;
+      const thumbnail_url = req.file ? thumbnailUrl(req.file) : undefined;
 
       console.log("Update Profile Request:");
       console.log("- Body:", { username, address, position, phone_number });
@@ -371,6 +593,7 @@ export default {
         position,
         phone_number,
         image_url,
+        thumbnail_url,
       });
 
       if (!parsed.success) {
@@ -392,23 +615,11 @@ export default {
         }
       }
 
+      const currentUser = await userModel.findById(userId);
+
       // If new image is uploaded, delete the old one
-      if (image_url) {
-        const currentUser = await userModel.findById(userId);
-        if (currentUser?.image_url) {
-          const oldImagePath = path.join(process.cwd(), currentUser.image_url);
-          console.log("Attempting to delete old image:", oldImagePath);
-          if (fs.existsSync(oldImagePath)) {
-            try {
-              fs.unlinkSync(oldImagePath);
-              console.log("Old image deleted successfully");
-            } catch (error) {
-              console.error("Failed to delete old image:", error);
-            }
-          } else {
-            console.log("Old image file does not exist");
-          }
-        }
+      if (image_url && currentUser?.image_url) {
+        mediaService.remove(currentUser.image_url);
       }
 
       // Filter out undefined values to only update provided fields
@@ -427,6 +638,15 @@ export default {
         return;
       }
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: result._id,
+        summary: `Profil ${result.username}`,
+        before: currentUser,
+        after: result,
+      });
+
       console.log("Profile updated successfully");
       return response.success(res, result, "profile updated successfully");
     } catch (error) {
@@ -457,10 +677,22 @@ export default {
         deletedAt: new Date(),
       });
 
-      // Delete only UNPAID iuran, keep PAID iuran for history
+      await sessionService.revokeAllForUser(id, "user deleted");
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: user._id,
+        summary: `User ${user.username}`,
+        before: user,
+      });
+
+      // Delete only UNPAID iuran, keep PAID iuran for history.
+      // Household bills stay, the rest of the family still owes them.
       const deleteResult = await iuranModel.deleteMany({
         user: id,
+        household: null,
         status: { $ne: IURAN_STATUS.PAID },
+        paid_amount: { $in: [0, null] }, // partially paid ones are kept
       });
 
       console.log(
@@ -497,7 +729,7 @@ export default {
       }
 
       const { username, email, address, phone_number, role } = req.body;
-      const image_url = req.file ? `/uploads/${req.file.filename}` : undefined;
+      const image_url = req.file ? uploadUrl(req.file) : undefined;
 
       // Check username uniqueness if changing
       if (username && username !== user.username) {
@@ -519,10 +751,7 @@ export default {
 
       // If new image, delete old one
       if (image_url && user.image_url) {
-        const oldPath = path.join(process.cwd(), user.image_url);
-        if (fs.existsSync(oldPath)) {
-          try { fs.unlinkSync(oldPath); } catch {}
-        }
+        mediaService.remove(user.image_url);
       }
 
       const updateData: Record<string, any> = {};
@@ -532,11 +761,21 @@ export default {
       if (phone_number !== undefined) updateData.phone_number = phone_number;
       if (role !== undefined) updateData.role = role;
       if (image_url !== undefined) updateData.image_url = image_url;
+      if (req.file) updateData.thumbnail_url = thumbnailUrl(req.file);
 
       const result = await userModel
         .findByIdAndUpdate(id, updateData, { new: true })
         .select("-password");
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: user._id,
+        summary: `User ${user.username}`,
+        before: user,
+        after: result,
+      });
+
       return response.success(res, result, "user updated successfully");
     } catch (error) {
       response.error(res, error, "failed to update user");
@@ -585,36 +824,42 @@ export default {
         )
         .select("-password");
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: user._id,
+        summary: `Status ${user.username} ${oldStatus} -> ${status}`,
+        before: user,
+        after: updatedUser,
+      });
+
+      // Moved users can no longer log in, end their sessions as well
+      if (status === USER_STATUS.MOVED) {
+        await sessionService.revokeAllForUser(id, "user moved");
+      }
+
       // If user becomes moved/inactive, delete all UNPAID iuran
       if ((status === "moved" || status === "inactive") && oldStatus === "active") {
         const deleteResult = await iuranModel.deleteMany({
           user: id,
+          household: null, // household bills stay with the family
           status: { $ne: IURAN_STATUS.PAID },
+          paid_amount: { $in: [0, null] }, // partially paid ones are kept
         });
         console.log(`User ${user.username} status changed to ${status}, removed ${deleteResult.deletedCount} unpaid iuran records`);
       }
 
       // If user becomes active from inactive/away/moved, create missing iuran for remaining months
+      // (for the household when the user belongs to one)
       if (status === "active" && oldStatus !== "active") {
-        const now = new Date();
-        const currentYear = now.getFullYear();
-        const currentMonth = now.getMonth() + 1;
-
-        for (let month = currentMonth; month <= 12; month++) {
-          const period = `${currentYear}-${String(month).padStart(2, "0")}`;
-          const exists = await iuranModel.findOne({ user: id, period, type: "regular" });
-          if (!exists) {
-            await iuranModel.create({
-              user: id,
-              period,
-              amount: "50000",
-              type: "regular",
-              status: IURAN_STATUS.UNPAID,
-              submitted_at: null,
-              confirmed_at: null,
-              confirmed_by: null,
-            });
-          }
+        const target = await billingService.getTarget(user._id);
+        const currentPeriod = getCurrentPeriod();
+        if (target) {
+          await billingService.ensureIuran(
+            target,
+            listPeriods(currentPeriod, `${currentPeriod.slice(0, 4)}-12`),
+            await tariffService.loadResolver()
+          );
         }
         console.log(`User ${user.username} status changed to active, iuran ensured for remaining months`);
       }
@@ -661,32 +906,27 @@ export default {
         )
         .select("-password");
 
-      // Create iuran from current month to end of year
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth() + 1;
-      let iuranCreated = 0;
-
-      for (let month = currentMonth; month <= 12; month++) {
-        const period = `${currentYear}-${String(month).padStart(2, "0")}`;
-
-        const exists = await iuranModel.findOne({
-          user: id,
-          period: period,
-          type: "regular",
-        });
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.USER,
+        entity_id: user._id,
+        summary: `User ${user.username} dipulihkan`,
+        before: user,
+        after: restoredUser,
+      });
 
-        if (!exists) {
-          await iuranModel.create({
-            user: id,
-            period: period,
-            amount: "50000",
-            type: "regular",
-            status: IURAN_STATUS.UNPAID,
-          });
-          iuranCreated++;
-        }
-      }
+      // Create iuran from current month to end of year (household bills if in one)
+      const target = await billingService.getTarget(user._id);
+      const currentPeriod = getCurrentPeriod();
+      const iuranCreated = target
+        ? (
+            await billingService.ensureIuran(
+              target,
+              listPeriods(currentPeriod, `${currentPeriod.slice(0, 4)}-12`),
+              await tariffService.loadResolver()
+            )
+          ).length
+        : 0;
 
       console.log(
         `Restored user ${user.username}, created ${iuranCreated} iuran records`
@@ -707,6 +947,86 @@ export default {
     }
   },
 
+  async revokeUserSessions(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid user id", "validation error");
+        return;
+      }
+
+      const user = await userModel.findById(id);
+      if (!user) {
+        response.notFound(res, "user not found");
+        return;
+      }
+
+      const revoked = await sessionService.revokeAllForUser(id, "revoked by admin");
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.SESSION,
+        entity_id: user._id,
+        summary: `${revoked} sesi ${user.username} dicabut`,
+      });
+
+      return response.success(
+        res,
+        { revoked },
+        `revoked ${revoked} session(s) of ${user.username}`
+      );
+    } catch (error) {
+      response.error(res, error, "failed to revoke sessions");
+      return;
+    }
+  },
+
+  // Admin/sekretaris hands the code to the warga in person or via WhatsApp
+  async issueResetCode(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const issuerId = req.user?.id;
+
+      if (!issuerId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid user id", "validation error");
+        return;
+      }
+
+      const user = await userModel.findById(id);
+      if (!user || user.isDeleted) {
+        response.notFound(res, "user not found");
+        return;
+      }
+
+      if (user.status === USER_STATUS.MOVED) {
+        response.error(res, "user has moved", "cannot reset password");
+        return;
+      }
+
+      const result = await passwordResetService.issue(user._id, issuerId);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.PASSWORD_RESET,
+        entity_id: user._id,
+        summary: `Kode reset password untuk ${user.username}`,
+      });
+
+      return response.success(
+        res,
+        { username: user.username, ...result },
+        "success issue reset code"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to issue reset code");
+      return;
+    }
+  },
+
   async downloadTemplate(req: Request, res: Response): Promise<void> {
     try {
       const buffer = await createUserImportTemplate();
@@ -755,6 +1075,7 @@ export default {
       };
 
       const rowsToProcess: any[] = [];
+      const resolveAmount = await tariffService.loadResolver();
 
       // Start from row 2 (skip header)
       worksheet.eachRow((row, rowNumber) => {
@@ -856,6 +1177,13 @@ export default {
           if (email) userData.email = email;
 
           const newUser = await userModel.create(userData) as any;
+          await auditService.record(req, {
+            action: AUDIT_ACTIONS.CREATE,
+            entity_type: AUDIT_ENTITY.USER,
+            entity_id: newUser._id,
+            summary: `User ${newUser.username} (import)`,
+            after: newUser,
+          });
 
           // Create iuran for non-admin users
           if (newUser.role !== ROLES.ADMIN) {
@@ -864,11 +1192,14 @@ export default {
 
             for (let month = 1; month <= 12; month++) {
               const period = `${nextYear}-${String(month).padStart(2, "0")}`;
+              const amount = resolveAmount(newUser, period);
+              if (amount === 0) continue; // exempt
+
               iuranPromises.push(
                 iuranModel.create({
                   user: newUser._id,
                   period: period,
-                  amount: "50000",
+                  amount,
                   type: "regular",
                   status: IURAN_STATUS.UNPAID,
                   submitted_at: null,
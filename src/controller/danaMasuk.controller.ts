@@ -1,8 +1,12 @@
 import { Response } from "express";
 import mongoose from "mongoose";
 import danaMasukModel from "../models/danaMasuk.model";
+import ledgerService from "../services/ledger.service";
+import auditService from "../services/audit.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY, LEDGER_SOURCE } from "../utils/constants";
 import { IReqUser } from "../utils/interface";
 import response from "../utils/response";
+import { parseRupiah } from "../utils/money";
 
 export default {
   // Public: list all dana masuk
@@ -52,9 +56,9 @@ export default {
         return;
       }
 
-      const numNominal = Number(nominal);
-      if (isNaN(numNominal) || numNominal <= 0) {
-        response.error(res, "nominal must be a positive number", "validation error");
+      const numNominal = parseRupiah(nominal);
+      if (!numNominal) {
+        response.error(res, "nominal must be a whole rupiah amount above 0", "validation error");
         return;
       }
 
@@ -65,6 +69,15 @@ export default {
         created_by: userId,
       });
 
+      await ledgerService.syncDanaMasuk(result);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.DANA_MASUK,
+        entity_id: result._id,
+        summary: `Dana masuk dari ${result.nama_pemberi}`,
+        after: result,
+      });
+
       return response.success(res, result, "success create dana masuk");
     } catch (error) {
       response.error(res, error, "failed to create dana masuk");
@@ -87,6 +100,15 @@ export default {
         return;
       }
 
+      await ledgerService.removeSource(LEDGER_SOURCE.DANA_MASUK, result._id);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.DANA_MASUK,
+        entity_id: result._id,
+        summary: `Dana masuk dari ${result.nama_pemberi}`,
+        before: result,
+      });
+
       return response.success(res, result, "success delete dana masuk");
     } catch (error) {
       response.error(res, error, "failed to delete dana masuk");
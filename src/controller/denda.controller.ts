@@ -0,0 +1,76 @@
+import { Response } from "express";
+import settingsModel from "../models/settings.model";
+import auditService from "../services/audit.service";
+import dendaService from "../services/denda.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+import { DendaRuleDTO } from "../utils/zodSchema";
+import { SETTINGS_KEYS } from "../services/settings.service";
+
+export default {
+  async getRule(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const rule = await dendaService.getRule();
+      return response.success(res, rule, "success get denda rule");
+    } catch (error) {
+      response.error(res, error, "failed to get denda rule");
+      return;
+    }
+  },
+
+  async updateRule(req: IReqUser, res: Response): Promise<void> {
+    try {
+      // Partial updates are validated against the current rule
+      const current = await dendaService.getRule();
+      const parsed = DendaRuleDTO.safeParse({ ...current, ...req.body });
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const before = await settingsModel
+        .findOne({ key: SETTINGS_KEYS.DENDA_RULE })
+        .lean();
+
+      const result = await settingsModel.findOneAndUpdate(
+        { key: SETTINGS_KEYS.DENDA_RULE },
+        { key: SETTINGS_KEYS.DENDA_RULE, value: parsed.data },
+        { upsert: true, new: true }
+      );
+
+      await auditService.record(req, {
+        action: before ? AUDIT_ACTIONS.UPDATE : AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.SETTINGS,
+        entity_id: SETTINGS_KEYS.DENDA_RULE,
+        summary: "Aturan denda diubah",
+        before,
+        after: result,
+      });
+
+      return response.success(res, result.value, "success update denda rule");
+    } catch (error) {
+      response.error(res, error, "failed to update denda rule");
+      return;
+    }
+  },
+
+  // Umur tunggakan: unpaid iuran per household/user in 0-30/31-90/91-180/180+ days
+  async getArrearsAgeing(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { as_of } = req.query;
+
+      const asOf = as_of ? new Date(as_of as string) : new Date();
+      if (isNaN(asOf.getTime())) {
+        response.error(res, "invalid as_of date", "validation error");
+        return;
+      }
+
+      const result = await dendaService.getArrearsAgeing(asOf);
+      return response.success(res, result, "success get arrears ageing");
+    } catch (error) {
+      response.error(res, error, "failed to get arrears ageing");
+      return;
+    }
+  },
+};
@@ -6,8 +6,22 @@ import response from "../utils/response";
 import pengeluaranModel from "../models/pengeluaran.model";
 import { generateEventReport } from "../utils/excelReportGenerator";
 import { generateSlug, generateUniqueSlug } from "../utils/slugGenerator";
-import { ROLES } from "../utils/constants";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  LEDGER_SOURCE,
+  PERMISSIONS,
+} from "../utils/constants";
 import { getCurrentBalance } from "./keuangan.controller";
+import ledgerService from "../services/ledger.service";
+import auditService, { snapshot } from "../services/audit.service";
+import eventBudgetService from "../services/eventBudget.service";
+import permissionService from "../services/permission.service";
+import { thumbnailUrl, uploadUrl } from "../services/media.service";
+import settingsModel from "../models/settings.model";
+import { EventBudgetDTO, EventCategoriesDTO } from "../utils/zodSchema";
+import { SETTINGS_KEYS } from "../services/settings.service";
+import { parseRupiah } from "../utils/money";
 
 export default {
   async create(req: IReqUser, res: Response): Promise<void> {
@@ -44,13 +58,21 @@ export default {
         date: new Date(date),
         donations: [],
         expenses: [],
-        total_donations: "0",
-        total_expenses: "0",
-        balance: "0",
+        total_donations: 0,
+        total_expenses: 0,
+        balance: 0,
         status: "planning",
         created_by: userId,
       });
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.EVENT,
+        entity_id: result._id,
+        summary: `Event ${result.name}`,
+        after: result,
+      });
+
       return response.success(res, result, "success create event");
     } catch (error) {
       response.error(res, error, "failed to create event");
@@ -113,7 +135,11 @@ export default {
         return response.notFound(res, "event not found");
       }
 
-      return response.success(res, result, "success find event");
+      return response.success(
+        res,
+        { ...result, budget_summary: eventBudgetService.summarize(result) },
+        "success find event"
+      );
     } catch (error) {
       response.error(res, error, "failed to find event");
       return;
@@ -136,8 +162,11 @@ export default {
         return response.notFound(res, "event not found");
       }
 
-      // ADMIN can bypass completed event restriction
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      // event.edit_completed (admin by default) can bypass completed event restriction
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(
           res,
           "cannot update completed event",
@@ -156,6 +185,18 @@ export default {
         .findByIdAndUpdate(id, updateData, { new: true })
         .populate("created_by", "username");
 
+      if (result) {
+        await ledgerService.syncEvent(result);
+        await auditService.record(req, {
+          action: AUDIT_ACTIONS.UPDATE,
+          entity_type: AUDIT_ENTITY.EVENT,
+          entity_id: result._id,
+          summary: `Event ${result.name}`,
+          before: event,
+          after: result,
+        });
+      }
+
       return response.success(res, result, "success update event");
     } catch (error) {
       response.error(res, error, "failed to update event");
@@ -178,8 +219,11 @@ export default {
         return response.notFound(res, "event not found");
       }
 
-      // ADMIN can bypass completed event restriction
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      // event.edit_completed (admin by default) can bypass completed event restriction
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(
           res,
           "cannot delete completed event",
@@ -190,11 +234,29 @@ export default {
 
       // Delete related pengeluaran records if event was completed
       if (event.status === "completed") {
+        const linkedPengeluaran = await pengeluaranModel
+          .find({ event_id: id })
+          .select("_id")
+          .lean();
+        await ledgerService.removeSources(
+          LEDGER_SOURCE.PENGELUARAN,
+          linkedPengeluaran.map((p) => p._id)
+        );
         await pengeluaranModel.deleteMany({ event_id: id });
       }
 
+      await ledgerService.removeEvent(event._id);
+
       await eventModel.findByIdAndDelete(id);
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.EVENT,
+        entity_id: event._id,
+        summary: `Event ${event.name}`,
+        before: event,
+      });
+
       return response.success(res, null, "success delete event");
     } catch (error) {
       response.error(res, error, "failed to delete event");
@@ -222,13 +284,22 @@ export default {
         return;
       }
 
+      const donationAmount = parseRupiah(amount);
+      if (donationAmount === null) {
+        response.error(res, "amount must be a whole rupiah amount", "validation error");
+        return;
+      }
+
       const event = await eventModel.findById(id);
       if (!event) {
         return response.notFound(res, "event not found");
       }
 
-      // ADMIN can bypass completed event restriction
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      // event.edit_completed (admin by default) can bypass completed event restriction
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(
           res,
           "cannot add donation to completed event",
@@ -239,7 +310,7 @@ export default {
 
       event.donations.push({
         donor_name,
-        amount: String(amount),
+        amount: donationAmount,
         date: date ? new Date(date) : new Date(),
         address: address || null,
       });
@@ -251,6 +322,16 @@ export default {
 
       await event.save(); // Will trigger pre-save hook to recalculate totals
 
+      const donation = event.donations[event.donations.length - 1];
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.EVENT_DONATION,
+        entity_id: (donation as any)?._id,
+        parent_id: event._id,
+        summary: `Donasi ${donor_name} untuk ${event.name}`,
+        after: donation,
+      });
+
       return response.success(res, event, "success add donation");
     } catch (error) {
       response.error(res, error, "failed to add donation");
@@ -279,11 +360,17 @@ export default {
         return;
       }
 
-      const validCategories = ["HIBURAN", "LOMBA", "KONSUMSI", "LAINNYA"];
+      const expenseAmount = parseRupiah(amount);
+      if (expenseAmount === null) {
+        response.error(res, "amount must be a whole rupiah amount", "validation error");
+        return;
+      }
+
+      const validCategories = await eventBudgetService.getCategories();
       if (!validCategories.includes(category)) {
         response.error(
           res,
-          "category must be one of: HIBURAN, LOMBA, KONSUMSI, LAINNYA",
+          `category must be one of: ${validCategories.join(", ")}`,
           "validation error"
         );
         return;
@@ -294,8 +381,11 @@ export default {
         return response.notFound(res, "event not found");
       }
 
-      // ADMIN can bypass completed event restriction
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      // event.edit_completed (admin by default) can bypass completed event restriction
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(
           res,
           "cannot add expense to completed event",
@@ -304,16 +394,16 @@ export default {
         return;
       }
 
-      const proof_image_urls = files
-        ? files.map((file) => `/uploads/${file.filename}`)
-        : [];
+      const proof_image_urls = files ? files.map(uploadUrl) : [];
+      const proof_thumbnail_urls = files ? files.map(thumbnailUrl) : [];
 
       event.expenses.push({
         description,
-        amount: String(amount),
+        amount: expenseAmount,
         date: date ? new Date(date) : new Date(),
         category,
         proof_image_urls,
+        proof_thumbnail_urls,
       });
 
       // Auto-set status to active when first expense is added
@@ -323,13 +413,156 @@ export default {
 
       await event.save(); // Will trigger pre-save hook to recalculate totals
 
-      return response.success(res, event, "success add expense");
+      const expense = event.expenses[event.expenses.length - 1];
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.EVENT_EXPENSE,
+        entity_id: (expense as any)?._id,
+        parent_id: event._id,
+        summary: `Pengeluaran ${description} untuk ${event.name}`,
+        after: expense,
+      });
+
+      // The expense is recorded anyway, over budget only warns
+      const warning = eventBudgetService.warningFor(event, expense);
+
+      return response.success(
+        res,
+        { ...event.toObject(), budget_warnings: warning ? [warning] : [] },
+        "success add expense"
+      );
     } catch (error) {
       response.error(res, error, "failed to add expense");
       return;
     }
   },
 
+  // Planned spending per category, replaced as a whole. Only while planning.
+  async updateBudget(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid event id", "validation error");
+        return;
+      }
+
+      const parsed = EventBudgetDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const event = await eventModel.findById(id);
+      if (!event) {
+        return response.notFound(res, "event not found");
+      }
+
+      if (event.status !== "planning") {
+        response.error(
+          res,
+          "budget can only be set while the event is in planning",
+          "validation error"
+        );
+        return;
+      }
+
+      const validCategories = await eventBudgetService.getCategories();
+      const unknown = parsed.data.items.filter(
+        (item) => !validCategories.includes(item.category)
+      );
+      if (unknown.length > 0) {
+        response.error(
+          res,
+          `category must be one of: ${validCategories.join(", ")}`,
+          "validation error"
+        );
+        return;
+      }
+
+      const before = snapshot(event.budget);
+
+      event.set(
+        "budget",
+        parsed.data.items.map((item) => ({
+          category: item.category,
+          amount: item.amount,
+        }))
+      );
+      await event.save();
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.EVENT,
+        entity_id: event._id,
+        summary: `Anggaran event ${event.name}`,
+        before,
+        after: event.budget,
+      });
+
+      return response.success(
+        res,
+        {
+          budget: event.budget,
+          budget_summary: eventBudgetService.summarize(event),
+        },
+        "success update event budget"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to update event budget");
+      return;
+    }
+  },
+
+  async getCategories(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const categories = await eventBudgetService.getCategories();
+      return response.success(res, { categories }, "success get event categories");
+    } catch (error) {
+      response.error(res, error, "failed to get event categories");
+      return;
+    }
+  },
+
+  // Existing expenses keep their category when it is removed from the list
+  async updateCategories(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const parsed = EventCategoriesDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const before = await settingsModel
+        .findOne({ key: SETTINGS_KEYS.EVENT_CATEGORIES })
+        .lean();
+
+      const result = await settingsModel.findOneAndUpdate(
+        { key: SETTINGS_KEYS.EVENT_CATEGORIES },
+        { key: SETTINGS_KEYS.EVENT_CATEGORIES, value: parsed.data.categories },
+        { upsert: true, new: true }
+      );
+
+      await auditService.record(req, {
+        action: before ? AUDIT_ACTIONS.UPDATE : AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.SETTINGS,
+        entity_id: SETTINGS_KEYS.EVENT_CATEGORIES,
+        summary: "Kategori pengeluaran event diubah",
+        before,
+        after: result,
+      });
+
+      return response.success(
+        res,
+        { categories: result.value },
+        "success update event categories"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to update event categories");
+      return;
+    }
+  },
+
   async completeEvent(req: IReqUser, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
@@ -375,27 +608,42 @@ export default {
           items: [
             {
               name: expense.description,
-              price: Number(expense.amount),
+              price: expense.amount,
               image_url: expense.proof_image_urls?.[0], // Use first image if available
+              thumbnail_url: expense.proof_thumbnail_urls?.[0],
             },
           ],
-          total: Number(expense.amount),
+          total: expense.amount,
           created_by: new Types.ObjectId(userId),
           event_id: event._id, // Link pengeluaran to event
         });
+        await ledgerService.syncPengeluaran(pengeluaran);
         createdPengeluaran.push(pengeluaran);
       }
 
       // Calculate balance
-      const balance = Number(event.balance);
-      const donations = Number(event.total_donations);
-      const expenses = Number(event.total_expenses);
+      const balance = event.balance;
+      const donations = event.total_donations;
+      const expenses = event.total_expenses;
+
+      const before = snapshot(event);
 
       // Mark event as completed
       event.status = "completed";
       event.completed_at = new Date();
       await event.save();
 
+      // Donations enter the kas once the event is completed
+      await ledgerService.syncEvent(event);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.EVENT,
+        entity_id: event._id,
+        summary: `Event ${event.name} diselesaikan`,
+        before,
+        after: event,
+      });
+
       return response.success(
         res,
         {
@@ -435,7 +683,7 @@ export default {
 
       const result = await eventModel
         .findOne({ slug, status: "completed" })
-        .select("-created_by -expenses.proof_image_urls")
+        .select("-created_by -expenses.proof_image_urls -expenses.proof_thumbnail_urls")
         .lean();
 
       if (!result) {
@@ -473,8 +721,12 @@ export default {
         return;
       }
 
-      const totalSumbangan = Number(event.total_donations);
-      const buffer = await generateEventReport(event as Event, totalSumbangan);
+      const totalSumbangan = event.total_donations;
+      const buffer = await generateEventReport(
+        event as Event,
+        totalSumbangan,
+        await eventBudgetService.getCategories()
+      );
 
       // Set headers for Excel file download
       res.setHeader(
@@ -507,7 +759,10 @@ export default {
       const event = await eventModel.findById(id);
       if (!event) return response.notFound(res, "event not found");
 
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(res, "cannot update donation in completed event", "validation error");
         return;
       }
@@ -515,12 +770,30 @@ export default {
       const donation = (event.donations as any).id(donationId);
       if (!donation) return response.notFound(res, "donation not found");
 
+      const donationAmount = amount !== undefined ? parseRupiah(amount) : donation.amount;
+      if (donationAmount === null) {
+        response.error(res, "amount must be a whole rupiah amount", "validation error");
+        return;
+      }
+
+      const before = snapshot(donation);
+
       if (donor_name !== undefined) donation.donor_name = donor_name;
-      if (amount !== undefined) donation.amount = String(amount);
+      donation.amount = donationAmount;
       if (date !== undefined) donation.date = new Date(date);
       if (address !== undefined) donation.address = address;
 
       await event.save();
+      await ledgerService.syncEvent(event);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.EVENT_DONATION,
+        entity_id: donationId,
+        parent_id: event._id,
+        summary: `Donasi ${donation.donor_name} untuk ${event.name}`,
+        before,
+        after: donation,
+      });
       return response.success(res, event, "success update donation");
     } catch (error) {
       response.error(res, error, "failed to update donation");
@@ -540,7 +813,10 @@ export default {
       const event = await eventModel.findById(id);
       if (!event) return response.notFound(res, "event not found");
 
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(res, "cannot delete donation in completed event", "validation error");
         return;
       }
@@ -548,8 +824,19 @@ export default {
       const donation = (event.donations as any).id(donationId);
       if (!donation) return response.notFound(res, "donation not found");
 
+      const before = snapshot(donation);
+
       donation.deleteOne();
       await event.save();
+      await ledgerService.syncEvent(event);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.EVENT_DONATION,
+        entity_id: donationId,
+        parent_id: event._id,
+        summary: `Donasi ${before?.donor_name} untuk ${event.name}`,
+        before,
+      });
       return response.success(res, event, "success delete donation");
     } catch (error) {
       response.error(res, error, "failed to delete donation");
@@ -570,7 +857,10 @@ export default {
       const event = await eventModel.findById(id);
       if (!event) return response.notFound(res, "event not found");
 
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(res, "cannot update expense in completed event", "validation error");
         return;
       }
@@ -578,8 +868,26 @@ export default {
       const expense = (event.expenses as any).id(expenseId);
       if (!expense) return response.notFound(res, "expense not found");
 
-      const oldAmount = Number(expense.amount);
-      const newAmount = amount !== undefined ? Number(amount) : oldAmount;
+      if (category !== undefined && category !== expense.category) {
+        const validCategories = await eventBudgetService.getCategories();
+        if (!validCategories.includes(category)) {
+          response.error(
+            res,
+            `category must be one of: ${validCategories.join(", ")}`,
+            "validation error"
+          );
+          return;
+        }
+      }
+
+      const oldAmount: number = expense.amount;
+      const newAmount = amount !== undefined ? parseRupiah(amount) : oldAmount;
+      if (newAmount === null) {
+        response.error(res, "amount must be a whole rupiah amount", "validation error");
+        return;
+      }
+
+      const before = snapshot(expense);
 
       // If event is completed, the expense has a linked pengeluaran - check kas
       if (event.status === "completed" && newAmount !== oldAmount) {
@@ -616,16 +924,26 @@ export default {
               0
             );
             await linkedPengeluaran.save();
+            await ledgerService.syncPengeluaran(linkedPengeluaran);
           }
         }
       }
 
       if (description !== undefined) expense.description = description;
-      if (amount !== undefined) expense.amount = String(newAmount);
+      expense.amount = newAmount;
       if (date !== undefined) expense.date = new Date(date);
       if (category !== undefined) expense.category = category;
 
       await event.save();
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.EVENT_EXPENSE,
+        entity_id: expenseId,
+        parent_id: event._id,
+        summary: `Pengeluaran ${expense.description} untuk ${event.name}`,
+        before,
+        after: expense,
+      });
       return response.success(res, event, "success update expense");
     } catch (error) {
       response.error(res, error, "failed to update expense");
@@ -645,7 +963,10 @@ export default {
       const event = await eventModel.findById(id);
       if (!event) return response.notFound(res, "event not found");
 
-      if (event.status === "completed" && userRole !== ROLES.ADMIN) {
+      if (
+        event.status === "completed" &&
+        !(await permissionService.hasPermission(userRole, PERMISSIONS.EVENT_EDIT_COMPLETED))
+      ) {
         response.error(res, "cannot delete expense in completed event", "validation error");
         return;
       }
@@ -668,15 +989,30 @@ export default {
             );
             if (linkedPengeluaran.items.length === 0) {
               await pengeluaranModel.findByIdAndDelete(linkedPengeluaran._id);
+              await ledgerService.removeSource(
+                LEDGER_SOURCE.PENGELUARAN,
+                linkedPengeluaran._id
+              );
             } else {
               await linkedPengeluaran.save();
+              await ledgerService.syncPengeluaran(linkedPengeluaran);
             }
           }
         }
       }
 
+      const before = snapshot(expense);
+
       expense.deleteOne();
       await event.save();
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.EVENT_EXPENSE,
+        entity_id: expenseId,
+        parent_id: event._id,
+        summary: `Pengeluaran ${before?.description} untuk ${event.name}`,
+        before,
+      });
       return response.success(res, event, "success delete expense");
     } catch (error) {
       response.error(res, error, "failed to delete expense");
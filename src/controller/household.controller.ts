@@ -0,0 +1,446 @@
+import { Response } from "express";
+import mongoose, { Types } from "mongoose";
+import householdModel from "../models/household.model";
+import iuranModel from "../models/iuran.model";
+import userModel from "../models/user.model";
+import auditService, { snapshot } from "../services/audit.service";
+import billingService from "../services/billing.service";
+import tariffService from "../services/tariff.service";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  IURAN_STATUS,
+  ROLES,
+  USER_STATUS,
+} from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import { getCurrentPeriod, listPeriods } from "../utils/period";
+import response from "../utils/response";
+import { HouseholdDTO, HouseholdUpdateDTO } from "../utils/zodSchema";
+
+const MEMBER_FIELDS =
+  "username email phone_number address role status image_url thumbnail_url";
+
+// Returns an error message when the user cannot join the household
+async function checkCanJoin(
+  userId: string,
+  householdId?: Types.ObjectId
+): Promise<string | null> {
+  const user = await userModel.findById(userId).select("username household isDeleted status");
+  if (!user || user.isDeleted) return `user ${userId} not found`;
+  if (user.status === USER_STATUS.MOVED) return `${user.username} has moved`;
+  if (user.household && (!householdId || !user.household.equals(householdId))) {
+    return `${user.username} already belongs to another household`;
+  }
+  return null;
+}
+
+// The household now pays for the member: drop their own upcoming unpaid
+// iuran and hand over their credit. Past arrears stay on the member.
+async function joinHousehold(userId: Types.ObjectId | string, householdId: Types.ObjectId) {
+  await userModel.findByIdAndUpdate(userId, { household: householdId });
+  await iuranModel.deleteMany({
+    user: userId,
+    household: null,
+    type: "regular",
+    status: { $in: [IURAN_STATUS.UNPAID, IURAN_STATUS.REJECTED] },
+    paid_amount: { $in: [0, null] },
+    period: { $gte: getCurrentPeriod() },
+  });
+  await billingService.moveCreditToHousehold(userId, householdId);
+}
+
+// Billed on their own again for the rest of the year
+async function leaveHousehold(userId: Types.ObjectId | string) {
+  const user = await userModel.findByIdAndUpdate(userId, { household: null }, { new: true });
+  if (
+    !user ||
+    user.isDeleted ||
+    user.role === ROLES.ADMIN ||
+    user.status !== USER_STATUS.ACTIVE
+  ) {
+    return;
+  }
+
+  const target = await billingService.getTarget(user._id);
+  if (!target) return;
+
+  const currentPeriod = getCurrentPeriod();
+  await billingService.ensureIuran(
+    target,
+    listPeriods(currentPeriod, `${currentPeriod.slice(0, 4)}-12`),
+    await tariffService.loadResolver()
+  );
+}
+
+async function findWithMembers(id: Types.ObjectId | string) {
+  const household = await householdModel
+    .findById(id)
+    .populate("head", "username phone_number")
+    .lean();
+  if (!household) return null;
+
+  const members = await userModel
+    .find({ household: household._id, isDeleted: { $ne: true } })
+    .select(MEMBER_FIELDS)
+    .sort({ username: 1 })
+    .lean();
+
+  return { ...household, members };
+}
+
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 10, page = 1, search } = req.query;
+
+      const query: Record<string, any> = {};
+      if (search) {
+        query.$or = [
+          { address: { $regex: search as string, $options: "i" } },
+          { kk_number: { $regex: search as string, $options: "i" } },
+        ];
+      }
+
+      const [result, count] = await Promise.all([
+        householdModel
+          .find(query)
+          .populate("head", "username phone_number")
+          .sort({ address: 1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        householdModel.countDocuments(query),
+      ]);
+
+      const memberCounts = await userModel.aggregate([
+        {
+          $match: {
+            household: { $in: result.map((household) => household._id) },
+            isDeleted: { $ne: true },
+          },
+        },
+        { $group: { _id: "$household", count: { $sum: 1 } } },
+      ]);
+      const countMap = new Map(
+        memberCounts.map((item) => [item._id.toString(), item.count])
+      );
+
+      return response.pagination(
+        res,
+        result.map((household) => ({
+          ...household,
+          member_count: countMap.get(household._id.toString()) || 0,
+        })),
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success get households"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get households");
+      return;
+    }
+  },
+
+  async findOne(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid household id", "validation error");
+        return;
+      }
+
+      const result = await findWithMembers(id);
+      if (!result) {
+        return response.notFound(res, "household not found");
+      }
+
+      return response.success(res, result, "success get household");
+    } catch (error) {
+      response.error(res, error, "failed to get household");
+      return;
+    }
+  },
+
+  // Household of the logged in user
+  async me(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const user = await userModel.findById(req.user?.id).select("household").lean();
+      if (!user?.household) {
+        return response.success(res, null, "user has no household");
+      }
+
+      const result = await findWithMembers(user.household);
+      return response.success(res, result, "success get household");
+    } catch (error) {
+      response.error(res, error, "failed to get household");
+      return;
+    }
+  },
+
+  async create(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const parsed = HouseholdDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const data = parsed.data;
+      const memberIds = [...new Set([data.head, ...(data.members || [])])];
+
+      for (const memberId of memberIds) {
+        const error = await checkCanJoin(memberId);
+        if (error) {
+          response.error(res, error, "validation error");
+          return;
+        }
+      }
+
+      if (data.kk_number && (await householdModel.exists({ kk_number: data.kk_number }))) {
+        response.conflict(res, "KK number is already registered");
+        return;
+      }
+
+      const household = await householdModel.create({
+        kk_number: data.kk_number || null,
+        address: data.address.trim(),
+        head: data.head,
+        note: data.note || null,
+      });
+
+      // The head's own bills become the household's bills
+      await iuranModel.updateMany(
+        { user: data.head, household: null, type: "regular" },
+        { household: household._id }
+      );
+      await userModel.findByIdAndUpdate(data.head, { household: household._id });
+      await billingService.moveCreditToHousehold(data.head, household._id);
+
+      for (const memberId of memberIds) {
+        if (memberId === data.head) continue;
+        await joinHousehold(memberId, household._id);
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.HOUSEHOLD,
+        entity_id: household._id,
+        summary: `KK ${household.kk_number || "-"} ${household.address}`,
+        after: { ...snapshot(household), members: memberIds },
+      });
+
+      const result = await findWithMembers(household._id);
+      return response.success(res, result, "success create household");
+    } catch (error) {
+      response.error(res, error, "failed to create household");
+      return;
+    }
+  },
+
+  async update(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid household id", "validation error");
+        return;
+      }
+
+      const parsed = HouseholdUpdateDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const household = await householdModel.findById(id);
+      if (!household) {
+        return response.notFound(res, "household not found");
+      }
+
+      const data = parsed.data;
+      const before = snapshot(household);
+
+      if (data.kk_number && data.kk_number !== household.kk_number) {
+        const taken = await householdModel.exists({
+          kk_number: data.kk_number,
+          _id: { $ne: household._id },
+        });
+        if (taken) {
+          response.conflict(res, "KK number is already registered");
+          return;
+        }
+      }
+
+      // A new head has to be a member already
+      if (data.head && !household.head.equals(data.head)) {
+        const newHead = await userModel.findById(data.head).select("household isDeleted");
+        if (!newHead || newHead.isDeleted || !newHead.household?.equals(household._id)) {
+          response.error(res, "head must be a member of the household", "validation error");
+          return;
+        }
+
+        // Open bills move to the new head, paid ones keep who paid them
+        await iuranModel.updateMany(
+          { household: household._id, status: { $ne: IURAN_STATUS.PAID } },
+          { user: data.head }
+        );
+        household.head = new Types.ObjectId(data.head);
+      }
+
+      if (data.kk_number !== undefined) household.kk_number = data.kk_number || null;
+      if (data.address !== undefined) household.address = data.address.trim();
+      if (data.note !== undefined) household.note = data.note || null;
+      await household.save();
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.HOUSEHOLD,
+        entity_id: household._id,
+        summary: `KK ${household.kk_number || "-"} ${household.address}`,
+        before,
+        after: household,
+      });
+
+      const result = await findWithMembers(household._id);
+      return response.success(res, result, "success update household");
+    } catch (error) {
+      response.error(res, error, "failed to update household");
+      return;
+    }
+  },
+
+  // Only households without iuran history can be removed
+  async delete(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid household id", "validation error");
+        return;
+      }
+
+      const household = await householdModel.findById(id);
+      if (!household) {
+        return response.notFound(res, "household not found");
+      }
+
+      const hasIuran = await iuranModel.exists({ household: household._id });
+      if (hasIuran) {
+        response.conflict(
+          res,
+          "household already has iuran records, remove its members instead"
+        );
+        return;
+      }
+
+      const members = await userModel.find({ household: household._id }).select("_id");
+      await householdModel.findByIdAndDelete(household._id);
+      for (const member of members) {
+        await leaveHousehold(member._id);
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.HOUSEHOLD,
+        entity_id: household._id,
+        summary: `KK ${household.kk_number || "-"} ${household.address}`,
+        before: household,
+      });
+
+      return response.success(res, household, "success delete household");
+    } catch (error) {
+      response.error(res, error, "failed to delete household");
+      return;
+    }
+  },
+
+  async addMember(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { userId } = req.body;
+
+      if (!mongoose.isValidObjectId(id) || !mongoose.isValidObjectId(userId)) {
+        response.error(res, "invalid id", "validation error");
+        return;
+      }
+
+      const household = await householdModel.findById(id);
+      if (!household) {
+        return response.notFound(res, "household not found");
+      }
+
+      const error = await checkCanJoin(userId, household._id);
+      if (error) {
+        response.error(res, error, "validation error");
+        return;
+      }
+
+      await joinHousehold(userId, household._id);
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.HOUSEHOLD,
+        entity_id: household._id,
+        summary: `Anggota ${userId} ditambahkan`,
+        after: { member: userId },
+      });
+
+      const result = await findWithMembers(household._id);
+      return response.success(res, result, "success add household member");
+    } catch (error) {
+      response.error(res, error, "failed to add household member");
+      return;
+    }
+  },
+
+  async removeMember(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      if (!mongoose.isValidObjectId(id) || !mongoose.isValidObjectId(userId)) {
+        response.error(res, "invalid id", "validation error");
+        return;
+      }
+
+      const household = await householdModel.findById(id);
+      if (!household) {
+        return response.notFound(res, "household not found");
+      }
+
+      if (household.head.equals(userId)) {
+        response.error(
+          res,
+          "cannot remove the head, assign another head first",
+          "validation error"
+        );
+        return;
+      }
+
+      const member = await userModel.findOne({ _id: userId, household: household._id });
+      if (!member) {
+        return response.notFound(res, "member not found in household");
+      }
+
+      await leaveHousehold(member._id);
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.HOUSEHOLD,
+        entity_id: household._id,
+        summary: `Anggota ${member.username} dikeluarkan`,
+        before: { member: member._id },
+      });
+
+      const result = await findWithMembers(household._id);
+      return response.success(res, result, "success remove household member");
+    } catch (error) {
+      response.error(res, error, "failed to remove household member");
+      return;
+    }
+  },
+};
@@ -1,22 +1,29 @@
 import { Response, Request } from "express";
-import fs from "fs";
-import path from "path";
-import { InventoryDTO, InventoryUpdateDTO } from "../utils/zodSchema";
+import {
+  InventoryDTO,
+  InventoryMovementDTO,
+  InventoryUpdateDTO,
+} from "../utils/zodSchema";
 import response from "../utils/response";
 import inventoryModel, { Inventory } from "../models/inventory.model";
-import { QueryFilter } from "mongoose";
+import mongoose, { QueryFilter } from "mongoose";
 import { IReqUser } from "../utils/interface";
+import inventoryService from "../services/inventory.service";
+import mediaService, { thumbnailUrl, uploadUrl } from "../services/media.service";
+import { INVENTORY_MOVEMENT_TYPE } from "../utils/constants";
 
 export default {
   async create(req: Request, res: Response): Promise<void> {
     const { name, quantity } = req.body;
     const userId = (req as IReqUser).user?.id;
-    const image_url = req.file ? `/uploads/${req.file.filename}` : undefined;
+    const image_url = req.file ? uploadUrl(req.file) : undefined;
+    const thumbnail_url = req.file ? thumbnailUrl(req.file) : undefined;
 
     const parsed = InventoryDTO.safeParse({
       name,
       quantity,
       image_url,
+      thumbnail_url,
     });
 
     if (!parsed.success) {
@@ -36,10 +43,27 @@ export default {
         return;
       }
 
-      const result = await inventoryModel.create({
-        ...data,
+      // The stock comes in through a movement so it shows in the history
+      const { quantity, ...fields } = data;
+      const inventory = await inventoryModel.create({
+        ...fields,
+        quantity: 0,
         createdBy: userId,
       });
+      if (quantity > 0) {
+        const movement = await inventoryService.recordMovement(
+          inventory._id,
+          { type: INVENTORY_MOVEMENT_TYPE.INITIAL, quantity, reason: "Stok awal" },
+          userId
+        );
+        if (typeof movement === "string") {
+          await inventoryModel.deleteOne({ _id: inventory._id });
+          response.error(res, movement, "failed to add inventory");
+          return;
+        }
+      }
+
+      const result = await inventoryModel.findById(inventory._id);
       response.success(res, result, "success add inventory");
       return;
     } catch (error) {
@@ -73,13 +97,17 @@ export default {
 
   async update(req: Request, res: Response): Promise<void> {
     const { id } = req.params;
-    const { name, quantity } = req.body;
-    const image_url = req.file ? `/uploads/${req.file.filename}` : undefined;
+    const { name, quantity, reason } = req.body;
+    const userId = (req as IReqUser).user?.id;
+    const image_url = req.file ? uploadUrl(req.file) : undefined;
+    const thumbnail_url = req.file ? thumbnailUrl(req.file) : undefined;
 
     const parsed = InventoryUpdateDTO.safeParse({
       name,
       quantity,
+      reason,
       image_url,
+      thumbnail_url,
     });
 
     if (!parsed.success) {
@@ -114,9 +142,30 @@ export default {
         }
       }
 
-      const result = await inventoryModel.findByIdAndUpdate(id, data, {
+      // Older clients still send the new total, it becomes a correction
+      const { quantity, reason, ...fields } = data;
+      if (quantity !== undefined && quantity !== existingInventory.quantity) {
+        const movement = await inventoryService.recordMovement(
+          existingInventory._id,
+          {
+            type: INVENTORY_MOVEMENT_TYPE.CORRECTION,
+            quantity: quantity - existingInventory.quantity,
+            reason: reason || "Koreksi jumlah lewat ubah inventaris",
+          },
+          userId
+        );
+        if (typeof movement === "string") {
+          response.error(res, movement, "validation error");
+          return;
+        }
+      }
+
+      const result = await inventoryModel.findByIdAndUpdate(id, fields, {
         new: true,
       });
+      if (image_url && existingInventory.image_url) {
+        mediaService.remove(existingInventory.image_url);
+      }
 
       response.success(res, result, "success update inventory");
       return;
@@ -127,6 +176,78 @@ export default {
     }
   },
 
+  // Records a purchase, damage, repair, loss, disposal or correction
+  async recordMovement(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { id } = req.params;
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid inventory id", "validation error");
+        return;
+      }
+
+      const parsed = InventoryMovementDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      if (!(await inventoryModel.exists({ _id: id }))) {
+        return response.notFound(res, "inventory not found");
+      }
+
+      const result = await inventoryService.recordMovement(id as string, parsed.data, userId);
+      if (typeof result === "string") {
+        response.error(res, result, "validation error");
+        return;
+      }
+
+      response.success(res, result, "success record inventory movement");
+      return;
+    } catch (error) {
+      console.log("Record Inventory Movement Error:", error);
+      response.error(res, error, "failed to record inventory movement");
+      return;
+    }
+  },
+
+  async movements(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { limit = 10, page = 1, type } = req.query;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid inventory id", "validation error");
+        return;
+      }
+
+      const { items, total } = await inventoryService.movements(id as string, {
+        page: +page,
+        limit: +limit,
+        type: typeof type === "string" ? type : undefined,
+      });
+
+      return response.pagination(
+        res,
+        items,
+        {
+          total,
+          totalPages: Math.ceil(total / +limit),
+          current: +page,
+        },
+        "success find inventory movements"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to find inventory movements");
+      return;
+    }
+  },
+
   async delete(req: Request, res: Response): Promise<void> {
     const { id } = req.params;
 
@@ -138,18 +259,7 @@ export default {
         return;
       }
 
-      // Delete image file if exists
-      if (result.image_url) {
-        try {
-          const filename = result.image_url.replace("/uploads/", "");
-          const filePath = path.join(process.cwd(), "uploads", filename);
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-          }
-        } catch (imgError) {
-          console.error("Failed to delete inventory image:", imgError);
-        }
-      }
+      mediaService.remove(result.image_url);
 
       response.success(res, result, "success delete inventory");
       return;
@@ -0,0 +1,466 @@
+import { Response } from "express";
+import mongoose, { QueryFilter } from "mongoose";
+import inventoryModel from "../models/inventory.model";
+import inventoryLoanModel, { InventoryLoan } from "../models/inventoryLoan.model";
+import userModel from "../models/user.model";
+import auditService, { snapshot } from "../services/audit.service";
+import { usableOf } from "../services/inventory.service";
+import inventoryLoanService from "../services/inventoryLoan.service";
+import notificationService from "../services/notification.service";
+import permissionService from "../services/permission.service";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  INVENTORY_LOAN_STATUS,
+  PERMISSIONS,
+} from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+import {
+  InventoryLoanApproveDTO,
+  InventoryLoanDTO,
+  InventoryLoanReasonDTO,
+  InventoryLoanReturnDTO,
+} from "../utils/zodSchema";
+
+const canManage = (req: IReqUser) =>
+  permissionService.hasPermission(req.user?.role, PERMISSIONS.INVENTORY_LOAN_MANAGE);
+
+// Loads the loan and answers 400/404 itself when it cannot
+async function findLoan(req: IReqUser, res: Response) {
+  const { id } = req.params;
+  if (!mongoose.isValidObjectId(id)) {
+    response.error(res, "invalid loan id", "validation error");
+    return null;
+  }
+
+  const loan = await inventoryLoanModel.findById(id);
+  if (!loan) {
+    response.notFound(res, "loan not found");
+    return null;
+  }
+  return loan;
+}
+
+async function itemName(inventoryId: mongoose.Types.ObjectId): Promise<string> {
+  const inventory = await inventoryModel.findById(inventoryId).select("name").lean();
+  return inventory?.name || "inventaris";
+}
+
+export default {
+  // Pengurus see every loan, warga only their own
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { limit = 10, page = 1, status, inventory, overdue } = req.query;
+
+      const query: QueryFilter<InventoryLoan> = {};
+      if (!(await canManage(req))) {
+        query.borrower = userId;
+      }
+      if (status) {
+        query.status = status as INVENTORY_LOAN_STATUS;
+      }
+      if (inventory) {
+        if (!mongoose.isValidObjectId(inventory)) {
+          response.error(res, "invalid inventory id", "validation error");
+          return;
+        }
+        query.inventory = inventory;
+      }
+      if (overdue === "true") {
+        query.status = INVENTORY_LOAN_STATUS.CHECKED_OUT;
+        query.due_date = { $lt: new Date() };
+      }
+
+      const [result, count] = await Promise.all([
+        inventoryLoanModel
+          .find(query)
+          .populate("inventory", "name image_url")
+          .populate("borrower", "username phone_number")
+          .sort({ createdAt: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        inventoryLoanModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success find all inventory loans"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to find all inventory loans");
+      return;
+    }
+  },
+
+  async findOne(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      if (!loan.borrower?.equals(userId) && !(await canManage(req))) {
+        return response.notFound(res, "loan not found");
+      }
+
+      const result = await loan.populate([
+        { path: "inventory", select: "name image_url quantity on_loan" },
+        { path: "borrower", select: "username phone_number" },
+        { path: "requested_by", select: "username" },
+        { path: "decided_by", select: "username" },
+        { path: "checked_out_by", select: "username" },
+        { path: "returned_by", select: "username" },
+      ]);
+
+      return response.success(res, result, "success find inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to find inventory loan");
+      return;
+    }
+  },
+
+  // Warga request for themselves. Pengurus may also record a loan for
+  // another warga or an outside borrower, already approved.
+  async create(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = InventoryLoanDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+      const { borrower, borrower_name, borrower_phone, rental_fee = 0, ...data } = parsed.data;
+
+      const manager = await canManage(req);
+      const onBehalf = !!borrower || !!borrower_name;
+      if (onBehalf && !manager) {
+        response.unauthorized(res, "only pengurus can record loans for others");
+        return;
+      }
+      if (rental_fee > 0 && !borrower_name) {
+        response.error(res, "rental fees are for outside borrowers only", "validation error");
+        return;
+      }
+
+      const inventory = await inventoryModel.findById(data.inventory).lean();
+      if (!inventory) {
+        return response.notFound(res, "inventory not found");
+      }
+      // Availability is checked at checkout, the items may be back by then
+      const usable = usableOf(inventory);
+      if (usable < data.quantity) {
+        response.error(res, `only ${usable} usable ${inventory.name}`, "validation error");
+        return;
+      }
+
+      let borrowerUser = null;
+      if (!borrower_name) {
+        borrowerUser = await userModel
+          .findById(borrower || userId)
+          .select("username phone_number")
+          .lean();
+        if (!borrowerUser) {
+          return response.notFound(res, "borrower not found");
+        }
+      }
+
+      const now = new Date();
+      const result = await inventoryLoanModel.create({
+        ...data,
+        borrower: borrowerUser?._id ?? null,
+        borrower_name: borrowerUser?.username ?? borrower_name,
+        borrower_phone: borrowerUser ? borrowerUser.phone_number ?? null : borrower_phone,
+        is_outside: !borrowerUser,
+        rental_fee,
+        status: onBehalf ? INVENTORY_LOAN_STATUS.APPROVED : INVENTORY_LOAN_STATUS.REQUESTED,
+        requested_by: userId,
+        decided_by: onBehalf ? userId : null,
+        decided_at: onBehalf ? now : null,
+      });
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `Peminjaman ${result.quantity} ${inventory.name} oleh ${result.borrower_name} (${result.status})`,
+        after: result,
+      });
+
+      return response.success(res, result, "success create inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to create inventory loan");
+      return;
+    }
+  },
+
+  async approve(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = InventoryLoanApproveDTO.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      if (parsed.data.rental_fee && !loan.is_outside) {
+        response.error(res, "rental fees are for outside borrowers only", "validation error");
+        return;
+      }
+      if (parsed.data.due_date && parsed.data.due_date < loan.start_date) {
+        response.error(res, "due date must not be before the start date", "validation error");
+        return;
+      }
+
+      const before = snapshot(loan);
+      const result = await inventoryLoanModel.findOneAndUpdate(
+        { _id: loan._id, status: INVENTORY_LOAN_STATUS.REQUESTED },
+        {
+          ...parsed.data,
+          status: INVENTORY_LOAN_STATUS.APPROVED,
+          decided_by: userId,
+          decided_at: new Date(),
+        },
+        { new: true }
+      );
+      if (!result) {
+        response.error(res, "only requested loans can be approved", "validation error");
+        return;
+      }
+
+      const name = await itemName(result.inventory);
+      if (result.borrower) {
+        await notificationService.sendToUser(result.borrower, {
+          title: "✅ Peminjaman Disetujui",
+          body: `Peminjaman ${result.quantity} ${name} disetujui. Silakan ambil sesuai jadwal.`,
+          data: { type: "inventory_loan", loanId: result._id.toString() },
+        });
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `Peminjaman ${name} oleh ${result.borrower_name} disetujui`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success approve inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to approve inventory loan");
+      return;
+    }
+  },
+
+  async reject(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = InventoryLoanReasonDTO.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      const before = snapshot(loan);
+      const result = await inventoryLoanModel.findOneAndUpdate(
+        {
+          _id: loan._id,
+          status: { $in: [INVENTORY_LOAN_STATUS.REQUESTED, INVENTORY_LOAN_STATUS.APPROVED] },
+        },
+        {
+          status: INVENTORY_LOAN_STATUS.REJECTED,
+          rejection_reason: parsed.data.reason,
+          decided_by: userId,
+          decided_at: new Date(),
+        },
+        { new: true }
+      );
+      if (!result) {
+        response.error(res, "loan can no longer be rejected", "validation error");
+        return;
+      }
+
+      const name = await itemName(result.inventory);
+      if (result.borrower) {
+        await notificationService.sendToUser(result.borrower, {
+          title: "❌ Peminjaman Ditolak",
+          body: `Peminjaman ${result.quantity} ${name} ditolak: ${parsed.data.reason}`,
+          data: { type: "inventory_loan", loanId: result._id.toString() },
+        });
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `Peminjaman ${name} oleh ${result.borrower_name} ditolak`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success reject inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to reject inventory loan");
+      return;
+    }
+  },
+
+  // The borrower (or pengurus) withdraws a loan before the items are handed over
+  async cancel(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      if (!loan.borrower?.equals(userId) && !(await canManage(req))) {
+        return response.notFound(res, "loan not found");
+      }
+
+      const before = snapshot(loan);
+      const result = await inventoryLoanModel.findOneAndUpdate(
+        {
+          _id: loan._id,
+          status: { $in: [INVENTORY_LOAN_STATUS.REQUESTED, INVENTORY_LOAN_STATUS.APPROVED] },
+        },
+        { status: INVENTORY_LOAN_STATUS.CANCELLED },
+        { new: true }
+      );
+      if (!result) {
+        response.error(res, "loan can no longer be cancelled", "validation error");
+        return;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `Peminjaman ${await itemName(result.inventory)} oleh ${result.borrower_name} dibatalkan`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success cancel inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to cancel inventory loan");
+      return;
+    }
+  },
+
+  async checkout(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      const before = snapshot(loan);
+      const result = await inventoryLoanService.checkout(loan, userId);
+      if (typeof result === "string") {
+        response.error(res, result, "validation error");
+        return;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `${result.quantity} ${await itemName(result.inventory)} diserahkan ke ${result.borrower_name}`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success checkout inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to checkout inventory loan");
+      return;
+    }
+  },
+
+  async return(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = InventoryLoanReturnDTO.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const loan = await findLoan(req, res);
+      if (!loan) return;
+
+      const before = snapshot(loan);
+      const result = await inventoryLoanService.returnLoan(loan, userId, parsed.data.note);
+      if (typeof result === "string") {
+        response.error(res, result, "validation error");
+        return;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.INVENTORY_LOAN,
+        entity_id: result._id,
+        summary: `${result.quantity} ${await itemName(result.inventory)} dikembalikan oleh ${result.borrower_name}`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success return inventory loan");
+    } catch (error) {
+      response.error(res, error, "failed to return inventory loan");
+      return;
+    }
+  },
+};
@@ -1,17 +1,37 @@
 import { Response } from "express";
 import mongoose, { QueryFilter, Types } from "mongoose";
 import iuranModel, { Iuran } from "../models/iuran.model";
-import { IURAN_STATUS, ROLES } from "../utils/constants";
+import paymentModel from "../models/payment.model";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  IURAN_STATUS,
+  LEDGER_SOURCE,
+  PERMISSIONS,
+  ROLES,
+} from "../utils/constants";
 import { IReqUser } from "../utils/interface";
 import response from "../utils/response";
+import { parseRupiah } from "../utils/money";
 import userModel from "../models/user.model";
-import { generateReceiptPDF } from "../utils/pdfGenerator";
 import {
   createIuranImportTemplate,
   parseIuranImportFile,
 } from "../utils/excelTemplate";
 import ExcelJS from "exceljs";
 import fs from "fs";
+import { IuranRejectDTO, IuranSubmitWargaDTO } from "../utils/zodSchema";
+import notificationService from "../services/notification.service";
+import auditService, { snapshot } from "../services/audit.service";
+import tariffService from "../services/tariff.service";
+import ledgerService from "../services/ledger.service";
+import permissionService from "../services/permission.service";
+import dendaService from "../services/denda.service";
+import paymentService from "../services/payment.service";
+import receiptService from "../services/receipt.service";
+import { thumbnailUrl, uploadUrl } from "../services/media.service";
+import billingService, { BillingTarget } from "../services/billing.service";
+import { getCurrentPeriod, listPeriods, PERIOD_REGEX } from "../utils/period";
 
 export default {
   async findAll(req: IReqUser, res: Response): Promise<void> {
@@ -23,18 +43,32 @@ export default {
         status,
         period,
         userId,
+        householdId,
       } = req.query;
 
       // Build query
       let query: QueryFilter<Iuran> = {};
 
-      // Filter by user (for Bendahara to see specific user's iuran)
+      // Filter by user (for Bendahara to see specific user's iuran).
+      // Members also see the bills of their household.
       if (userId) {
         if (!mongoose.isValidObjectId(userId)) {
           response.error(res, "invalid user id", "validation error");
           return;
         }
-        query.user = new Types.ObjectId(userId as string);
+        const user = await userModel.findById(userId).select("household").lean();
+        query.$or = [{ user: new Types.ObjectId(userId as string) }];
+        if (user?.household) {
+          query.$or.push({ household: user.household });
+        }
+      }
+
+      if (householdId) {
+        if (!mongoose.isValidObjectId(householdId)) {
+          response.error(res, "invalid household id", "validation error");
+          return;
+        }
+        query.household = new Types.ObjectId(householdId as string);
       }
 
       // Filter by period (exact match)
@@ -60,6 +94,7 @@ export default {
       const result = await iuranModel
         .find(query)
         .populate("user", "username")
+        .populate("household", "kk_number address")
         .populate("confirmed_by", "username")
         .limit(+limit)
         .skip((+page - 1) * +limit)
@@ -84,6 +119,9 @@ export default {
       return;
     }
   },
+  // Cash handed to the bendahara. Any amount is accepted: it pays the open
+  // iuran oldest-first (arrears before the requested periods), the last one may
+  // stay partially paid and whatever is left is kept as credit.
   async recordPayment(req: IReqUser, res: Response): Promise<void> {
     try {
       const bendaharaId = req.user?.id;
@@ -92,69 +130,226 @@ export default {
         return;
       }
 
-      const { userId, amount, periods, payment_date, payment_method, note } =
-        req.body;
-
-      if (
-        !userId ||
-        !amount ||
-        !periods ||
-        !Array.isArray(periods) ||
-        periods.length === 0
-      ) {
+      const {
+        userId,
+        householdId,
+        amount,
+        periods = [],
+        payment_date,
+        payment_method,
+        note,
+        use_credit,
+      } = req.body;
+
+      if ((!userId && !householdId) || !amount) {
         response.error(
           res,
-          "userId, amount, and periods array are required",
+          "userId (or householdId) and amount are required",
           "validation error"
         );
         return;
       }
 
-      if (!mongoose.isValidObjectId(userId)) {
-        response.error(res, "invalid user id", "validation error");
+      // Optional: periods paid ahead, their iuran are created when missing
+      if (
+        !Array.isArray(periods) ||
+        periods.some(
+          (period: unknown) =>
+            typeof period !== "string" || !PERIOD_REGEX.test(period)
+        )
+      ) {
+        response.error(res, "periods must be an array of YYYY-MM", "validation error");
         return;
       }
 
-      const user = await userModel.findById(userId);
-      if (!user) {
-        response.notFound(res, "user not found");
-        return;
+      // Paying for a member pays the household's bill
+      let target: BillingTarget | null;
+      if (householdId) {
+        if (!mongoose.isValidObjectId(householdId)) {
+          response.error(res, "invalid household id", "validation error");
+          return;
+        }
+        target = await billingService.getHouseholdTarget(householdId);
+        if (!target) {
+          response.notFound(res, "household not found");
+          return;
+        }
+      } else {
+        if (!mongoose.isValidObjectId(userId)) {
+          response.error(res, "invalid user id", "validation error");
+          return;
+        }
+        target = await billingService.getTarget(userId);
+        if (!target) {
+          response.notFound(res, "user not found");
+          return;
+        }
       }
 
       // Validate amount
-      const totalAmount = Number(amount);
-      const REQUIRED_AMOUNT_PER_PERIOD = 50000;
-      const expectedTotalAmount = REQUIRED_AMOUNT_PER_PERIOD * periods.length;
+      const totalAmount = parseRupiah(amount);
 
-      if (isNaN(totalAmount) || totalAmount <= 0) {
-        response.error(res, "invalid amount", "validation error");
+      if (!totalAmount) {
+        response.error(res, "amount must be a whole rupiah amount above 0", "validation error");
         return;
       }
 
-      // Check if amount matches exactly (50k per period)
-      if (totalAmount !== expectedTotalAmount) {
+      const now = new Date();
+      const paymentDate = payment_date ? new Date(payment_date) : now;
+      if (isNaN(paymentDate.getTime())) {
+        response.error(res, "invalid payment_date", "validation error");
+        return;
+      }
+
+      // Validate period range: max currentYear + 2
+      const maxYear = now.getFullYear() + 2;
+      for (const period of periods) {
+        const periodYear = parseInt(period.split("-")[0]);
+        if (periodYear > maxYear) {
+          response.error(
+            res,
+            `Period ${period} exceeds maximum allowed year (${maxYear})`,
+            "validation error"
+          );
+          return;
+        }
+      }
+
+      const resolveAmount = await tariffService.loadResolver();
+      const exemptPeriods = periods.filter(
+        (period: string) =>
+          resolveAmount(billingService.tariffSubject(target), period) === 0
+      );
+      if (exemptPeriods.length > 0) {
         response.error(
           res,
-          `invalid amount. For ${
-            periods.length
-          } period(s), you must pay exactly Rp ${expectedTotalAmount.toLocaleString(
-            "id-ID"
-          )} (Rp ${REQUIRED_AMOUNT_PER_PERIOD.toLocaleString(
-            "id-ID"
-          )} per period). You provided Rp ${totalAmount.toLocaleString(
-            "id-ID"
-          )}`,
+          `User is exempt from iuran for period(s): ${exemptPeriods.join(", ")}`,
           "validation error"
         );
         return;
       }
 
+      await billingService.ensureIuran(target, periods, resolveAmount);
+
+      const untilPeriod = [getCurrentPeriod(), ...periods].sort().pop()!;
+      const openBefore = (await paymentService.openIuran(target, untilPeriod)).map(
+        (iuran) => snapshot(iuran)
+      );
+      const creditBefore = await billingService.getCredit(target);
+      const payment = await paymentService.record(
+        target,
+        {
+          amount: totalAmount,
+          payment_date: paymentDate,
+          payment_method: payment_method || null,
+          note: note || null,
+          recorded_by: bendaharaId,
+          use_credit: use_credit !== false,
+        },
+        untilPeriod
+      );
+
+      const creditBalance = await billingService.getCredit(target);
+
+      if (payment) {
+        await auditService.record(req, {
+          action: AUDIT_ACTIONS.CREATE,
+          entity_type: AUDIT_ENTITY.PAYMENT,
+          entity_id: payment._id,
+          parent_id: target.household?._id ?? target.user._id,
+          summary: `Pembayaran Rp ${totalAmount.toLocaleString("id-ID")} ${billingService.label(target)}`,
+          before: { credit_balance: creditBefore, iuran: openBefore },
+          after: {
+            ...snapshot(payment),
+            credit_balance: creditBalance,
+            iuran: await iuranModel
+              .find({ _id: { $in: payment.allocations.map((a) => a.iuran) } })
+              .lean(),
+          },
+        });
+      }
+
+      const allocations = payment?.allocations || [];
+      const paidPeriods = allocations
+        .filter((allocation) => allocation.remaining === 0)
+        .map((allocation) => allocation.period);
+      const partialPeriods = allocations
+        .filter((allocation) => allocation.remaining > 0)
+        .map((allocation) => allocation.period);
+
+      return response.success(
+        res,
+        {
+          payment,
+          paid_periods: paidPeriods,
+          partial_periods: partialPeriods,
+          credit_added: payment?.credit_added || 0,
+          credit_balance: creditBalance,
+        },
+        `Successfully recorded payment of Rp ${totalAmount.toLocaleString(
+          "id-ID"
+        )} for ${paidPeriods.length} period(s)`
+      );
+    } catch (error) {
+      response.error(res, error, "failed to record payment");
+      return;
+    }
+  },
+  async submitPayment(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { periods, note } = req.body;
+      const proof_image_url = req.file ? uploadUrl(req.file) : undefined;
+      const proof_thumbnail_url = req.file ? thumbnailUrl(req.file) : undefined;
+
+      // periods can arrive as an array (periods[]) or comma-separated string from form-data
+      const periodList: string[] = Array.isArray(periods)
+        ? periods
+        : typeof periods === "string"
+        ? periods
+            .split(",")
+            .map((p) => p.trim())
+            .filter(Boolean)
+        : [];
+
+      const parsed = IuranSubmitWargaDTO.safeParse({
+        periods: periodList,
+        proof_image_url,
+        proof_thumbnail_url,
+        note: note || undefined,
+      });
+
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const data = parsed.data;
+
+      const user = await userModel.findById(userId);
+      if (!user || user.isDeleted) {
+        response.notFound(res, "user not found");
+        return;
+      }
+
+      // Any member can pay the household's bills
+      const target = await billingService.getTarget(user._id);
+      if (!target) {
+        response.notFound(res, "user not found");
+        return;
+      }
+
       // Validate period range: max currentYear + 2
       const now = new Date();
       const maxYear = now.getFullYear() + 2;
-      for (const period of periods) {
+      for (const period of data.periods) {
         const periodYear = parseInt(period.split("-")[0]);
-        if (isNaN(periodYear) || periodYear > maxYear) {
+        if (periodYear > maxYear) {
           response.error(
             res,
             `Period ${period} exceeds maximum allowed year (${maxYear})`,
@@ -164,17 +359,23 @@ export default {
         }
       }
 
-      const amountPerPeriod = REQUIRED_AMOUNT_PER_PERIOD;
-      const paymentDate = payment_date ? new Date(payment_date) : now;
-      const updatedIuran = [];
-      const createdIuran = [];
+      const resolveAmount = await tariffService.loadResolver();
+      const dendaRule = await dendaService.getRule();
+      const submittedIuran = [];
       const errors = [];
 
-      // Upsert each period: update if exists, create if not
-      for (const period of periods) {
+      for (const period of [...new Set(data.periods)].sort()) {
         try {
+          const amount = resolveAmount(billingService.tariffSubject(target), period);
+          if (amount === 0) {
+            errors.push(`Period ${period}: Exempt from iuran`);
+            continue;
+          }
+          // Denda as of the moment the transfer proof is sent
+          const denda = dendaService.calculate(dendaRule, amount, period, now);
+
           const iuran = await iuranModel.findOne({
-            user: new Types.ObjectId(userId),
+            ...billingService.filter(target),
             period,
             type: "regular",
           });
@@ -184,61 +385,373 @@ export default {
               errors.push(`Period ${period}: Already paid`);
               continue;
             }
-            // Update existing iuran to paid
+            if (iuran.status === IURAN_STATUS.PENDING) {
+              errors.push(`Period ${period}: Already waiting for confirmation`);
+              continue;
+            }
+            // UNPAID or REJECTED can be (re)submitted
             const result = await iuranModel.findByIdAndUpdate(
               iuran._id,
               {
-                status: IURAN_STATUS.PAID,
-                amount: String(amountPerPeriod),
-                payment_date: paymentDate,
-                payment_method: payment_method || null,
-                note: note || null,
-                confirmed_at: now,
-                confirmed_by: bendaharaId,
-                recorded_by: bendaharaId,
-                is_imported: false,
+                status: IURAN_STATUS.PENDING,
+                amount,
+                denda,
+                proof_image_url: data.proof_image_url,
+                proof_thumbnail_url: data.proof_thumbnail_url ?? null,
+                note: data.note || null,
+                submitted_by: user._id,
+                submitted_at: now,
+                confirmed_at: null,
+                confirmed_by: null,
+                rejection_reason: null,
               },
               { new: true }
             );
-            updatedIuran.push(result);
+            await auditService.record(req, {
+              action: AUDIT_ACTIONS.UPDATE,
+              entity_type: AUDIT_ENTITY.IURAN,
+              entity_id: iuran._id,
+              parent_id: target.household?._id ?? target.user._id,
+              summary: `Iuran ${period} ${billingService.label(target)} diajukan`,
+              before: iuran,
+              after: result,
+            });
+            submittedIuran.push(result);
           } else {
-            // Create new iuran for future period and mark PAID immediately
+            // Paying ahead for a period that has not been generated yet
             const result = await iuranModel.create({
-              user: new Types.ObjectId(userId),
+              user: target.user._id,
+              household: target.household?._id ?? null,
               period,
-              amount: String(amountPerPeriod),
+              amount,
+              denda,
               type: "regular",
-              status: IURAN_STATUS.PAID,
-              payment_date: paymentDate,
-              payment_method: payment_method || null,
-              note: note || null,
-              confirmed_at: now,
-              confirmed_by: new Types.ObjectId(bendaharaId),
-              recorded_by: new Types.ObjectId(bendaharaId),
-              is_imported: false,
+              status: IURAN_STATUS.PENDING,
+              proof_image_url: data.proof_image_url,
+              proof_thumbnail_url: data.proof_thumbnail_url ?? null,
+              note: data.note || null,
+              submitted_by: user._id,
+              submitted_at: now,
+            });
+            await auditService.record(req, {
+              action: AUDIT_ACTIONS.CREATE,
+              entity_type: AUDIT_ENTITY.IURAN,
+              entity_id: result._id,
+              parent_id: target.household?._id ?? target.user._id,
+              summary: `Iuran ${period} ${billingService.label(target)} diajukan`,
+              after: result,
             });
-            createdIuran.push(result);
+            submittedIuran.push(result);
           }
         } catch (error: any) {
           errors.push(`Period ${period}: ${error.message}`);
         }
       }
 
+      if (submittedIuran.length === 0) {
+        response.error(res, errors, "no period could be submitted");
+        return;
+      }
+
+      const totalAmount = submittedIuran.reduce(
+        (sum, iuran: any) =>
+          sum + iuran.amount + (iuran.denda || 0) - (iuran.paid_amount || 0),
+        0
+      );
+
+      // Notify reviewers that a new payment is waiting for confirmation
+      for (const role of await permissionService.rolesWith(PERMISSIONS.IURAN_REVIEW)) {
+        await notificationService.sendToRole(role, {
+          title: "Pembayaran Iuran Baru 💰",
+          body: `${user.username} mengirim bukti pembayaran ${submittedIuran.length} periode (Rp ${totalAmount.toLocaleString("id-ID")}). Mohon dikonfirmasi.`,
+          data: {
+            type: "iuran_submitted",
+            userId: user._id.toString(),
+            iuranIds: submittedIuran.map((iuran: any) => iuran._id.toString()),
+          },
+        });
+      }
+
       return response.success(
         res,
         {
-          success: updatedIuran.length + createdIuran.length,
-          updated: updatedIuran.length,
-          created: createdIuran.length,
+          submitted: submittedIuran.length,
           failed: errors.length,
-          updatedIuran,
-          createdIuran,
+          totalAmount,
+          submittedIuran,
           errors: errors.length > 0 ? errors : null,
         },
-        `Successfully recorded ${updatedIuran.length + createdIuran.length} payment(s)`
+        `Successfully submitted ${submittedIuran.length} payment(s) for review`
       );
     } catch (error) {
-      response.error(res, error, "failed to record payment");
+      response.error(res, error, "failed to submit payment");
+      return;
+    }
+  },
+  async getReviewQueue(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const pendingIuran = await iuranModel
+        .find({ status: IURAN_STATUS.PENDING })
+        .populate("user", "username address phone_number")
+        .populate("household", "kk_number address")
+        .populate("submitted_by", "username")
+        .sort({ submitted_at: 1 })
+        .lean();
+
+      // Group periods submitted together (same user + same proof) into one review item
+      const submissionMap = new Map<string, any>();
+
+      for (const iuran of pendingIuran as any[]) {
+        if (!iuran.user) continue;
+        const key = `${iuran.user._id.toString()}|${iuran.proof_image_url || ""}`;
+        if (!submissionMap.has(key)) {
+          submissionMap.set(key, {
+            user: iuran.user,
+            household: iuran.household || null,
+            submitted_by: iuran.submitted_by || null,
+            proof_image_url: iuran.proof_image_url || null,
+            proof_thumbnail_url: iuran.proof_thumbnail_url || null,
+            note: iuran.note || null,
+            submitted_at: iuran.submitted_at,
+            iuranIds: [],
+            periods: [],
+            totalDenda: 0,
+            totalAmount: 0,
+          });
+        }
+        const submission = submissionMap.get(key);
+        submission.iuranIds.push(iuran._id);
+        submission.periods.push(iuran.period);
+        submission.totalDenda += iuran.denda || 0;
+        // Partially paid periods only need the rest
+        submission.totalAmount +=
+          iuran.amount + (iuran.denda || 0) - (iuran.paid_amount || 0);
+      }
+
+      const submissions = Array.from(submissionMap.values());
+
+      return response.success(
+        res,
+        {
+          total: submissions.length,
+          submissions,
+        },
+        "success get iuran review queue"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get iuran review queue");
+      return;
+    }
+  },
+  async approvePayment(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const reviewerId = req.user?.id;
+      if (!reviewerId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { ids } = req.body;
+
+      if (!ids || !Array.isArray(ids) || ids.length === 0) {
+        response.error(res, "ids array is required", "validation error");
+        return;
+      }
+
+      for (const id of ids) {
+        if (!mongoose.isValidObjectId(id)) {
+          response.error(res, `invalid iuran ID: ${id}`, "validation error");
+          return;
+        }
+      }
+
+      const pendingIuran = await iuranModel.find({
+        _id: { $in: ids },
+        status: IURAN_STATUS.PENDING,
+      });
+
+      if (pendingIuran.length === 0) {
+        response.notFound(res, "no pending iuran found with the provided IDs");
+        return;
+      }
+
+      // One payment per submission (same bill and same proof) for exactly
+      // what was owed when the proof was sent
+      const submissions = new Map<string, typeof pendingIuran>();
+      for (const iuran of pendingIuran) {
+        const key = `${(iuran.household || iuran.user).toString()}|${
+          iuran.proof_image_url || ""
+        }`;
+        submissions.set(key, [...(submissions.get(key) || []), iuran]);
+      }
+
+      const now = new Date();
+      const dendaRule = await dendaService.getRule();
+      const approvedIuran = [];
+
+      for (const submission of submissions.values()) {
+        submission.sort((a, b) => a.period.localeCompare(b.period));
+        const target = await billingService.targetOf(submission[0]);
+        if (!target) continue;
+
+        // payment_date follows the moment the warga submitted the transfer proof
+        const paymentDate = submission[0].submitted_at || now;
+        const amount = submission.reduce((sum, iuran) => {
+          const due = dendaService.outstanding(dendaRule, iuran, paymentDate);
+          return sum + due.amount + due.denda;
+        }, 0);
+
+        const before = submission.map((iuran) => snapshot(iuran));
+        const payment = await paymentService.allocate(target, submission, {
+          amount,
+          payment_date: paymentDate,
+          payment_method: "transfer",
+          submitted_by: submission[0].submitted_by,
+          recorded_by: reviewerId,
+          use_credit: false,
+        });
+        await auditService.record(req, {
+          action: AUDIT_ACTIONS.CREATE,
+          entity_type: AUDIT_ENTITY.PAYMENT,
+          entity_id: payment?._id,
+          parent_id: target.household?._id ?? target.user._id,
+          summary: `Pembayaran iuran ${submission
+            .map((iuran) => iuran.period)
+            .join(", ")} ${billingService.label(target)} dikonfirmasi`,
+          before: { iuran: before },
+          after: { ...snapshot(payment), iuran: submission.map((iuran) => snapshot(iuran)) },
+        });
+        approvedIuran.push(...submission.map((iuran) => iuran.toObject()));
+      }
+
+      // One notification per warga listing their approved periods
+      const userPeriodMap = new Map<string, string[]>();
+      for (const iuran of approvedIuran) {
+        // The member who sent the proof, falls back to the billed account
+        const userId = (iuran.submitted_by || iuran.user).toString();
+        if (!userPeriodMap.has(userId)) {
+          userPeriodMap.set(userId, []);
+        }
+        userPeriodMap.get(userId)?.push(iuran.period);
+      }
+
+      for (const [userId, periods] of userPeriodMap) {
+        await notificationService.sendToUser(userId, {
+          title: "Pembayaran Iuran Dikonfirmasi ✅",
+          body: `Pembayaran iuran periode ${periods.sort().join(", ")} telah dikonfirmasi. Terima kasih!`,
+          data: {
+            type: "iuran_approved",
+            periods,
+          },
+        });
+      }
+
+      return response.success(
+        res,
+        {
+          approved: approvedIuran.length,
+          skipped: ids.length - approvedIuran.length,
+          approvedIuran,
+        },
+        `Successfully approved ${approvedIuran.length} payment(s)`
+      );
+    } catch (error) {
+      response.error(res, error, "failed to approve payment");
+      return;
+    }
+  },
+  async rejectPayment(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const reviewerId = req.user?.id;
+      if (!reviewerId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = IuranRejectDTO.safeParse(req.body);
+
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const { ids, reason } = parsed.data;
+
+      for (const id of ids) {
+        if (!mongoose.isValidObjectId(id)) {
+          response.error(res, `invalid iuran ID: ${id}`, "validation error");
+          return;
+        }
+      }
+
+      const pendingIuran = await iuranModel.find({
+        _id: { $in: ids },
+        status: IURAN_STATUS.PENDING,
+      });
+
+      if (pendingIuran.length === 0) {
+        response.notFound(res, "no pending iuran found with the provided IDs");
+        return;
+      }
+
+      await iuranModel.updateMany(
+        { _id: { $in: pendingIuran.map((iuran) => iuran._id) } },
+        {
+          status: IURAN_STATUS.REJECTED,
+          rejection_reason: reason,
+          confirmed_at: new Date(),
+          confirmed_by: reviewerId,
+        }
+      );
+
+      const rejectedIuran = await iuranModel
+        .find({ _id: { $in: pendingIuran.map((iuran) => iuran._id) } })
+        .lean();
+
+      for (const iuran of rejectedIuran) {
+        await auditService.record(req, {
+          action: AUDIT_ACTIONS.UPDATE,
+          entity_type: AUDIT_ENTITY.IURAN,
+          entity_id: iuran._id,
+          parent_id: iuran.household || iuran.user,
+          summary: `Iuran ${iuran.period} ditolak: ${reason}`,
+          before: pendingIuran.find((pending) => pending._id.equals(iuran._id)),
+          after: iuran,
+        });
+      }
+
+      const userPeriodMap = new Map<string, string[]>();
+      for (const iuran of rejectedIuran) {
+        const userId = (iuran.submitted_by || iuran.user).toString();
+        if (!userPeriodMap.has(userId)) {
+          userPeriodMap.set(userId, []);
+        }
+        userPeriodMap.get(userId)?.push(iuran.period);
+      }
+
+      for (const [userId, periods] of userPeriodMap) {
+        await notificationService.sendToUser(userId, {
+          title: "Pembayaran Iuran Ditolak ❌",
+          body: `Pembayaran iuran periode ${periods.sort().join(", ")} ditolak. Alasan: ${reason}`,
+          data: {
+            type: "iuran_rejected",
+            periods,
+            reason,
+          },
+        });
+      }
+
+      return response.success(
+        res,
+        {
+          rejected: rejectedIuran.length,
+          skipped: ids.length - rejectedIuran.length,
+          rejectedIuran,
+        },
+        `Successfully rejected ${rejectedIuran.length} payment(s)`
+      );
+    } catch (error) {
+      response.error(res, error, "failed to reject payment");
       return;
     }
   },
@@ -320,6 +833,7 @@ export default {
           status: IURAN_STATUS.PAID,
         })
         .populate("user", "username email")
+        .populate("household", "kk_number address")
         .populate("recorded_by", "username")
         .lean();
 
@@ -331,64 +845,130 @@ export default {
         return;
       }
 
-      // Validate all iuran belong to the same user
-      const userIds = new Set(
-        iuranRecords.map((iuran: any) => iuran.user._id.toString())
+      // Validate all iuran belong to the same household (or user without household)
+      const billedTo = new Set(
+        iuranRecords.map((iuran: any) =>
+          iuran.household
+            ? `household:${iuran.household._id.toString()}`
+            : `user:${iuran.user._id.toString()}`
+        )
       );
-      if (userIds.size > 1) {
+      if (billedTo.size > 1) {
         response.error(
           res,
-          "all iuran records must belong to the same user",
+          "all iuran records must belong to the same household or user",
           "validation error"
         );
         return;
       }
 
-      // Calculate totals
-      const totalAmount = iuranRecords.reduce(
-        (sum, iuran: any) => sum + Number(iuran.amount),
-        0
-      );
-      const amountPerPeriod = Number(iuranRecords[0].amount);
-
-      // Get user and recorder info
-      const userInfo = iuranRecords[0].user as any;
-      const recorderInfo = iuranRecords[0].recorded_by as any;
-
-      // Prepare receipt data
-      const receiptData = {
-        receiptNumber: `RCP-${Date.now()}-${userInfo._id.toString().slice(-6)}`,
-        receiptDate: new Date(),
-        paymentDate: new Date(iuranRecords[0].payment_date || new Date()),
-        user: {
-          id: userInfo._id.toString(),
-          username: userInfo.username,
-          email: userInfo.email,
+      // Issued once per set of iuran, asking again returns the same receipt.
+      // Iuran paid through a payment get that payment's receipt.
+      const receipt = await receiptService.forIuran(iuranRecords, req.user?.id);
+      if (typeof receipt === "string") {
+        response.conflict(res, receipt);
+        return;
+      }
+      const receiptPdfUrl = await receiptService.ensureFile(receipt);
+
+      return response.success(
+        res,
+        {
+          receiptId: receipt._id,
+          receiptPdfUrl: receiptPdfUrl,
+          receipt: receipt.data,
         },
-        periods: iuranRecords.map((iuran: any) => iuran.period).sort(),
-        amountPerPeriod: amountPerPeriod,
-        totalPeriods: iuranRecords.length,
-        totalAmount: totalAmount,
-        paymentMethod: iuranRecords[0].payment_method || null,
-        note: iuranRecords[0].note || null,
-        recordedBy: {
-          id: recorderInfo?._id?.toString() || "",
-          username: recorderInfo?.username || "Unknown",
+        "Receipt generated successfully"
+      );
+    } catch (error) {
+      console.error("Generate receipt error:", error);
+      response.error(res, error, "failed to generate receipt");
+      return;
+    }
+  },
+  async findPayments(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 10, page = 1, userId, householdId } = req.query;
+
+      const query: Record<string, any> = {};
+      if (householdId) {
+        if (!mongoose.isValidObjectId(householdId)) {
+          response.error(res, "invalid household id", "validation error");
+          return;
+        }
+        query.household = householdId;
+      } else if (userId) {
+        if (!mongoose.isValidObjectId(userId)) {
+          response.error(res, "invalid user id", "validation error");
+          return;
+        }
+        const target = await billingService.getTarget(userId as string);
+        if (!target) {
+          response.notFound(res, "user not found");
+          return;
+        }
+        Object.assign(query, billingService.filter(target));
+      }
+
+      const [result, count] = await Promise.all([
+        paymentModel
+          .find(query)
+          .populate("user", "username")
+          .populate("household", "kk_number address")
+          .populate("recorded_by", "username")
+          .sort({ payment_date: -1, _id: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        paymentModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
         },
-      };
+        "success find all payments"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to find all payments");
+      return;
+    }
+  },
+  // Receipt of one payment, issued when the payment was recorded
+  async generatePaymentReceipt(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid payment id", "validation error");
+        return;
+      }
+
+      // Warga only get the receipts of their own or their household's payments
+      const access = await receiptService.accessFilter(req.user);
+      const receipt = access && (await receiptService.findForPayment(id, access));
+      if (!receipt) {
+        response.notFound(res, "receipt not found");
+        return;
+      }
 
-      const receiptPdfUrl = await generateReceiptPDF(receiptData);
+      const receiptPdfUrl = await receiptService.ensureFile(receipt);
 
       return response.success(
         res,
         {
+          receiptId: receipt._id,
           receiptPdfUrl: receiptPdfUrl,
-          receipt: receiptData,
+          receipt: receipt.data,
         },
-        "Receipt generated successfully"
+        "success get receipt"
       );
     } catch (error) {
-      console.error("Generate receipt error:", error);
+      console.error("Generate payment receipt error:", error);
       response.error(res, error, "failed to generate receipt");
       return;
     }
@@ -412,10 +992,10 @@ export default {
         return;
       }
 
-      // Get all users except ADMIN
-      const users = await userModel.find({ role: { $ne: ROLES.ADMIN } });
+      // Households plus users (except ADMIN) that are not in a household
+      const targets = await billingService.listTargets({ role: { $ne: ROLES.ADMIN } });
 
-      if (users.length === 0) {
+      if (targets.length === 0) {
         response.error(
           res,
           "no users found to create iuran",
@@ -424,67 +1004,48 @@ export default {
         return;
       }
 
+      const resolveAmount = await tariffService.loadResolver();
+      const periods = listPeriods(`${targetYear}-01`, `${targetYear}-12`);
       let totalCreated = 0;
       let totalSkipped = 0;
       const userResults = [];
 
-      // Create iuran for each user
-      for (const user of users) {
-        const iuranPromises = [];
-        const createdPeriods = [];
-        const skippedPeriods = [];
-
-        for (let month = 1; month <= 12; month++) {
-          const period = `${targetYear}-${String(month).padStart(2, "0")}`;
-
-          const existingIuran = await iuranModel.findOne({
-            user: user._id,
-            period: period,
-            type: "regular",
-          });
-
-          if (existingIuran) {
-            skippedPeriods.push(period);
-            totalSkipped++;
-            continue;
-          }
-
-          iuranPromises.push(
-            iuranModel.create({
-              user: user._id,
-              period: period,
-              amount: "50000",
-              type: "regular",
-              status: IURAN_STATUS.UNPAID,
-              submitted_at: null,
-              confirmed_at: null,
-              confirmed_by: null,
-            })
-          );
-          createdPeriods.push(period);
-          totalCreated++;
-        }
-
-        await Promise.all(iuranPromises);
+      // Create iuran for each household / user, existing and exempt periods are skipped
+      for (const target of targets) {
+        const createdPeriods = await billingService.ensureIuran(
+          target,
+          periods,
+          resolveAmount
+        );
+        totalCreated += createdPeriods.length;
+        totalSkipped += periods.length - createdPeriods.length;
 
         userResults.push({
-          userId: user._id,
-          username: user.username,
+          userId: target.user._id,
+          householdId: target.household?._id || null,
+          username: billingService.label(target),
           created: createdPeriods.length,
-          skipped: skippedPeriods.length,
+          skipped: periods.length - createdPeriods.length,
         });
       }
 
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.IURAN,
+        summary: `Iuran tahun ${targetYear}: ${totalCreated} dibuat`,
+        after: { year: targetYear, totalCreated, totalSkipped, userResults },
+      });
+
       return response.success(
         res,
         {
           year: targetYear,
-          totalUsers: users.length,
+          totalUsers: targets.length,
           totalCreated,
           totalSkipped,
           userResults,
         },
-        `Successfully created ${totalCreated} iuran record(s) for ${users.length} user(s)`
+        `Successfully created ${totalCreated} iuran record(s) for ${targets.length} household(s)/user(s)`
       );
     } catch (error) {
       console.log(error, "check error");
@@ -575,8 +1136,16 @@ export default {
       const clearPrevious = req.query.clear === "true";
       if (clearPrevious) {
         // Delete all previously imported iuran
+        const cleared = await iuranModel.find({ is_imported: true }).lean();
         const deleteResult = await iuranModel.deleteMany({ is_imported: true });
         console.log(`Cleared ${deleteResult.deletedCount} previously imported iuran records`);
+
+        await auditService.record(req, {
+          action: AUDIT_ACTIONS.DELETE,
+          entity_type: AUDIT_ENTITY.IURAN,
+          summary: `${deleteResult.deletedCount} iuran hasil import dihapus`,
+          before: { iuran: cleared },
+        });
       }
 
       const results = {
@@ -694,8 +1263,8 @@ export default {
         userMapByNameAndAddress[nameAddressKey] = user;
       });
 
-      // Default amount for iuran
-      const DEFAULT_AMOUNT = "50000";
+      // Iuran amount follows the configured tariff schedule
+      const resolveAmount = await tariffService.loadResolver();
 
       for (const row of importData) {
         try {
@@ -793,25 +1362,42 @@ export default {
             paidPeriodsMap[payment.period] = payment.amount;
           }
 
-          // Delete ALL existing iuran for this user in the period range (clean slate for this user)
+          // Members of a household are imported as their household's bills
+          const target: BillingTarget = (await billingService.getTarget(user._id)) || {
+            user,
+            household: null,
+          };
+
+          // Delete ALL existing iuran for this user/household in the period range (clean slate)
           // This ensures no duplicates and import data takes precedence
+          const replacedIuran = await iuranModel
+            .find({ ...billingService.filter(target), period: { $in: allPeriods } })
+            .lean();
+          await ledgerService.removeSources(
+            LEDGER_SOURCE.IURAN,
+            replacedIuran.map((iuran) => iuran._id)
+          );
           const deleteResult = await iuranModel.deleteMany({
-            user: user._id,
+            ...billingService.filter(target),
             period: { $in: allPeriods },
           });
           console.log(`Deleted ${deleteResult.deletedCount} existing iuran for ${row.nama} (user._id: ${user._id})`);
 
           // Create iuran for each period
+          const createdIuran = [];
           for (const period of allPeriods) {
             const isPaid = paidPeriodsMap.hasOwnProperty(period);
+            const amount = resolveAmount(billingService.tariffSubject(target), period);
+            if (amount === 0) continue; // exempt
 
             // Create new iuran
             if (isPaid) {
               // Create as PAID (is_imported: true so it won't be counted in balance)
-              await iuranModel.create({
-                user: user._id,
+              const iuran = await iuranModel.create({
+                user: target.user._id,
+                household: target.household?._id ?? null,
                 period: period,
-                amount: DEFAULT_AMOUNT,
+                amount,
                 status: IURAN_STATUS.PAID,
                 type: "regular",
                 confirmed_at: new Date(),
@@ -821,19 +1407,31 @@ export default {
                 note: "Imported from Excel",
                 is_imported: true,
               });
+              createdIuran.push(iuran);
             } else {
               // Create as UNPAID (is_imported: true for tracking purposes)
-              await iuranModel.create({
-                user: user._id,
+              const iuran = await iuranModel.create({
+                user: target.user._id,
+                household: target.household?._id ?? null,
                 period: period,
-                amount: DEFAULT_AMOUNT,
+                amount,
                 status: IURAN_STATUS.UNPAID,
                 type: "regular",
                 is_imported: true,
               });
+              createdIuran.push(iuran);
             }
             results.iuranCreated++;
           }
+
+          await auditService.record(req, {
+            action: AUDIT_ACTIONS.CREATE,
+            entity_type: AUDIT_ENTITY.IURAN,
+            parent_id: target.household?._id ?? target.user._id,
+            summary: `Import iuran ${billingService.label(target)}: ${createdIuran.length} dibuat, ${replacedIuran.length} diganti`,
+            before: { iuran: replacedIuran },
+            after: { iuran: createdIuran.map((iuran) => snapshot(iuran)) },
+          });
         } catch (rowError: any) {
           results.errors.push(`Row ${row.no} (${row.nama}): ${rowError.message}`);
         }
@@ -855,11 +1453,12 @@ export default {
       const { startYear = 2020, endYear = new Date().getFullYear() + 1 } =
         req.query;
 
-      // Get all non-admin users
-      const users = await userModel
-        .find({ role: { $ne: ROLES.ADMIN } })
-        .sort({ username: 1 })
-        .lean();
+      // One row per household (billed to its head) and per non-admin user without household
+      const targets = (
+        await billingService.listTargets({ role: { $ne: ROLES.ADMIN } })
+      ).sort((a, b) => (a.user.username || "").localeCompare(b.user.username || ""));
+      const targetKey = (householdId: any, userId: any) =>
+        householdId ? `household:${householdId.toString()}` : `user:${userId.toString()}`;
 
       // Get all iuran records within the year range
       const startPeriod = `${startYear}-01`;
@@ -871,14 +1470,14 @@ export default {
         })
         .lean();
 
-      // Create a map of user iuran: userId -> period -> iuran
-      const iuranMap: { [userId: string]: { [period: string]: any } } = {};
+      // Create a map of iuran: household/user key -> period -> iuran
+      const iuranMap: { [key: string]: { [period: string]: any } } = {};
       iuranRecords.forEach((iuran: any) => {
-        const uId = iuran.user.toString();
-        if (!iuranMap[uId]) {
-          iuranMap[uId] = {};
+        const key = targetKey(iuran.household, iuran.user);
+        if (!iuranMap[key]) {
+          iuranMap[key] = {};
         }
-        iuranMap[uId][iuran.period] = iuran;
+        iuranMap[key][iuran.period] = iuran;
       });
 
       // Create workbook
@@ -907,6 +1506,8 @@ export default {
         { header: "Alamat", key: "alamat", width: 15 },
         { header: "Start", key: "start", width: 10 },
         ...monthColumns,
+        // Kept after the months so the sheet still matches the import template
+        { header: "No. KK", key: "kk_number", width: 20 },
       ];
 
       // Style header row
@@ -926,15 +1527,17 @@ export default {
       };
 
       // Add data rows
-      users.forEach((user, index) => {
+      targets.forEach((target, index) => {
         const rowData: any = {
           no: index + 1,
-          nama: user.username,
-          alamat: user.address || "",
+          nama: target.user.username,
+          alamat: target.household?.address ?? (target.user.address || ""),
           start: "",
+          kk_number: target.household?.kk_number || "",
         };
 
-        const userIuran = iuranMap[user._id.toString()] || {};
+        const userIuran =
+          iuranMap[targetKey(target.household?._id, target.user._id)] || {};
 
         // Find earliest paid period as "Start"
         const paidPeriods = Object.entries(userIuran)
@@ -952,7 +1555,7 @@ export default {
         monthColumns.forEach((col) => {
           const iuran = userIuran[col.key];
           if (iuran && iuran.status === IURAN_STATUS.PAID) {
-            rowData[col.key] = Number(iuran.amount);
+            rowData[col.key] = iuran.amount;
           }
         });
 
@@ -0,0 +1,69 @@
+import { Response } from "express";
+import jobService from "../services/job.service";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const jobs = await jobService.list();
+      return response.success(res, jobs, "success get jobs");
+    } catch (error) {
+      response.error(res, error, "failed to get jobs");
+      return;
+    }
+  },
+
+  async runs(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const { limit = 20, page = 1, status } = req.query;
+
+      if (!jobService.isRegistered(name as string)) {
+        return response.notFound(res, "job not found");
+      }
+
+      const { items, total } = await jobService.history(name as string, {
+        page: +page,
+        limit: +limit,
+        status: status as string | undefined,
+      });
+
+      return response.pagination(
+        res,
+        items,
+        {
+          total,
+          totalPages: Math.ceil(total / +limit),
+          current: +page,
+        },
+        "success get job runs"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get job runs");
+      return;
+    }
+  },
+
+  // Runs the job now and answers when it is done
+  async trigger(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      if (!jobService.isRegistered(name as string)) {
+        return response.notFound(res, "job not found");
+      }
+
+      const result = await jobService.trigger(name as string, req.user?.id);
+      if (typeof result === "string") {
+        response.error(res, result, "failed to run job");
+        return;
+      }
+
+      return response.success(res, result, "job finished");
+    } catch (error) {
+      response.error(res, error, "failed to run job");
+      return;
+    }
+  },
+};
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getCurrentPeriod } from "../utils/period";
+import { parseLaporanRange } from "./keuangan.controller";
+
+test("laporan range defaults to January of the year up to this month", () => {
+  const current = getCurrentPeriod();
+  assert.deepEqual(parseLaporanRange(), { from: `${current.slice(0, 4)}-01`, to: current });
+  assert.deepEqual(parseLaporanRange(undefined, "2025-06"), { from: "2025-01", to: "2025-06" });
+});
+
+test("laporan range accepts a range across years", () => {
+  assert.deepEqual(parseLaporanRange("2024-11", "2025-02"), { from: "2024-11", to: "2025-02" });
+});
+
+test("laporan range rejects bad periods and reversed ranges", () => {
+  assert.equal(parseLaporanRange("2025-13", "2025-12"), "from/to must be YYYY-MM");
+  assert.equal(parseLaporanRange("2025-1", "2025-12"), "from/to must be YYYY-MM");
+  assert.equal(parseLaporanRange("2025-06", "2025-05"), "from must not be after to");
+});
+
+test("laporan range is limited to 60 months", () => {
+  assert.deepEqual(parseLaporanRange("2021-01", "2025-12"), { from: "2021-01", to: "2025-12" });
+  assert.equal(parseLaporanRange("2020-12", "2025-12"), "range must not exceed 60 months");
+});
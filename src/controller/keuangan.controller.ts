@@ -1,146 +1,195 @@
 import { Response } from "express";
-import fs from "fs";
 import mongoose from "mongoose";
-import path from "path";
 import eventModel from "../models/event.model";
-import iuranModel from "../models/iuran.model";
 import pengeluaranModel from "../models/pengeluaran.model";
-import danaMasukModel from "../models/danaMasuk.model";
-import { IURAN_STATUS } from "../utils/constants";
+import inventoryMovementModel from "../models/inventoryMovement.model";
+import ledgerService, { LedgerTotals } from "../services/ledger.service";
+import auditService from "../services/audit.service";
+import mediaService, { thumbnailUrl, uploadUrl } from "../services/media.service";
+import userModel from "../models/user.model";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  LEDGER_SOURCE,
+  ROLES,
+} from "../utils/constants";
+import { generateLaporanKeuanganPDF } from "../utils/pdfGenerator";
 import { IReqUser } from "../utils/interface";
 import response from "../utils/response";
+import { parseRupiah } from "../utils/money";
 import { generateSlug, generateUniqueSlug } from "../utils/slugGenerator";
-import { getSettingValue, SETTINGS_KEYS } from "./settings.controller";
-
+import { getSettingValue, SETTINGS_KEYS } from "../services/settings.service";
+import {
+  getCurrentPeriod,
+  listPeriods,
+  PERIOD_REGEX,
+  periodEnd,
+  periodStart,
+} from "../utils/period";
+
+// Longest range the monthly breakdown may cover
+const MAX_LAPORAN_MONTHS = 60;
+
+// Balance is derived from the cash ledger (see ledger.service)
 export async function getCurrentBalance(): Promise<number> {
-  // Get initial balance from settings (saldo awal periode)
-  const initialBalance = await getSettingValue(SETTINGS_KEYS.INITIAL_BALANCE, 0);
-
-  // Total income from paid iuran (exclude imported data - already counted in old balance)
-  const totalIncomeResult = await iuranModel.aggregate([
-    {
-      $match: {
-        status: IURAN_STATUS.PAID,
-        is_imported: { $ne: true },
-      },
-    },
-    {
-      $group: {
-        _id: null,
-        total: { $sum: { $toDouble: "$amount" } },
-      },
-    },
-  ]);
+  return ledgerService.getBalance();
+}
 
-  const totalIuranIncome =
-    totalIncomeResult.length > 0 ? totalIncomeResult[0].total : 0;
+export interface LaporanMonth extends LedgerTotals {
+  period: string;
+  opening_balance: number;
+  net: number;
+  closing_balance: number;
+  as_of_date: Date;
+}
 
-  // Total donations from completed events
-  const completedEvents = await eventModel.find({ status: "completed" }).lean();
+export type LaporanCorrection = Awaited<
+  ReturnType<typeof ledgerService.getCorrections>
+>[number];
+
+export interface LaporanRange extends LedgerTotals {
+  from: string;
+  to: string;
+  opening_balance: number;
+  closing_balance: number;
+  months: LaporanMonth[];
+  corrections: LaporanCorrection[]; // voided payments
+  total_corrections: number;
+}
 
-  const totalEventDonations = completedEvents.reduce(
-    (sum, event) => sum + Number(event.total_donations),
-    0
-  );
+// Validates from/to (YYYY-MM). Returns an error message when invalid.
+export function parseLaporanRange(
+  from?: string,
+  to?: string
+): { from: string; to: string } | string {
+  const toPeriod = to || getCurrentPeriod();
+  const fromPeriod = from || `${toPeriod.split("-")[0]}-01`;
 
-  // Total dana masuk (manual fund injections)
-  const danaMasukResult = await danaMasukModel.aggregate([
-    { $group: { _id: null, total: { $sum: "$nominal" } } },
-  ]);
-  const totalDanaMasuk = danaMasukResult.length > 0 ? danaMasukResult[0].total : 0;
-
-  // Total income = iuran + event donations + dana masuk
-  const totalIncome = totalIuranIncome + totalEventDonations + totalDanaMasuk;
-
-  // Total expenses
-  const totalExpenseResult = await pengeluaranModel.aggregate([
-    {
-      $group: {
-        _id: null,
-        total: { $sum: "$total" },
-      },
-    },
-  ]);
+  if (!PERIOD_REGEX.test(fromPeriod) || !PERIOD_REGEX.test(toPeriod)) {
+    return "from/to must be YYYY-MM";
+  }
 
-  const totalExpense =
-    totalExpenseResult.length > 0 ? totalExpenseResult[0].total : 0;
+  if (fromPeriod > toPeriod) {
+    return "from must not be after to";
+  }
 
-  // Balance = initial_balance + income - expense
-  return initialBalance + totalIncome - totalExpense;
-}
+  if (listPeriods(fromPeriod, toPeriod).length > MAX_LAPORAN_MONTHS) {
+    return `range must not exceed ${MAX_LAPORAN_MONTHS} months`;
+  }
 
-function deleteImageFile(imageUrl: string): void {
-  try {
-    // Extract filename from URL (e.g., "/uploads/filename.jpg" -> "filename.jpg")
-    const filename = imageUrl.replace("/uploads/", "");
-    const filePath = path.join(process.cwd(), "uploads", filename);
+  return { from: fromPeriod, to: toPeriod };
+}
 
-    // Check if file exists before deleting
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      console.log(`Deleted old image: ${filePath}`);
-    }
-  } catch (error) {
-    console.error(`Failed to delete image ${imageUrl}:`, error);
-    // Don't throw error - continue even if deletion fails
+// Per-month income/expense with opening & closing balance for [from, to]
+export async function buildLaporanRange(
+  fromPeriod: string,
+  toPeriod: string
+): Promise<LaporanRange> {
+  const now = new Date();
+  const openingBalance = await ledgerService.getBalance(periodStart(fromPeriod));
+  let runningBalance = openingBalance;
+
+  const months: LaporanMonth[] = [];
+  for (const period of listPeriods(fromPeriod, toPeriod)) {
+    const start = periodStart(period);
+    const end = periodEnd(period);
+    const totals = await ledgerService.getTotals({ from: start, to: end });
+
+    // Credit (titipan) is kas but not income yet
+    const monthOpening = runningBalance;
+    runningBalance =
+      monthOpening + totals.total_income - totals.total_expense + totals.net_titipan;
+
+    // Closing balance is "as of" the last day of the month (or today for the running month)
+    const asOfDate = end > now ? now : new Date(end.getTime() - 1);
+
+    months.push({
+      period,
+      opening_balance: monthOpening,
+      ...totals,
+      net: totals.total_income - totals.total_expense,
+      closing_balance: runningBalance,
+      as_of_date: asOfDate,
+    });
   }
+
+  const range = { from: periodStart(fromPeriod), to: periodEnd(toPeriod) };
+  const [rangeTotals, corrections] = await Promise.all([
+    ledgerService.getTotals(range),
+    ledgerService.getCorrections(range),
+  ]);
+
+  return {
+    from: fromPeriod,
+    to: toPeriod,
+    opening_balance: openingBalance,
+    closing_balance: runningBalance,
+    ...rangeTotals,
+    months,
+    corrections,
+    total_corrections: corrections.reduce((sum, item) => sum + item.amount, 0),
+  };
 }
 
 export default {
   async getLaporanKeuangan(req: IReqUser, res: Response): Promise<void> {
     try {
+      const { from, to, as_of } = req.query;
+
       // Get initial balance from settings
       const initialBalance = await getSettingValue(SETTINGS_KEYS.INITIAL_BALANCE, 0);
 
-      const balance = await getCurrentBalance();
+      // "What was the kas at the end of <date>" (inclusive)
+      let balanceAsOf: { date: Date; balance: number } | null = null;
+      if (as_of) {
+        const asOfDate = new Date(as_of as string);
+        if (isNaN(asOfDate.getTime())) {
+          response.error(res, "invalid as_of date", "validation error");
+          return;
+        }
+        const endOfDay = new Date(asOfDate);
+        endOfDay.setHours(24, 0, 0, 0);
+        balanceAsOf = {
+          date: asOfDate,
+          balance: await ledgerService.getBalance(endOfDay),
+        };
+      }
 
-      // Total income from iuran (exclude imported data)
-      const totalIncomeResult = await iuranModel.aggregate([
-        {
-          $match: {
-            status: IURAN_STATUS.PAID,
-            is_imported: { $ne: true },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            total: { $sum: { $toDouble: "$amount" } },
-          },
-        },
-      ]);
+      // Date-ranged report with per-month breakdown
+      if (from || to) {
+        const range = parseLaporanRange(from as string, to as string);
+        if (typeof range === "string") {
+          response.error(res, range, "validation error");
+          return;
+        }
 
-      const totalIuranIncome =
-        totalIncomeResult.length > 0 ? totalIncomeResult[0].total : 0;
+        const laporan = await buildLaporanRange(range.from, range.to);
 
-      // Total expenses
-      const totalExpenseResult = await pengeluaranModel.aggregate([
-        {
-          $group: {
-            _id: null,
-            total: { $sum: "$total" },
+        return response.success(
+          res,
+          {
+            ...laporan,
+            initial_balance: initialBalance,
+            ...(balanceAsOf && { balance_as_of: balanceAsOf }),
           },
-        },
-      ]);
+          "success get laporan keuangan"
+        );
+      }
 
-      const totalExpense =
-        totalExpenseResult.length > 0 ? totalExpenseResult[0].total : 0;
+      const [balance, totals] = await Promise.all([
+        getCurrentBalance(),
+        ledgerService.getTotals(),
+      ]);
 
       // Get completed events
       const completedEvents = await eventModel
         .find({ status: "completed" })
         .lean();
 
-      let totalEventDonations = 0;
-      let totalEventExpenses = 0;
-
       const eventSummaries = completedEvents.map((event) => {
-        const donations = Number(event.total_donations);
-        const expenses = Number(event.total_expenses);
-        const balance = Number(event.balance);
-
-        totalEventDonations += donations;
-        totalEventExpenses += expenses;
+        const donations = event.total_donations;
+        const expenses = event.total_expenses;
+        const balance = event.balance;
 
         return {
           name: event.name,
@@ -153,25 +202,20 @@ export default {
         };
       });
 
-      // Total dana masuk
-      const danaMasukResult = await danaMasukModel.aggregate([
-        { $group: { _id: null, total: { $sum: "$nominal" } } },
-      ]);
-      const totalDanaMasuk = danaMasukResult.length > 0 ? danaMasukResult[0].total : 0;
-
-      // Total income = iuran + ALL event donations + dana masuk
-      const totalIncome = totalIuranIncome + totalEventDonations + totalDanaMasuk;
-
       return response.success(
         res,
         {
           initial_balance: initialBalance,
-          total_income: totalIncome,
-          total_iuran_income: totalIuranIncome,
-          total_event_donations: totalEventDonations,
-          total_dana_masuk: totalDanaMasuk,
-          total_expense: totalExpense,
+          total_income: totals.total_income,
+          total_iuran_income: totals.total_iuran_income,
+          total_denda_income: totals.total_denda_income,
+          total_event_donations: totals.total_event_donations,
+          total_dana_masuk: totals.total_dana_masuk,
+          total_rental_income: totals.total_rental_income,
+          total_expense: totals.total_expense,
+          net_titipan: totals.net_titipan,
           balance: balance,
+          ...(balanceAsOf && { balance_as_of: balanceAsOf }),
           events: eventSummaries,
         },
         "success get laporan keuangan"
@@ -182,6 +226,154 @@ export default {
     }
   },
 
+  // Signed-off laporan keuangan for a month (?period=), a year (?year=) or from/to
+  async downloadLaporanPDF(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { period, year, from, to } = req.query;
+
+      let range: { from: string; to: string } | string;
+      if (period) {
+        range = parseLaporanRange(period as string, period as string);
+      } else if (year) {
+        range = parseLaporanRange(`${year}-01`, `${year}-12`);
+      } else {
+        range = parseLaporanRange(from as string, to as string);
+      }
+
+      if (typeof range === "string") {
+        response.error(res, range, "validation error");
+        return;
+      }
+
+      const start = periodStart(range.from);
+      const end = periodEnd(range.to);
+
+      const [laporan, pengeluaran, completedEvents, ketuaRt, bendahara] =
+        await Promise.all([
+          buildLaporanRange(range.from, range.to),
+          pengeluaranModel
+            .find({ createdAt: { $gte: start, $lt: end } })
+            .sort({ createdAt: 1 })
+            .lean(),
+          eventModel
+            .find({
+              status: "completed",
+              completed_at: { $gte: start, $lt: end },
+            })
+            .sort({ completed_at: 1 })
+            .lean(),
+          userModel
+            .findOne({ role: ROLES.RT, isDeleted: { $ne: true } })
+            .select("username")
+            .lean(),
+          userModel
+            .findOne({ role: ROLES.BENDAHARA, isDeleted: { $ne: true } })
+            .select("username")
+            .lean(),
+        ]);
+
+      const buffer = await generateLaporanKeuanganPDF({
+        from: laporan.from,
+        to: laporan.to,
+        openingBalance: laporan.opening_balance,
+        closingBalance: laporan.closing_balance,
+        totalIuranIncome: laporan.total_iuran_income,
+        totalDendaIncome: laporan.total_denda_income,
+        totalEventDonations: laporan.total_event_donations,
+        totalDanaMasuk: laporan.total_dana_masuk,
+        totalRentalIncome: laporan.total_rental_income,
+        totalIncome: laporan.total_income,
+        totalExpense: laporan.total_expense,
+        netTitipan: laporan.net_titipan,
+        months: laporan.months.map((month) => ({
+          period: month.period,
+          totalIncome: month.total_income,
+          totalExpense: month.total_expense,
+          closingBalance: month.closing_balance,
+        })),
+        pengeluaran: pengeluaran.map((p: any) => ({
+          date: p.createdAt,
+          title: p.title,
+          slug: p.slug,
+          total: p.total,
+          items: p.items,
+        })),
+        events: completedEvents.map((event) => ({
+          name: event.name,
+          completedAt: event.completed_at || null,
+          totalDonations: event.total_donations,
+          totalExpenses: event.total_expenses,
+          balance: event.balance,
+        })),
+        corrections: laporan.corrections,
+        ketuaRt: ketuaRt?.username || null,
+        bendahara: bendahara?.username || null,
+      });
+
+      const fileLabel =
+        laporan.from === laporan.to
+          ? laporan.from
+          : `${laporan.from}_${laporan.to}`;
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="Laporan_Keuangan_${fileLabel}.pdf"`
+      );
+
+      res.send(buffer);
+    } catch (error) {
+      console.error("Download laporan PDF error:", error);
+      response.error(res, error, "failed to download laporan keuangan");
+      return;
+    }
+  },
+
+  async getBukuKas(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 50, page = 1, from, to } = req.query;
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      if (
+        (fromDate && isNaN(fromDate.getTime())) ||
+        (toDate && isNaN(toDate.getTime()))
+      ) {
+        response.error(res, "invalid from/to date", "validation error");
+        return;
+      }
+
+      // `to` is inclusive: everything up to the start of the next day
+      const untilDate = toDate ? new Date(toDate) : undefined;
+      untilDate?.setHours(24, 0, 0, 0);
+
+      const result = await ledgerService.getBukuKas({
+        from: fromDate,
+        to: untilDate,
+        page: +page,
+        limit: +limit,
+      });
+
+      return response.success(
+        res,
+        {
+          opening_balance: result.opening_balance,
+          entries: result.rows,
+          pagination: {
+            total: result.total,
+            totalPages: Math.ceil(result.total / +limit),
+            current: +page,
+          },
+        },
+        "success get buku kas umum"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get buku kas umum");
+      return;
+    }
+  },
+
   async createPengeluaran(req: IReqUser, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
@@ -207,9 +399,14 @@ export default {
             throw new Error(`Item ${index} must have name and price`);
           }
 
+          const price = parseRupiah(item.price);
+          if (price === null) {
+            throw new Error(`Item ${index} price must be a whole rupiah amount`);
+          }
+
           const itemData: any = {
             name: item.name,
-            price: Number(item.price),
+            price,
           };
 
           // Find matching file for this item
@@ -217,7 +414,8 @@ export default {
             (file) => file.fieldname === `items[${index}][image]`
           );
           if (matchingFile) {
-            itemData.image_url = `/uploads/${matchingFile.filename}`;
+            itemData.image_url = uploadUrl(matchingFile);
+            itemData.thumbnail_url = thumbnailUrl(matchingFile);
           }
 
           return itemData;
@@ -238,9 +436,18 @@ export default {
             return;
           }
 
+          if (parseRupiah(price) === null) {
+            response.error(
+              res,
+              `Item ${itemIndex} price must be a whole rupiah amount`,
+              "validation error"
+            );
+            return;
+          }
+
           const item: any = {
             name,
-            price: Number(price),
+            price: parseRupiah(price),
           };
 
           const imageFieldName = `items[${itemIndex}][image]`;
@@ -248,7 +455,8 @@ export default {
             (file) => file.fieldname === imageFieldName
           );
           if (matchingFile) {
-            item.image_url = `/uploads/${matchingFile.filename}`;
+            item.image_url = uploadUrl(matchingFile);
+            item.thumbnail_url = thumbnailUrl(matchingFile);
           }
 
           items.push(item);
@@ -265,8 +473,13 @@ export default {
         return;
       }
 
+      const expenseAmount = parseRupiah(total);
+      if (expenseAmount === null) {
+        response.error(res, "total must be a whole rupiah amount", "validation error");
+        return;
+      }
+
       const currentBalance = await getCurrentBalance();
-      const expenseAmount = Number(total);
 
       if (expenseAmount > currentBalance) {
         response.error(
@@ -299,6 +512,15 @@ export default {
         created_by: userId,
       });
 
+      await ledgerService.syncPengeluaran(result);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.PENGELUARAN,
+        entity_id: result._id,
+        summary: `Pengeluaran ${result.title}`,
+        after: result,
+      });
+
       return response.success(res, result, "success create pengeluaran");
     } catch (error) {
       response.error(res, error, "failed to create pengeluaran");
@@ -403,11 +625,22 @@ export default {
         return response.notFound(res, "pengeluaran not found");
       }
 
+      await ledgerService.removeSource(LEDGER_SOURCE.PENGELUARAN, result._id);
+      // Purchases stay in the stock history, without the link
+      await inventoryMovementModel.updateMany({ pengeluaran: result._id }, { pengeluaran: null });
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.PENGELUARAN,
+        entity_id: result._id,
+        summary: `Pengeluaran ${result.title}`,
+        before: result,
+      });
+
       // Delete all associated images
       if (result.items && Array.isArray(result.items)) {
         result.items.forEach((item: any) => {
           if (item.image_url) {
-            deleteImageFile(item.image_url);
+            mediaService.remove(item.image_url);
           }
         });
       }
@@ -463,9 +696,14 @@ export default {
               throw new Error(`Item ${index} must have name and price`);
             }
 
+            const price = parseRupiah(item.price);
+            if (price === null) {
+              throw new Error(`Item ${index} price must be a whole rupiah amount`);
+            }
+
             const itemData: any = {
               name: item.name,
-              price: Number(item.price),
+              price,
             };
 
             // Priority for image_url:
@@ -482,15 +720,20 @@ export default {
               // New file uploaded - delete old image and use new one
               const oldImageUrl = existingPengeluaran.items[index]?.image_url;
               if (oldImageUrl) {
-                deleteImageFile(oldImageUrl);
+                mediaService.remove(oldImageUrl);
               }
-              itemData.image_url = `/uploads/${matchingFile.filename}`;
+              itemData.image_url = uploadUrl(matchingFile);
+              itemData.thumbnail_url = thumbnailUrl(matchingFile);
             } else if (item.image_url) {
-              // Frontend sent an image_url - keep it
+              // Frontend sent an image_url - keep it, with its thumbnail
               itemData.image_url = item.image_url;
+              itemData.thumbnail_url = existingPengeluaran.items.find(
+                (existing) => existing.image_url === item.image_url
+              )?.thumbnail_url;
             } else if (existingPengeluaran.items[index]?.image_url) {
               // No new file and no image_url in request - keep old one from database
               itemData.image_url = existingPengeluaran.items[index].image_url;
+              itemData.thumbnail_url = existingPengeluaran.items[index].thumbnail_url;
             }
 
             console.log(`Item ${index}:`, itemData);
@@ -510,10 +753,14 @@ export default {
         updateData.items = items;
       }
 
-      if (total !== undefined) updateData.total = Number(total);
-
       if (total !== undefined) {
-        const newTotal = Number(total);
+        const newTotal = parseRupiah(total);
+        if (newTotal === null) {
+          response.error(res, "total must be a whole rupiah amount", "validation error");
+          return;
+        }
+        updateData.total = newTotal;
+
         const oldTotal = existingPengeluaran.total;
         const difference = newTotal - oldTotal;
 
@@ -538,13 +785,23 @@ export default {
       }
 
       const result = await pengeluaranModel
-        .findByIdAndUpdate(id, updateData, { new: true })
+        .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
         .populate("created_by", "username");
 
       if (!result) {
         return response.notFound(res, "pengeluaran not found");
       }
 
+      await ledgerService.syncPengeluaran(result);
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.PENGELUARAN,
+        entity_id: result._id,
+        summary: `Pengeluaran ${result.title}`,
+        before: existingPengeluaran,
+        after: result,
+      });
+
       return response.success(res, result, "success update pengeluaran");
     } catch (error) {
       response.error(res, error, "failed to update pengeluaran");
@@ -0,0 +1,100 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import notificationService from "../services/notification.service";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+
+// Inbox of the logged in user, filled by notificationService
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { limit = 10, page = 1, unread } = req.query;
+
+      const { items, total } = await notificationService.list(userId, {
+        page: +page,
+        limit: +limit,
+        unreadOnly: unread === "true",
+      });
+
+      return response.pagination(
+        res,
+        items,
+        {
+          total,
+          totalPages: Math.ceil(total / +limit),
+          current: +page,
+        },
+        "success get notifications"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get notifications");
+      return;
+    }
+  },
+
+  // For the app badge
+  async unreadCount(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const count = await notificationService.unreadCount(userId);
+      return response.success(res, { count }, "success get unread count");
+    } catch (error) {
+      response.error(res, error, "failed to get unread count");
+      return;
+    }
+  },
+
+  async markRead(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid notification id", "validation error");
+        return;
+      }
+
+      const notification = await notificationService.markRead(userId, id as string);
+      if (!notification) {
+        return response.notFound(res, "notification not found");
+      }
+
+      return response.success(res, notification, "success mark notification as read");
+    } catch (error) {
+      response.error(res, error, "failed to mark notification as read");
+      return;
+    }
+  },
+
+  async markAllRead(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const updated = await notificationService.markAllRead(userId);
+      return response.success(res, { updated }, "success mark all notifications as read");
+    } catch (error) {
+      response.error(res, error, "failed to mark notifications as read");
+      return;
+    }
+  },
+};
@@ -0,0 +1,120 @@
+import { Response } from "express";
+import permissionService from "../services/permission.service";
+import auditService from "../services/audit.service";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY,
+  PERMISSIONS,
+  ROLES,
+} from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+} from "../utils/permissions";
+import response from "../utils/response";
+import { RolePermissionDTO } from "../utils/zodSchema";
+
+function parseRole(role: unknown): ROLES | null {
+  return Object.values(ROLES).includes(role as ROLES) ? (role as ROLES) : null;
+}
+
+export default {
+  // Permission catalog + current role -> permission mapping
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const roles = await permissionService.getMatrix();
+
+      return response.success(
+        res,
+        {
+          permissions: Object.values(PERMISSIONS).map((permission) => ({
+            key: permission,
+            description: PERMISSION_DESCRIPTIONS[permission],
+          })),
+          roles,
+          defaults: DEFAULT_ROLE_PERMISSIONS,
+        },
+        "success get permissions"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get permissions");
+      return;
+    }
+  },
+
+  // Replaces the permission list of a role
+  async updateRole(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const role = parseRole(req.params.role);
+      if (!role) {
+        response.error(res, "invalid role", "validation error");
+        return;
+      }
+
+      if (role === ROLES.ADMIN) {
+        response.error(res, "admin always has every permission", "validation error");
+        return;
+      }
+
+      const parsed = RolePermissionDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const before = (await permissionService.getMatrix())[role];
+      await permissionService.setRolePermissions(role, parsed.data.permissions, userId);
+      const after = (await permissionService.getMatrix())[role];
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.ROLE_PERMISSION,
+        entity_id: role,
+        summary: `Hak akses role ${role}`,
+        before: { permissions: before },
+        after: { permissions: after },
+      });
+
+      return response.success(res, { role, permissions: after }, "success update permissions");
+    } catch (error) {
+      response.error(res, error, "failed to update permissions");
+      return;
+    }
+  },
+
+  // Back to the built-in defaults
+  async resetRole(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const role = parseRole(req.params.role);
+      if (!role || role === ROLES.ADMIN) {
+        response.error(res, "invalid role", "validation error");
+        return;
+      }
+
+      const before = (await permissionService.getMatrix())[role];
+      await permissionService.resetRole(role);
+      const after = (await permissionService.getMatrix())[role];
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.ROLE_PERMISSION,
+        entity_id: role,
+        summary: `Hak akses role ${role} dikembalikan ke default`,
+        before: { permissions: before },
+        after: { permissions: after },
+      });
+
+      return response.success(res, { role, permissions: after }, "success reset permissions");
+    } catch (error) {
+      response.error(res, error, "failed to reset permissions");
+      return;
+    }
+  },
+};
@@ -0,0 +1,190 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import receiptModel from "../models/receipt.model";
+import auditService from "../services/audit.service";
+import receiptService from "../services/receipt.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+import { ReceiptVoidDTO } from "../utils/zodSchema";
+
+const RECEIPT_FIELDS =
+  "number payment iuran user household data.totalAmount data.periods data.paymentDate voided_at void_reason createdAt";
+
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 10, page = 1, userId, householdId, year } = req.query;
+
+      const access = await receiptService.accessFilter(req.user);
+      if (!access) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const query: Record<string, any> = { ...access };
+      if (userId) {
+        if (!mongoose.isValidObjectId(userId)) {
+          response.error(res, "invalid user id", "validation error");
+          return;
+        }
+        query.user = userId;
+      }
+      if (householdId) {
+        if (!mongoose.isValidObjectId(householdId)) {
+          response.error(res, "invalid household id", "validation error");
+          return;
+        }
+        query.household = householdId;
+      }
+      if (year) {
+        query.year = Number(year);
+      }
+
+      const [result, count] = await Promise.all([
+        receiptModel
+          .find(query)
+          .select(RECEIPT_FIELDS)
+          .sort({ year: -1, sequence: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        receiptModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success get receipts"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get receipts");
+      return;
+    }
+  },
+
+  // Download an issued receipt again, same number and content
+  async findOne(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid receipt id", "validation error");
+        return;
+      }
+
+      const access = await receiptService.accessFilter(req.user);
+      if (!access) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const receipt = await receiptModel.findOne({ _id: id, ...access });
+      if (!receipt) {
+        return response.notFound(res, "receipt not found");
+      }
+
+      const receiptPdfUrl = await receiptService.ensureFile(receipt);
+
+      return response.success(
+        res,
+        {
+          receiptId: receipt._id,
+          receiptPdfUrl: receiptPdfUrl,
+          receipt: receipt.data,
+        },
+        "success get receipt"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get receipt");
+      return;
+    }
+  },
+
+  // Voids the receipt and reverses its payment, e.g. when it was recorded
+  // against the wrong warga. The periods go back to UNPAID.
+  async void(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid receipt id", "validation error");
+        return;
+      }
+
+      const parsed = ReceiptVoidDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const receipt = await receiptModel.findById(id);
+      if (!receipt) {
+        return response.notFound(res, "receipt not found");
+      }
+
+      const error = await receiptService.voidReceipt(
+        receipt,
+        parsed.data.reason,
+        req.user?.id
+      );
+      if (error) {
+        response.error(res, error, "failed to void receipt");
+        return;
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.RECEIPT,
+        entity_id: receipt._id,
+        summary: `Kwitansi ${receipt.number} dibatalkan: ${parsed.data.reason}`,
+        after: {
+          voided_at: receipt.voided_at,
+          void_reason: receipt.void_reason,
+          periods: receipt.data.periods,
+        },
+      });
+
+      return response.success(
+        res,
+        {
+          receiptId: receipt._id,
+          number: receipt.number,
+          voided_at: receipt.voided_at,
+          void_reason: receipt.void_reason,
+          unpaid_periods: receipt.data.periods,
+        },
+        "success void receipt"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to void receipt");
+      return;
+    }
+  },
+
+  // Public: target of the QR code printed on the receipt
+  async verify(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const result =
+        typeof token === "string" && /^[0-9a-f]{32}$/.test(token)
+          ? await receiptService.verify(token)
+          : null;
+
+      if (!result) {
+        return response.notFound(res, "receipt not found or not valid");
+      }
+
+      return response.success(res, result, "receipt is valid");
+    } catch (error) {
+      response.error(res, error, "failed to verify receipt");
+      return;
+    }
+  },
+};
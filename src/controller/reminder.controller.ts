@@ -0,0 +1,230 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import reminderLogModel from "../models/reminderLog.model";
+import reminderPolicyModel from "../models/reminderPolicy.model";
+import auditService, { snapshot } from "../services/audit.service";
+import reminderService, { DEFAULT_REMINDER_POLICIES } from "../services/reminder.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY, REMINDER_TEMPLATE_VARIABLES } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import { PERIOD_REGEX } from "../utils/period";
+import response from "../utils/response";
+import { ReminderPolicyDTO } from "../utils/zodSchema";
+
+// Fields a client may set, the rest of the document is managed here
+const POLICY_FIELDS = Object.keys(ReminderPolicyDTO.shape);
+
+function pickPolicyFields(body: Record<string, any> = {}) {
+  return Object.fromEntries(
+    Object.entries(body).filter(([key]) => POLICY_FIELDS.includes(key))
+  );
+}
+
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      await reminderService.ensureDefaults();
+      const policies = await reminderPolicyModel
+        .find()
+        .sort({ audience: 1, day_of_month: 1 })
+        .lean();
+
+      return response.success(
+        res,
+        { policies, variables: REMINDER_TEMPLATE_VARIABLES },
+        "success get reminder policies"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get reminder policies");
+      return;
+    }
+  },
+
+  async create(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const defaults = DEFAULT_REMINDER_POLICIES[0];
+      const parsed = ReminderPolicyDTO.safeParse({
+        enabled: defaults.enabled,
+        audience: defaults.audience,
+        min_periods: defaults.min_periods,
+        max_periods: null,
+        roles: [],
+        top_n: defaults.top_n,
+        ...pickPolicyFields(req.body),
+      });
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const result = await reminderPolicyModel.create({
+        ...parsed.data,
+        created_by: req.user?.id ?? null,
+      });
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.REMINDER_POLICY,
+        entity_id: result._id,
+        summary: `Kebijakan pengingat ${result.name}`,
+        after: result,
+      });
+
+      return response.success(res, result, "success create reminder policy");
+    } catch (error) {
+      response.error(res, error, "failed to create reminder policy");
+      return;
+    }
+  },
+
+  async update(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid reminder policy id", "validation error");
+        return;
+      }
+
+      const policy = await reminderPolicyModel.findById(id);
+      if (!policy) {
+        return response.notFound(res, "reminder policy not found");
+      }
+
+      // Partial updates are validated against the current policy
+      const before = snapshot(policy);
+      const parsed = ReminderPolicyDTO.safeParse({
+        ...pickPolicyFields(policy.toObject()),
+        ...pickPolicyFields(req.body),
+      });
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      policy.set({ ...parsed.data, updated_by: req.user?.id ?? null });
+      const result = await policy.save();
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.REMINDER_POLICY,
+        entity_id: result._id,
+        summary: `Kebijakan pengingat ${result.name}`,
+        before,
+        after: result,
+      });
+
+      return response.success(res, result, "success update reminder policy");
+    } catch (error) {
+      response.error(res, error, "failed to update reminder policy");
+      return;
+    }
+  },
+
+  async delete(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid reminder policy id", "validation error");
+        return;
+      }
+
+      const policy = await reminderPolicyModel.findByIdAndDelete(id);
+      if (!policy) {
+        return response.notFound(res, "reminder policy not found");
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.REMINDER_POLICY,
+        entity_id: policy._id,
+        summary: `Kebijakan pengingat ${policy.name}`,
+        before: policy,
+      });
+
+      return response.success(res, null, "success delete reminder policy");
+    } catch (error) {
+      response.error(res, error, "failed to delete reminder policy");
+      return;
+    }
+  },
+
+  // Who would get what if the policy ran now, nothing is sent
+  async preview(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid reminder policy id", "validation error");
+        return;
+      }
+
+      const policy = await reminderPolicyModel.findById(id).lean();
+      if (!policy) {
+        return response.notFound(res, "reminder policy not found");
+      }
+
+      const messages = await reminderService.preview(policy);
+      return response.success(res, messages, "success preview reminder policy");
+    } catch (error) {
+      response.error(res, error, "failed to preview reminder policy");
+      return;
+    }
+  },
+
+  // Sent reminders, filter by policy, cycle (YYYY-MM) or user
+  async logs(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { limit = 20, page = 1, policyId, cycle, userId } = req.query;
+
+      const query: Record<string, any> = {};
+      if (policyId) {
+        if (!mongoose.isValidObjectId(policyId)) {
+          response.error(res, "invalid reminder policy id", "validation error");
+          return;
+        }
+        query.policy = policyId;
+      }
+      if (userId) {
+        if (!mongoose.isValidObjectId(userId)) {
+          response.error(res, "invalid user id", "validation error");
+          return;
+        }
+        query.user = userId;
+      }
+      if (cycle) {
+        if (!PERIOD_REGEX.test(cycle as string)) {
+          response.error(res, "cycle must be YYYY-MM", "validation error");
+          return;
+        }
+        query.cycle = cycle;
+      }
+
+      const [result, count] = await Promise.all([
+        reminderLogModel
+          .find(query)
+          .populate("policy", "name audience")
+          .populate("user", "username address")
+          .sort({ sent_at: -1 })
+          .skip((+page - 1) * +limit)
+          .limit(+limit)
+          .lean(),
+        reminderLogModel.countDocuments(query),
+      ]);
+
+      return response.pagination(
+        res,
+        result,
+        {
+          total: count,
+          totalPages: Math.ceil(count / +limit),
+          current: +page,
+        },
+        "success get reminder logs"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to get reminder logs");
+      return;
+    }
+  },
+};
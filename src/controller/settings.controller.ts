@@ -1,19 +1,11 @@
 import { Response } from "express";
 import settingsModel from "../models/settings.model";
+import auditService from "../services/audit.service";
+import { getSettingValue, SETTINGS_KEYS } from "../services/settings.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
 import { IReqUser } from "../utils/interface";
 import response from "../utils/response";
 
-// Settings keys
-export const SETTINGS_KEYS = {
-  INITIAL_BALANCE: "initial_balance",
-};
-
-// Helper function to get a setting value
-export async function getSettingValue(key: string, defaultValue: any = null): Promise<any> {
-  const setting = await settingsModel.findOne({ key }).lean();
-  return setting ? setting.value : defaultValue;
-}
-
 export default {
   // Get all settings (Admin only)
   async getAll(req: IReqUser, res: Response): Promise<void> {
@@ -68,21 +60,34 @@ export default {
       }
 
       const numericValue = Number(initial_balance);
-      if (isNaN(numericValue)) {
+      if (!Number.isInteger(numericValue)) {
         response.error(
           res,
-          "initial_balance must be a number",
+          "initial_balance must be a whole rupiah amount",
           "validation error"
         );
         return;
       }
 
+      const before = await settingsModel
+        .findOne({ key: SETTINGS_KEYS.INITIAL_BALANCE })
+        .lean();
+
       const result = await settingsModel.findOneAndUpdate(
         { key: SETTINGS_KEYS.INITIAL_BALANCE },
         { key: SETTINGS_KEYS.INITIAL_BALANCE, value: numericValue },
         { upsert: true, new: true }
       );
 
+      await auditService.record(req, {
+        action: before ? AUDIT_ACTIONS.UPDATE : AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.SETTINGS,
+        entity_id: SETTINGS_KEYS.INITIAL_BALANCE,
+        summary: `Saldo awal ${before?.value ?? "-"} -> ${result.value}`,
+        before,
+        after: result,
+      });
+
       return response.success(
         res,
         { initial_balance: result.value },
@@ -0,0 +1,220 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import tariffModel from "../models/tariff.model";
+import userModel from "../models/user.model";
+import auditService from "../services/audit.service";
+import tariffService from "../services/tariff.service";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+import response from "../utils/response";
+import { TariffDTO } from "../utils/zodSchema";
+import { PERIOD_REGEX } from "../utils/period";
+
+export default {
+  async findAll(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { scope } = req.query;
+
+      const query: Record<string, any> = {};
+      if (scope) {
+        query.scope = scope as string;
+      }
+
+      const result = await tariffModel
+        .find(query)
+        .populate("user", "username address")
+        .populate("created_by", "username")
+        .sort({ scope: 1, effective_from: -1 })
+        .lean();
+
+      return response.success(res, result, "success get tariff");
+    } catch (error) {
+      response.error(res, error, "failed to get tariff");
+      return;
+    }
+  },
+
+  async create(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        response.unauthorized(res, "unauthorized");
+        return;
+      }
+
+      const parsed = TariffDTO.safeParse(req.body);
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const data = parsed.data;
+
+      if (data.scope === "user") {
+        if (!mongoose.isValidObjectId(data.user)) {
+          response.error(res, "invalid user id", "validation error");
+          return;
+        }
+        const user = await userModel.findById(data.user);
+        if (!user) {
+          response.notFound(res, "user not found");
+          return;
+        }
+      }
+
+      const result = await tariffModel.create({
+        scope: data.scope,
+        user: data.scope === "user" ? data.user : null,
+        address: data.scope === "address" ? data.address?.trim() : null,
+        amount: data.is_exempt ? 0 : data.amount,
+        is_exempt: data.is_exempt ?? false,
+        effective_from: data.effective_from,
+        effective_until: data.effective_until || null,
+        note: data.note || null,
+        created_by: userId,
+      });
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entity_type: AUDIT_ENTITY.TARIFF,
+        entity_id: result._id,
+        after: result,
+      });
+
+      return response.success(res, result, "success create tariff");
+    } catch (error) {
+      response.error(res, error, "failed to create tariff");
+      return;
+    }
+  },
+
+  async update(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid tariff id", "validation error");
+        return;
+      }
+
+      const existing = await tariffModel.findById(id).lean();
+      if (!existing) {
+        return response.notFound(res, "tariff not found");
+      }
+
+      // Validate the merged document so refinements (scope/user/address) still hold
+      const parsed = TariffDTO.safeParse({
+        scope: existing.scope,
+        user: existing.user?.toString() ?? null,
+        address: existing.address,
+        amount: existing.amount,
+        is_exempt: existing.is_exempt,
+        effective_from: existing.effective_from,
+        effective_until: existing.effective_until,
+        note: existing.note,
+        ...req.body,
+      });
+
+      if (!parsed.success) {
+        response.error(res, parsed.error, "validation error");
+        return;
+      }
+
+      const data = parsed.data;
+
+      const result = await tariffModel.findByIdAndUpdate(
+        id,
+        {
+          scope: data.scope,
+          user: data.scope === "user" ? data.user : null,
+          address: data.scope === "address" ? data.address?.trim() : null,
+          amount: data.is_exempt ? 0 : data.amount,
+          is_exempt: data.is_exempt ?? false,
+          effective_from: data.effective_from,
+          effective_until: data.effective_until || null,
+          note: data.note || null,
+        },
+        { new: true }
+      );
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entity_type: AUDIT_ENTITY.TARIFF,
+        entity_id: id,
+        before: existing,
+        after: result,
+      });
+
+      return response.success(res, result, "success update tariff");
+    } catch (error) {
+      response.error(res, error, "failed to update tariff");
+      return;
+    }
+  },
+
+  async delete(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!mongoose.isValidObjectId(id)) {
+        response.error(res, "invalid tariff id", "validation error");
+        return;
+      }
+
+      const result = await tariffModel.findByIdAndDelete(id);
+      if (!result) {
+        return response.notFound(res, "tariff not found");
+      }
+
+      await auditService.record(req, {
+        action: AUDIT_ACTIONS.DELETE,
+        entity_type: AUDIT_ENTITY.TARIFF,
+        entity_id: result._id,
+        before: result,
+      });
+
+      return response.success(res, result, "success delete tariff");
+    } catch (error) {
+      response.error(res, error, "failed to delete tariff");
+      return;
+    }
+  },
+
+  // Preview which amount applies to a user for a period
+  async resolve(req: IReqUser, res: Response): Promise<void> {
+    try {
+      const { userId, period } = req.query;
+
+      if (!userId || !mongoose.isValidObjectId(userId)) {
+        response.error(res, "invalid user id", "validation error");
+        return;
+      }
+
+      if (!period || !PERIOD_REGEX.test(period as string)) {
+        response.error(res, "period must be YYYY-MM", "validation error");
+        return;
+      }
+
+      const user = await userModel.findById(userId).select("_id address").lean();
+      if (!user) {
+        return response.notFound(res, "user not found");
+      }
+
+      const amount = await tariffService.resolveIuranAmount(user, period as string);
+
+      return response.success(
+        res,
+        {
+          userId,
+          period,
+          amount,
+          is_exempt: amount === 0,
+        },
+        "success resolve tariff"
+      );
+    } catch (error) {
+      response.error(res, error, "failed to resolve tariff");
+      return;
+    }
+  },
+};
@@ -4,7 +4,11 @@ import cors from "cors";
 import bodyParser = require("body-parser");
 import router from "./routes/api";
 import errorMiddleware from "./middleware/error.middleware";
-import { startMonthlyIuranGeneration } from "./config/generateIuran";
+import { registerIuranJobs } from "./config/generateIuran";
+import { registerPushReceiptJob } from "./config/pushReceipts";
+import { registerAnnouncementJob } from "./config/announcements";
+import { registerInventoryLoanJob } from "./config/inventoryLoans";
+import jobService from "./services/job.service";
 import path from "path";
 
 async function init() {
@@ -35,7 +39,11 @@ async function init() {
 
     app.use(errorMiddleware.serverRoute());
     app.use(errorMiddleware.serverError());
-    startMonthlyIuranGeneration();
+    registerIuranJobs();
+    registerPushReceiptJob();
+    registerAnnouncementJob();
+    registerInventoryLoanJob();
+    await jobService.start();
 
     app.listen(PORT, () => {
       console.log(`Server is up at PORT ${PORT}`);
@@ -1,14 +1,24 @@
 import { NextFunction, Response } from "express";
+import permissionService from "../services/permission.service";
+import { PERMISSIONS } from "../utils/constants";
 import { IReqUser } from "../utils/interface";
 import response from "../utils/response";
 
-export default (roles: string[]) => {
-  return (req: IReqUser, res: Response, next: NextFunction): void => {
-    const role = req.user?.role;
+// Passes when the user's role holds any of the given permissions
+export default (...permissions: PERMISSIONS[]) => {
+  return async (req: IReqUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const role = req.user?.role;
+
+      for (const permission of permissions) {
+        if (await permissionService.hasPermission(role, permission)) {
+          return next();
+        }
+      }
 
-    if (!role || !roles.includes(role)) {
       return response.unauthorized(res, "forbidden");
+    } catch (error) {
+      response.error(res, error, "failed to check permission");
     }
-    next();
   };
 };
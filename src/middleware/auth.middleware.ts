@@ -3,8 +3,9 @@ import response from "../utils/response";
 import { getUserData } from "../utils/jwt";
 import { IReqUser } from "../utils/interface";
 import jwt from "jsonwebtoken";
+import sessionService from "../services/session.service";
 
-export default (req: Request, res: Response, next: NextFunction): void => {
+export default async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const auth = req.headers.authorization;
 
   if (!auth) {
@@ -19,6 +20,16 @@ export default (req: Request, res: Response, next: NextFunction): void => {
 
   try {
     const user = getUserData(accessToken);
+
+    // A valid signature is not enough, the session may have been revoked
+    if (
+      !user.id ||
+      !user.sid ||
+      !(await sessionService.isActive(user.sid, user.id.toString()))
+    ) {
+      return response.unauthorized(res, "Session revoked");
+    }
+
     (req as IReqUser).user = user;
     next();
   } catch (error) {
@@ -1,27 +1,128 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
 import multer from "multer";
 import path from "path";
+import mediaService, {
+  IMAGE_MIMES,
+  isHeic,
+  MEDIA_MIME,
+  sniffMime,
+  UPLOADS_DIR,
+} from "../services/media.service";
+import response from "../utils/response";
 
-const storage = multer.diskStorage({
-  destination: path.join(process.cwd(), "uploads"),
-  filename: (req, file, cb) => {
-    const unique = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    cb(null, unique + path.extname(file.originalname));
-  },
-});
+// What a route accepts, checked against the sniffed content
+export const MEDIA_ALLOW = {
+  IMAGE: IMAGE_MIMES,
+  SPREADSHEET: [MEDIA_MIME.XLSX],
+};
+
+// Raw upload size, before images are compressed. Every file of a request
+// is held in memory and decoded, so keep MAX_FILE_SIZE_MB x MAX_FILES small.
+const MAX_FILE_SIZE_MB = 10;
+const MAX_FILES = 5;
 
+// Files are kept in memory until their type is known. Images are then
+// written to uploads/ as compressed JPEG with a thumbnail (see
+// media.service); other files stay in memory for the controller (`buffer`).
 const upload = multer({
-  storage,
-  limits: { fileSize: 2 * 1024 * 1024 },
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE_MB * 1024 * 1024, files: MAX_FILES },
 });
 
+function uploadedFiles(req: Request): Express.Multer.File[] {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  if (req.files) return Object.values(req.files).flat();
+  return [];
+}
+
+function uploadError(error: any): string {
+  if (error instanceof multer.MulterError) {
+    if (error.code === "LIMIT_FILE_SIZE") return `file is too large, max ${MAX_FILE_SIZE_MB} MB`;
+    if (error.code === "LIMIT_FILE_COUNT") return `too many files, max ${MAX_FILES}`;
+    return error.message;
+  }
+  return "failed to upload file";
+}
+
+// Why a file is not accepted, checked for every file before any is stored
+function typeError(files: Express.Multer.File[], allowed: MEDIA_MIME[]): string | null {
+  for (const file of files) {
+    const mime = sniffMime(file.buffer);
+    if (mime && allowed.includes(mime)) {
+      file.mimetype = mime;
+      continue;
+    }
+    if (isHeic(file.buffer)) {
+      return `${file.fieldname}: HEIC photos are not supported, please send JPEG or PNG`;
+    }
+    return `${file.fieldname}: file type is not allowed`;
+  }
+  return null;
+}
+
+async function processFiles(files: Express.Multer.File[]) {
+  const saved: string[] = [];
+
+  try {
+    for (const file of files) {
+      if (!IMAGE_MIMES.includes(file.mimetype as MEDIA_MIME)) continue;
+
+      let image;
+      try {
+        image = await mediaService.saveImage(file.buffer);
+      } catch {
+        throw new Error(`${file.fieldname}: image could not be read`);
+      }
+      saved.push(`/uploads/${image.filename}`);
+
+      file.filename = image.filename;
+      file.destination = UPLOADS_DIR;
+      file.path = path.join(UPLOADS_DIR, image.filename);
+      file.mimetype = MEDIA_MIME.JPEG;
+      file.size = image.size;
+      file.buffer = Buffer.alloc(0); // written to disk, free the memory
+    }
+  } catch (error) {
+    saved.forEach((url) => mediaService.remove(url));
+    throw error;
+  }
+}
+
+// Receives the upload with multer, then checks and stores the files
+function pipeline(receive: RequestHandler, allowed: MEDIA_MIME[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    receive(req, res, async (error?: any) => {
+      if (error) {
+        response.error(res, uploadError(error), "upload error");
+        return;
+      }
+
+      const files = uploadedFiles(req);
+      const rejected = typeError(files, allowed);
+      if (rejected) {
+        response.unsupportedMediaType(res, rejected);
+        return;
+      }
+
+      try {
+        await processFiles(files);
+        next();
+      } catch (err) {
+        response.error(res, (err as Error).message, "upload error");
+      }
+    });
+  };
+}
+
 export default {
-  single(fieldName: string) {
-    return upload.single(fieldName);
+  single(fieldName: string, allowed: MEDIA_MIME[]) {
+    return pipeline(upload.single(fieldName), allowed);
   },
-  array(fieldName: string, maxCount?: number) {
-    return upload.array(fieldName, maxCount);
+  array(fieldName: string, allowed: MEDIA_MIME[], maxCount?: number) {
+    return pipeline(upload.array(fieldName, maxCount), allowed);
   },
-  any() {
-    return upload.any();
+  any(allowed: MEDIA_MIME[]) {
+    return pipeline(upload.any(), allowed);
   },
 };
@@ -0,0 +1,46 @@
+import { NextFunction, Request, Response } from "express";
+import rateLimitModel from "../models/rateLimit.model";
+import response from "../utils/response";
+
+type RateLimitOptions = {
+  name: string;
+  windowMs: number;
+  max: number;
+  key?: (req: Request) => string | undefined;
+};
+
+// Fixed-window counter stored in MongoDB so every PM2 instance shares it
+export default (options: RateLimitOptions) => {
+  const { name, windowMs, max } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const client = options.key?.(req) || req.ip || "unknown";
+      const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+
+      const counter = await rateLimitModel.findOneAndUpdate(
+        { key: `${name}:${client}:${windowStart}` },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { expires_at: new Date(windowStart + windowMs) },
+        },
+        { upsert: true, new: true }
+      );
+
+      if (counter.count > max) {
+        const retryAfter = Math.ceil((windowStart + windowMs - Date.now()) / 1000);
+        res.setHeader("Retry-After", retryAfter.toString());
+        return response.tooManyRequests(
+          res,
+          `too many attempts, try again in ${retryAfter} seconds`
+        );
+      }
+
+      next();
+    } catch (error) {
+      // Never lock users out because the limiter itself failed
+      console.error("RATE LIMIT ERROR:", error);
+      next();
+    }
+  };
+};
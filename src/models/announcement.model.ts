@@ -0,0 +1,105 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { ANNOUNCEMENT_AUDIENCE, ANNOUNCEMENT_STATUS } from "../utils/constants";
+
+export const ANNOUNCEMENT_MODEL_NAME = "Announcement";
+
+// Pengumuman. `audience_values` holds the roles, USER_STATUS values or
+// addresses for the chosen audience, it is empty for ALL.
+export interface Announcement {
+  title: string;
+  slug: string;
+  body: string;
+  audience: ANNOUNCEMENT_AUDIENCE;
+  audience_values: string[];
+  is_public: boolean; // shown on the rt07-website feed
+  send_push: boolean;
+  status: ANNOUNCEMENT_STATUS;
+  publish_at: Date;
+  expires_at?: Date | null;
+  published_at?: Date | null;
+  pushed_count?: number; // recipients notified when it was published
+  created_by: Types.ObjectId;
+  updated_by?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const announcementSchema = new Schema(
+  {
+    title: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    slug: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    body: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    audience: {
+      type: Schema.Types.String,
+      enum: Object.values(ANNOUNCEMENT_AUDIENCE),
+      default: ANNOUNCEMENT_AUDIENCE.ALL,
+    },
+    audience_values: {
+      type: [Schema.Types.String],
+      default: [],
+    },
+    is_public: {
+      type: Schema.Types.Boolean,
+      default: true,
+    },
+    send_push: {
+      type: Schema.Types.Boolean,
+      default: true,
+    },
+    status: {
+      type: Schema.Types.String,
+      enum: Object.values(ANNOUNCEMENT_STATUS),
+      default: ANNOUNCEMENT_STATUS.DRAFT,
+    },
+    publish_at: {
+      type: Schema.Types.Date,
+      default: Date.now,
+    },
+    expires_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    published_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    pushed_count: {
+      type: Schema.Types.Number,
+      default: 0,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+announcementSchema.index({ status: 1, publish_at: 1 });
+announcementSchema.index({ is_public: 1, status: 1, published_at: -1 });
+
+const announcementModel = mongoose.model<Announcement>(
+  ANNOUNCEMENT_MODEL_NAME,
+  announcementSchema
+);
+
+export default announcementModel;
@@ -0,0 +1,81 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+
+export const AUDIT_LOG_MODEL_NAME = "AuditLog";
+
+export interface AuditLog {
+  actor?: Types.ObjectId | null; // null for public endpoints (e.g. password reset)
+  actor_role?: string | null;
+  action: AUDIT_ACTIONS;
+  entity_type: AUDIT_ENTITY;
+  entity_id?: string | null;
+  parent_id?: string | null; // e.g. the event of a donation
+  summary?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  ip?: string | null;
+  createdAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const auditLogSchema = new Schema(
+  {
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+      index: true,
+    },
+    actor_role: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    action: {
+      type: Schema.Types.String,
+      enum: Object.values(AUDIT_ACTIONS),
+      required: true,
+    },
+    entity_type: {
+      type: Schema.Types.String,
+      enum: Object.values(AUDIT_ENTITY),
+      required: true,
+    },
+    entity_id: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    parent_id: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    summary: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    ip: {
+      type: Schema.Types.String,
+      default: null,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+auditLogSchema.index({ entity_type: 1, entity_id: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+const auditLogModel = mongoose.model<AuditLog>(
+  AUDIT_LOG_MODEL_NAME,
+  auditLogSchema
+);
+
+export default auditLogModel;
@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+
+export const COUNTER_MODEL_NAME = "Counter";
+
+// Named sequences, e.g. "receipt:2026". Incremented atomically with $inc.
+export interface Counter {
+  key: string;
+  seq: number;
+}
+
+const Schema = mongoose.Schema;
+
+const counterSchema = new Schema({
+  key: {
+    type: Schema.Types.String,
+    required: true,
+    unique: true,
+  },
+  seq: {
+    type: Schema.Types.Number,
+    default: 0,
+  },
+});
+
+const counterModel = mongoose.model<Counter>(COUNTER_MODEL_NAME, counterSchema);
+
+export default counterModel;
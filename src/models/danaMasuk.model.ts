@@ -1,4 +1,5 @@
 import mongoose, { Types } from "mongoose";
+import { rupiahField } from "../utils/money";
 
 export const DANA_MASUK_MODEL_NAME = "DanaMasuk";
 
@@ -19,11 +20,7 @@ const danaMasukSchema = new Schema(
       type: Schema.Types.String,
       required: true,
     },
-    nominal: {
-      type: Schema.Types.Number,
-      required: true,
-      min: 0,
-    },
+    nominal: rupiahField({ required: true }),
     keterangan: {
       type: Schema.Types.String,
       default: null,
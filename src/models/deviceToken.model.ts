@@ -0,0 +1,56 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { DEVICE_PLATFORM } from "../utils/constants";
+
+export const DEVICE_TOKEN_MODEL_NAME = "DeviceToken";
+
+// Expo push token of one device. A user can have several; a token belongs to
+// whoever registered it last (shared devices).
+export interface DeviceToken {
+  user: Types.ObjectId;
+  token: string;
+  platform: DEVICE_PLATFORM;
+  device_name?: string | null;
+  last_seen_at: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const deviceTokenSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+      index: true,
+    },
+    token: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    platform: {
+      type: Schema.Types.String,
+      enum: Object.values(DEVICE_PLATFORM),
+      default: DEVICE_PLATFORM.UNKNOWN,
+    },
+    device_name: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    last_seen_at: {
+      type: Schema.Types.Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true }
+);
+
+const deviceTokenModel = mongoose.model<DeviceToken>(
+  DEVICE_TOKEN_MODEL_NAME,
+  deviceTokenSchema
+);
+
+export default deviceTokenModel;
@@ -1,21 +1,29 @@
 import mongoose, { Types } from "mongoose";
 import { USER_MODEL_NAME } from "./user.model";
+import { legacyMoneyPlugin, rupiahField } from "../utils/money";
 
 export const EVENT_MODEL_NAME = "Event";
 
 export interface Donation {
   donor_name: string;
-  amount: string;
+  amount: number;
   date: Date;
   address?: string;
 }
 
 export interface EventExpense {
   description: string;
-  amount: string;
+  amount: number;
   date: Date;
-  category: "HIBURAN" | "LOMBA" | "KONSUMSI" | "LAINNYA";
+  category: string; // one of the event categories in settings
   proof_image_urls?: string[];
+  proof_thumbnail_urls?: string[]; // same order as proof_image_urls
+}
+
+// Planned spending for one expense category
+export interface EventBudgetItem {
+  category: string;
+  amount: number;
 }
 
 export interface Event {
@@ -25,9 +33,10 @@ export interface Event {
   date: Date;
   donations: Donation[];
   expenses: EventExpense[];
-  total_donations: string;
-  total_expenses: string;
-  balance: string; // positive = surplus, negative = deficit
+  budget: EventBudgetItem[]; // set while planning
+  total_donations: number;
+  total_expenses: number;
+  balance: number; // positive = surplus, negative = deficit
   status: "planning" | "active" | "completed";
   completed_at?: Date | null;
   created_by: Types.ObjectId;
@@ -42,10 +51,7 @@ const DonationSchema = new Schema({
     type: String,
     required: true,
   },
-  amount: {
-    type: String,
-    required: true,
-  },
+  amount: rupiahField({ required: true }),
   date: {
     type: Date,
     default: Date.now,
@@ -61,25 +67,36 @@ const EventExpenseSchema = new Schema({
     type: String,
     required: true,
   },
-  amount: {
-    type: String,
-    required: true,
-  },
+  amount: rupiahField({ required: true }),
   date: {
     type: Date,
     default: Date.now,
   },
   category: {
     type: String,
-    enum: ["HIBURAN", "LOMBA", "KONSUMSI", "LAINNYA"],
     required: true,
   },
   proof_image_urls: {
     type: [String],
     default: [],
   },
+  proof_thumbnail_urls: {
+    type: [String],
+    default: [],
+  },
 });
 
+const EventBudgetItemSchema = new Schema(
+  {
+    category: {
+      type: String,
+      required: true,
+    },
+    amount: rupiahField({ required: true }),
+  },
+  { _id: false }
+);
+
 const eventSchema = new Schema(
   {
     name: {
@@ -108,18 +125,13 @@ const eventSchema = new Schema(
       type: [EventExpenseSchema],
       default: [],
     },
-    total_donations: {
-      type: String,
-      default: "0",
-    },
-    total_expenses: {
-      type: String,
-      default: "0",
-    },
-    balance: {
-      type: String,
-      default: "0",
+    budget: {
+      type: [EventBudgetItemSchema],
+      default: [],
     },
+    total_donations: rupiahField({ default: 0 }),
+    total_expenses: rupiahField({ default: 0 }),
+    balance: rupiahField({ default: 0, signed: true }),
     status: {
       type: String,
       enum: ["planning", "active", "completed"],
@@ -142,18 +154,24 @@ const eventSchema = new Schema(
 
 // Calculate totals before saving
 eventSchema.pre("save", async function () {
-  const totalDonations = this.donations.reduce(
-    (sum, d) => sum + Number(d.amount),
-    0
-  );
-  const totalExpenses = this.expenses.reduce(
-    (sum, e) => sum + Number(e.amount),
-    0
-  );
+  const totalDonations = this.donations.reduce((sum, d) => sum + d.amount, 0);
+  const totalExpenses = this.expenses.reduce((sum, e) => sum + e.amount, 0);
+
+  this.total_donations = totalDonations;
+  this.total_expenses = totalExpenses;
+  this.balance = totalDonations - totalExpenses;
+});
 
-  this.total_donations = String(totalDonations);
-  this.total_expenses = String(totalExpenses);
-  this.balance = String(totalDonations - totalExpenses);
+// These were strings before money became numeric
+eventSchema.plugin(legacyMoneyPlugin, {
+  paths: [
+    "donations.amount",
+    "expenses.amount",
+    "budget.amount",
+    "total_donations",
+    "total_expenses",
+    "balance",
+  ],
 });
 
 const eventModel = mongoose.model<Event>(EVENT_MODEL_NAME, eventSchema);
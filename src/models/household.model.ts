@@ -0,0 +1,56 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { rupiahField } from "../utils/money";
+
+export const HOUSEHOLD_MODEL_NAME = "Household";
+
+// Kartu Keluarga. Members point to their household through user.household,
+// regular iuran is billed once per household to the head.
+export interface Household {
+  kk_number?: string | null;
+  address: string;
+  head: Types.ObjectId;
+  note?: string | null;
+  credit_balance?: number; // saldo titipan from overpaid iuran
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const householdSchema = new Schema(
+  {
+    kk_number: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    address: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    head: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    note: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    credit_balance: rupiahField({ default: 0 }),
+  },
+  { timestamps: true }
+);
+
+householdSchema.index(
+  { kk_number: 1 },
+  { unique: true, partialFilterExpression: { kk_number: { $type: "string" } } }
+);
+householdSchema.index({ head: 1 });
+
+const householdModel = mongoose.model<Household>(
+  HOUSEHOLD_MODEL_NAME,
+  householdSchema
+);
+
+export default householdModel;
@@ -6,9 +6,21 @@ export const INVENTORY_MODEL_NAME = "Inventory";
 
 export type TInventory = z.infer<typeof InventoryDTO>;
 
+// Units per condition, they add up to `quantity`
+export interface InventoryConditionCounts {
+  baik: number;
+  rusak_ringan: number;
+  rusak_berat: number;
+}
+
+// `quantity` and `condition` only change through stock movements, see
+// inventory.service
 export interface Inventory extends Omit<TInventory, ""> {
+  condition: InventoryConditionCounts;
+  on_loan?: number; // units out with borrowers, see inventoryLoan.service
   createdBy?: Types.ObjectId;
   image_url?: string;
+  thumbnail_url?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -23,15 +35,30 @@ const inventorySchema = new Schema(
       unique: true,
     },
     quantity: {
-      type: Schema.Types.String,
+      type: Schema.Types.Number,
       required: true,
-      minLength: 0,
+      min: 0,
+    },
+    condition: {
+      baik: { type: Schema.Types.Number, min: 0, default: 0 },
+      rusak_ringan: { type: Schema.Types.Number, min: 0, default: 0 },
+      rusak_berat: { type: Schema.Types.Number, min: 0, default: 0 },
+    },
+    on_loan: {
+      type: Schema.Types.Number,
+      min: 0,
+      default: 0,
     },
     image_url: {
       type: Schema.Types.String,
       required: false,
       default: null,
     },
+    thumbnail_url: {
+      type: Schema.Types.String,
+      required: false,
+      default: null,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -0,0 +1,144 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { INVENTORY_MODEL_NAME } from "./inventory.model";
+import { INVENTORY_LOAN_STATUS } from "../utils/constants";
+import { rupiahField } from "../utils/money";
+
+export const INVENTORY_LOAN_MODEL_NAME = "InventoryLoan";
+
+// Peminjaman inventaris. Warga request, pengurus approve, hand the items
+// over (checkout) and take them back (return). Outside borrowers have no
+// account (`borrower` is null) and may be charged a rental fee.
+export interface InventoryLoan {
+  inventory: Types.ObjectId;
+  quantity: number;
+  borrower?: Types.ObjectId | null;
+  borrower_name: string;
+  borrower_phone?: string | null;
+  is_outside: boolean;
+  purpose?: string | null;
+  start_date: Date;
+  due_date: Date;
+  rental_fee: number; // income when checked out, see ledger.service
+  status: INVENTORY_LOAN_STATUS;
+  requested_by: Types.ObjectId;
+  decided_by?: Types.ObjectId | null; // approved or rejected by
+  decided_at?: Date | null;
+  rejection_reason?: string | null;
+  checked_out_at?: Date | null;
+  checked_out_by?: Types.ObjectId | null;
+  returned_at?: Date | null;
+  returned_by?: Types.ObjectId | null;
+  return_note?: string | null;
+  overdue_reminded_at?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const inventoryLoanSchema = new Schema(
+  {
+    inventory: {
+      type: Schema.Types.ObjectId,
+      ref: INVENTORY_MODEL_NAME,
+      required: true,
+    },
+    quantity: {
+      type: Schema.Types.Number,
+      min: 1,
+      required: true,
+    },
+    borrower: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    borrower_name: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    borrower_phone: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    is_outside: {
+      type: Schema.Types.Boolean,
+      default: false,
+    },
+    purpose: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    start_date: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    due_date: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    rental_fee: rupiahField({ default: 0 }),
+    status: {
+      type: Schema.Types.String,
+      enum: Object.values(INVENTORY_LOAN_STATUS),
+      default: INVENTORY_LOAN_STATUS.REQUESTED,
+    },
+    requested_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    decided_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    decided_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    rejection_reason: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    checked_out_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    checked_out_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    returned_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    returned_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    return_note: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    overdue_reminded_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+inventoryLoanSchema.index({ inventory: 1, status: 1 });
+inventoryLoanSchema.index({ borrower: 1, createdAt: -1 });
+inventoryLoanSchema.index({ status: 1, due_date: 1 });
+
+const inventoryLoanModel = mongoose.model<InventoryLoan>(
+  INVENTORY_LOAN_MODEL_NAME,
+  inventoryLoanSchema
+);
+
+export default inventoryLoanModel;
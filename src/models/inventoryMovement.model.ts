@@ -0,0 +1,96 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { INVENTORY_MODEL_NAME, InventoryConditionCounts } from "./inventory.model";
+import { PENGELUARAN_MODEL_NAME } from "./pengeluaran.model";
+import { INVENTORY_CONDITION, INVENTORY_MOVEMENT_TYPE } from "../utils/constants";
+
+export const INVENTORY_MOVEMENT_MODEL_NAME = "InventoryMovement";
+
+// One change to the stock of an inventory item. Units either come in
+// (`condition_to`), go out (`condition_from`) or move between conditions
+// (both). Never edited, a mistake is fixed with a correction.
+export interface InventoryMovement {
+  inventory: Types.ObjectId;
+  type: INVENTORY_MOVEMENT_TYPE;
+  quantity: number; // units moved
+  change: number; // effect on the total quantity, negative when units left
+  condition_from?: INVENTORY_CONDITION | null;
+  condition_to?: INVENTORY_CONDITION | null;
+  quantity_after: number;
+  condition_after: InventoryConditionCounts;
+  reason: string;
+  pengeluaran?: Types.ObjectId | null; // purchase paid by this pengeluaran
+  created_by?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const inventoryMovementSchema = new Schema(
+  {
+    inventory: {
+      type: Schema.Types.ObjectId,
+      ref: INVENTORY_MODEL_NAME,
+      required: true,
+    },
+    type: {
+      type: Schema.Types.String,
+      enum: Object.values(INVENTORY_MOVEMENT_TYPE),
+      required: true,
+    },
+    quantity: {
+      type: Schema.Types.Number,
+      min: 1,
+      required: true,
+    },
+    change: {
+      type: Schema.Types.Number,
+      required: true,
+    },
+    condition_from: {
+      type: Schema.Types.String,
+      enum: [...Object.values(INVENTORY_CONDITION), null],
+      default: null,
+    },
+    condition_to: {
+      type: Schema.Types.String,
+      enum: [...Object.values(INVENTORY_CONDITION), null],
+      default: null,
+    },
+    quantity_after: {
+      type: Schema.Types.Number,
+      required: true,
+    },
+    condition_after: {
+      baik: { type: Schema.Types.Number, default: 0 },
+      rusak_ringan: { type: Schema.Types.Number, default: 0 },
+      rusak_berat: { type: Schema.Types.Number, default: 0 },
+    },
+    reason: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    pengeluaran: {
+      type: Schema.Types.ObjectId,
+      ref: PENGELUARAN_MODEL_NAME,
+      default: null,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+inventoryMovementSchema.index({ inventory: 1, createdAt: -1 });
+inventoryMovementSchema.index({ pengeluaran: 1 });
+
+const inventoryMovementModel = mongoose.model<InventoryMovement>(
+  INVENTORY_MOVEMENT_MODEL_NAME,
+  inventoryMovementSchema
+);
+
+export default inventoryMovementModel;
@@ -3,6 +3,8 @@ import { z } from "zod";
 import { IURAN_STATUS } from "../utils/constants";
 import { IuranDTO } from "../utils/zodSchema";
 import { USER_MODEL_NAME } from "./user.model";
+import { HOUSEHOLD_MODEL_NAME } from "./household.model";
+import { legacyMoneyPlugin, rupiahField } from "../utils/money";
 
 export const IURAN_MODEL_NAME = "Iuran";
 
@@ -13,14 +15,19 @@ export interface Iuran
     TIuran,
     "user" | "submitted_at" | "confirmed_at" | "confirmed_by"
   > {
-  user: Types.ObjectId;
+  user: Types.ObjectId; // billed account, the head for household iuran
+  household?: Types.ObjectId | null;
+  submitted_by?: Types.ObjectId | null; // household member who sent the proof
   submitted_at?: Date | null;
   confirmed_at?: Date | null;
   confirmed_by?: Types.ObjectId | null;
   payment_date?: Date | null;
   payment_method?: string | null;
   recorded_by?: Types.ObjectId | null;
+  rejection_reason?: string | null;
   is_imported?: boolean;
+  denda?: number; // late payment penalty charged on top of amount
+  paid_amount?: number; // received through payments, amount first then denda
 }
 
 const Schema = mongoose.Schema;
@@ -32,14 +39,16 @@ const iuranSchema = new Schema(
       ref: USER_MODEL_NAME,
       required: true,
     },
-    period: {
-      type: Schema.Types.String,
-      required: true,
+    household: {
+      type: Schema.Types.ObjectId,
+      ref: HOUSEHOLD_MODEL_NAME,
+      default: null,
     },
-    amount: {
+    period: {
       type: Schema.Types.String,
       required: true,
     },
+    amount: rupiahField({ required: true }),
     status: {
       type: Schema.Types.String,
       enum: [
@@ -53,6 +62,9 @@ const iuranSchema = new Schema(
     proof_image_url: {
       type: Schema.Types.String,
     },
+    proof_thumbnail_url: {
+      type: Schema.Types.String,
+    },
     note: {
       type: Schema.Types.String,
     },
@@ -62,6 +74,11 @@ const iuranSchema = new Schema(
       default: "regular",
     },
 
+    submitted_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
     submitted_at: {
       type: Schema.Types.Date,
       default: null,
@@ -88,10 +105,16 @@ const iuranSchema = new Schema(
       ref: USER_MODEL_NAME,
       default: null,
     },
+    rejection_reason: {
+      type: Schema.Types.String,
+      default: null,
+    },
     is_imported: {
       type: Schema.Types.Boolean,
       default: false,
     },
+    denda: rupiahField({ default: 0 }),
+    paid_amount: rupiahField({ default: 0 }),
   },
   {
     timestamps: true,
@@ -100,6 +123,10 @@ const iuranSchema = new Schema(
 
 // Index for faster queries (non-unique to allow multiple iuran per period)
 iuranSchema.index({ user: 1, period: 1 });
+iuranSchema.index({ household: 1, period: 1 });
+
+// Amount was a string before money became numeric
+iuranSchema.plugin(legacyMoneyPlugin, { paths: ["amount"] });
 
 const iuranModel = mongoose.model<Iuran>(IURAN_MODEL_NAME, iuranSchema);
 
@@ -0,0 +1,71 @@
+import mongoose from "mongoose";
+import { JOB_RUN_STATUS } from "../utils/constants";
+
+export const JOB_MODEL_NAME = "Job";
+
+// State of a scheduled job shared by all server instances. `next_run_at` is
+// the slot that has not run yet, the locked_* fields belong to the instance
+// running the job right now.
+export interface Job {
+  name: string;
+  description: string;
+  schedule: string; // cron expression, server time
+  next_run_at?: Date | null;
+  last_run_at?: Date | null;
+  last_status?: JOB_RUN_STATUS | null;
+  locked_by?: string | null;
+  locked_at?: Date | null;
+  locked_until?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const jobSchema = new Schema(
+  {
+    name: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    description: {
+      type: Schema.Types.String,
+      default: "",
+    },
+    schedule: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    next_run_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    last_run_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    last_status: {
+      type: Schema.Types.String,
+      enum: [...Object.values(JOB_RUN_STATUS), null],
+      default: null,
+    },
+    locked_by: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    locked_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    locked_until: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+const jobModel = mongoose.model<Job>(JOB_MODEL_NAME, jobSchema);
+
+export default jobModel;
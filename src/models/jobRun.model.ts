@@ -0,0 +1,83 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { JOB_RUN_STATUS, JOB_TRIGGER } from "../utils/constants";
+
+export const JOB_RUN_MODEL_NAME = "JobRun";
+
+// What the job reported, e.g. { created: 120, targets: 10 }
+export type JobCounts = Record<string, number>;
+
+// History entry of one job run
+export interface JobRun {
+  job: string; // Job.name
+  trigger: JOB_TRIGGER;
+  status: JOB_RUN_STATUS;
+  scheduled_for?: Date | null; // the slot, for scheduled and catch-up runs
+  started_at: Date;
+  finished_at?: Date | null;
+  counts: JobCounts;
+  error?: string | null;
+  instance?: string | null;
+  triggered_by?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const jobRunSchema = new Schema(
+  {
+    job: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    trigger: {
+      type: Schema.Types.String,
+      enum: Object.values(JOB_TRIGGER),
+      required: true,
+    },
+    status: {
+      type: Schema.Types.String,
+      enum: Object.values(JOB_RUN_STATUS),
+      required: true,
+    },
+    scheduled_for: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    started_at: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    finished_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    counts: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    error: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    instance: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    triggered_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+jobRunSchema.index({ job: 1, started_at: -1 });
+// Keep a year of history
+jobRunSchema.index({ started_at: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 });
+
+const jobRunModel = mongoose.model<JobRun>(JOB_RUN_MODEL_NAME, jobRunSchema);
+
+export default jobRunModel;
@@ -0,0 +1,99 @@
+import mongoose, { Types } from "mongoose";
+import { LEDGER_ACCOUNTS, LEDGER_SOURCE } from "../utils/constants";
+import { USER_MODEL_NAME } from "./user.model";
+import { rupiahField } from "../utils/money";
+
+export const LEDGER_MODEL_NAME = "LedgerEntry";
+
+export interface LedgerLine {
+  account: LEDGER_ACCOUNTS;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerEntry {
+  date: Date;
+  description: string;
+  source_type: LEDGER_SOURCE;
+  source_id: Types.ObjectId;
+  source_parent_id?: Types.ObjectId | null; // e.g. the event of an event donation
+  lines: LedgerLine[];
+  created_by?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const ledgerLineSchema = new Schema(
+  {
+    account: {
+      type: Schema.Types.String,
+      enum: Object.values(LEDGER_ACCOUNTS),
+      required: true,
+    },
+    debit: rupiahField({ default: 0 }),
+    credit: rupiahField({ default: 0 }),
+  },
+  { _id: false }
+);
+
+const ledgerSchema = new Schema(
+  {
+    date: {
+      type: Schema.Types.Date,
+      required: true,
+      index: true,
+    },
+    description: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    source_type: {
+      type: Schema.Types.String,
+      enum: Object.values(LEDGER_SOURCE),
+      required: true,
+    },
+    source_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    source_parent_id: {
+      type: Schema.Types.ObjectId,
+      default: null,
+      index: true,
+    },
+    lines: {
+      type: [ledgerLineSchema],
+      required: true,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// One entry per source document
+ledgerSchema.index({ source_type: 1, source_id: 1 }, { unique: true });
+
+// Every journal entry must balance
+ledgerSchema.pre("validate", function () {
+  const totalDebit = this.lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = this.lines.reduce((sum, line) => sum + line.credit, 0);
+
+  if (this.lines.length < 2 || totalDebit !== totalCredit) {
+    throw new Error(
+      `Unbalanced ledger entry: debit ${totalDebit} != credit ${totalCredit}`
+    );
+  }
+});
+
+const ledgerModel = mongoose.model<LedgerEntry>(
+  LEDGER_MODEL_NAME,
+  ledgerSchema
+);
+
+export default ledgerModel;
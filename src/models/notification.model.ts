@@ -0,0 +1,54 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+
+export const NOTIFICATION_MODEL_NAME = "Notification";
+
+// One notification per recipient, kept whether or not the push arrived
+export interface Notification {
+  user: Types.ObjectId;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  read_at?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const notificationSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    title: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    body: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    read_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, read_at: 1 });
+
+const notificationModel = mongoose.model<Notification>(
+  NOTIFICATION_MODEL_NAME,
+  notificationSchema
+);
+
+export default notificationModel;
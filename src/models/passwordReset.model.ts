@@ -0,0 +1,65 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+
+export const PASSWORD_RESET_MODEL_NAME = "PasswordReset";
+
+export interface PasswordReset {
+  user: Types.ObjectId;
+  code_hash: string;
+  issued_by: Types.ObjectId;
+  expires_at: Date;
+  attempts: number; // failed redeem attempts, the code is burned at the limit
+  used_at?: Date | null;
+  invalidated_at?: Date | null; // replaced by a newer code
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const passwordResetSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+      index: true,
+    },
+    code_hash: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    issued_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    expires_at: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    attempts: {
+      type: Schema.Types.Number,
+      default: 0,
+    },
+    used_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    invalidated_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// Keep codes around for a week after expiry for troubleshooting
+passwordResetSchema.index({ expires_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const passwordResetModel = mongoose.model<PasswordReset>(
+  PASSWORD_RESET_MODEL_NAME,
+  passwordResetSchema
+);
+
+export default passwordResetModel;
@@ -0,0 +1,126 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { HOUSEHOLD_MODEL_NAME } from "./household.model";
+import { IURAN_MODEL_NAME } from "./iuran.model";
+import { rupiahField } from "../utils/money";
+
+export const PAYMENT_MODEL_NAME = "Payment";
+
+// Part of a payment that went to one iuran
+export interface PaymentAllocation {
+  iuran: Types.ObjectId;
+  period: string;
+  amount: number; // towards the iuran amount
+  denda: number; // towards the late payment penalty
+  remaining: number; // still owed on the iuran after this payment
+}
+
+// Money handed over by a household/user, split over their iuran oldest-first.
+// Whatever is left becomes credit (saldo titipan) for later periods.
+// A payment with amount 0 only applies existing credit.
+export interface Payment {
+  user: Types.ObjectId; // billed account, the head for households
+  household?: Types.ObjectId | null;
+  amount: number; // cash received
+  credit_used: number;
+  credit_added: number;
+  credit_balance_after?: number | null; // saldo titipan right after this payment, printed on its receipt
+  allocations: PaymentAllocation[];
+  payment_date: Date;
+  payment_method?: string | null;
+  note?: string | null;
+  submitted_by?: Types.ObjectId | null;
+  recorded_by?: Types.ObjectId | null;
+  voided_at?: Date | null; // reversed, see payment.service reverse()
+  voided_by?: Types.ObjectId | null;
+  void_reason?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const allocationSchema = new Schema(
+  {
+    iuran: {
+      type: Schema.Types.ObjectId,
+      ref: IURAN_MODEL_NAME,
+      required: true,
+    },
+    period: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    amount: rupiahField({ default: 0 }),
+    denda: rupiahField({ default: 0 }),
+    remaining: rupiahField({ default: 0 }),
+  },
+  { _id: false }
+);
+
+const paymentSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    household: {
+      type: Schema.Types.ObjectId,
+      ref: HOUSEHOLD_MODEL_NAME,
+      default: null,
+    },
+    amount: rupiahField({ required: true }),
+    credit_used: rupiahField({ default: 0 }),
+    credit_added: rupiahField({ default: 0 }),
+    credit_balance_after: rupiahField(),
+    allocations: {
+      type: [allocationSchema],
+      default: [],
+    },
+    payment_date: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    payment_method: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    note: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    submitted_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    recorded_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    voided_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    voided_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    void_reason: {
+      type: Schema.Types.String,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+paymentSchema.index({ household: 1, payment_date: -1 });
+paymentSchema.index({ user: 1, payment_date: -1 });
+paymentSchema.index({ "allocations.iuran": 1 });
+
+const paymentModel = mongoose.model<Payment>(PAYMENT_MODEL_NAME, paymentSchema);
+
+export default paymentModel;
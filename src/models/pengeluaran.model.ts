@@ -1,5 +1,6 @@
 import mongoose, { Types } from "mongoose";
 import { USER_MODEL_NAME } from "./user.model";
+import { rupiahField } from "../utils/money";
 
 export const PENGELUARAN_MODEL_NAME = "Pengeluaran";
 
@@ -7,6 +8,7 @@ export interface PengeluaranItem {
   name: string;
   price: number;
   image_url?: string;
+  thumbnail_url?: string;
 }
 
 export interface Pengeluaran {
@@ -28,13 +30,13 @@ const pengeluaranItemSchema = new Schema(
       type: Schema.Types.String,
       required: true,
     },
-    price: {
-      type: Schema.Types.Number,
-      required: true,
-    },
+    price: rupiahField({ required: true }),
     image_url: {
       type: Schema.Types.String,
     },
+    thumbnail_url: {
+      type: Schema.Types.String,
+    },
   },
   { _id: false }
 );
@@ -60,10 +62,7 @@ const pengeluaranSchema = new Schema(
         message: "At least one item is required",
       },
     },
-    total: {
-      type: Schema.Types.Number,
-      required: true,
-    },
+    total: rupiahField({ required: true }),
     created_by: {
       type: Schema.Types.ObjectId,
       ref: USER_MODEL_NAME,
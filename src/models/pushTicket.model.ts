@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+
+export const PUSH_TICKET_MODEL_NAME = "PushTicket";
+
+// Expo ticket of an accepted push. The delivery receipt can only be fetched
+// later, see notificationService.checkReceipts().
+export interface PushTicket {
+  ticket_id: string;
+  token: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const pushTicketSchema = new Schema(
+  {
+    ticket_id: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    token: {
+      type: Schema.Types.String,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Expo keeps receipts for a day, unchecked tickets are useless after that
+pushTicketSchema.index({ createdAt: 1 }, { expireAfterSeconds: 2 * 24 * 60 * 60 });
+
+const pushTicketModel = mongoose.model<PushTicket>(
+  PUSH_TICKET_MODEL_NAME,
+  pushTicketSchema
+);
+
+export default pushTicketModel;
@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+export const RATE_LIMIT_MODEL_NAME = "RateLimit";
+
+export interface RateLimit {
+  key: string; // <name>:<client>:<window start>
+  count: number;
+  expires_at: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const rateLimitSchema = new Schema({
+  key: {
+    type: Schema.Types.String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Schema.Types.Number,
+    default: 0,
+  },
+  expires_at: {
+    type: Schema.Types.Date,
+    required: true,
+  },
+});
+
+// Counters are dropped by MongoDB once their window is over
+rateLimitSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+const rateLimitModel = mongoose.model<RateLimit>(
+  RATE_LIMIT_MODEL_NAME,
+  rateLimitSchema
+);
+
+export default rateLimitModel;
@@ -0,0 +1,121 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { HOUSEHOLD_MODEL_NAME } from "./household.model";
+import { IURAN_MODEL_NAME } from "./iuran.model";
+import { PAYMENT_MODEL_NAME } from "./payment.model";
+
+export const RECEIPT_MODEL_NAME = "Receipt";
+
+// An issued kwitansi. The content is frozen at issue time so downloading it
+// again gives the same document and number.
+export interface Receipt {
+  number: string; // RCP/<year>/<6 digit sequence>
+  year: number;
+  sequence: number;
+  payment?: Types.ObjectId | null; // receipts for a payment
+  iuran: Types.ObjectId[]; // receipts for a set of paid iuran
+  iuran_key?: string | null; // sorted iuran ids of a live receipt without payment
+  user: Types.ObjectId;
+  household?: Types.ObjectId | null;
+  verify_token: string; // secret part of the public verify link
+  data: Record<string, any>; // receipt content as rendered on the PDF
+  file_name?: string | null;
+  issued_by?: Types.ObjectId | null;
+  voided_at?: Date | null; // printed as BATAL from then on
+  voided_by?: Types.ObjectId | null;
+  void_reason?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const receiptSchema = new Schema(
+  {
+    number: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    year: {
+      type: Schema.Types.Number,
+      required: true,
+    },
+    sequence: {
+      type: Schema.Types.Number,
+      required: true,
+    },
+    payment: {
+      type: Schema.Types.ObjectId,
+      ref: PAYMENT_MODEL_NAME,
+      default: null,
+    },
+    iuran: {
+      type: [{ type: Schema.Types.ObjectId, ref: IURAN_MODEL_NAME }],
+      default: [],
+    },
+    iuran_key: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    household: {
+      type: Schema.Types.ObjectId,
+      ref: HOUSEHOLD_MODEL_NAME,
+      default: null,
+    },
+    verify_token: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    file_name: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    issued_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    voided_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    voided_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    void_reason: {
+      type: Schema.Types.String,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+receiptSchema.index(
+  { payment: 1 },
+  { unique: true, partialFilterExpression: { payment: { $type: "objectId" } } }
+);
+// One live receipt per set of iuran paid before payments were recorded
+receiptSchema.index(
+  { iuran_key: 1 },
+  { unique: true, partialFilterExpression: { iuran_key: { $type: "string" } } }
+);
+receiptSchema.index({ iuran: 1 });
+receiptSchema.index({ household: 1, createdAt: -1 });
+receiptSchema.index({ user: 1, createdAt: -1 });
+
+const receiptModel = mongoose.model<Receipt>(RECEIPT_MODEL_NAME, receiptSchema);
+
+export default receiptModel;
@@ -0,0 +1,70 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { REMINDER_POLICY_MODEL_NAME } from "./reminderPolicy.model";
+import { rupiahField } from "../utils/money";
+
+export const REMINDER_LOG_MODEL_NAME = "ReminderLog";
+
+// A reminder sent to one user. Unique per policy, user and cycle, so a
+// policy reminds nobody twice in the same month.
+export interface ReminderLog {
+  policy: Types.ObjectId;
+  user: Types.ObjectId;
+  cycle: string; // period the reminder was sent in
+  periods: string[]; // unpaid periods it was about, empty for summaries
+  total: number;
+  title: string;
+  body: string;
+  sent_at: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const reminderLogSchema = new Schema(
+  {
+    policy: {
+      type: Schema.Types.ObjectId,
+      ref: REMINDER_POLICY_MODEL_NAME,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+    },
+    cycle: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    periods: {
+      type: [Schema.Types.String],
+      default: [],
+    },
+    total: rupiahField({ default: 0 }),
+    title: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    body: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    sent_at: {
+      type: Schema.Types.Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true }
+);
+
+reminderLogSchema.index({ policy: 1, user: 1, cycle: 1 }, { unique: true });
+reminderLogSchema.index({ cycle: 1, sent_at: -1 });
+
+const reminderLogModel = mongoose.model<ReminderLog>(
+  REMINDER_LOG_MODEL_NAME,
+  reminderLogSchema
+);
+
+export default reminderLogModel;
@@ -0,0 +1,96 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { REMINDER_AUDIENCE, ROLES } from "../utils/constants";
+
+export const REMINDER_POLICY_MODEL_NAME = "ReminderPolicy";
+
+// Arrears reminder sent once per cycle (month) from `day_of_month` on.
+// Debtor policies match warga by their number of unpaid periods up to the
+// current one; templates use the variables in reminder.service.
+export interface ReminderPolicy {
+  name: string;
+  enabled: boolean;
+  audience: REMINDER_AUDIENCE;
+  day_of_month: number;
+  min_periods: number;
+  max_periods?: number | null; // null means no upper limit
+  roles: ROLES[]; // recipients of PENGURUS summaries
+  top_n: number; // debtors listed in a PENGURUS summary
+  title_template: string;
+  body_template: string;
+  created_by?: Types.ObjectId | null;
+  updated_by?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const reminderPolicySchema = new Schema(
+  {
+    name: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    enabled: {
+      type: Schema.Types.Boolean,
+      default: true,
+    },
+    audience: {
+      type: Schema.Types.String,
+      enum: Object.values(REMINDER_AUDIENCE),
+      default: REMINDER_AUDIENCE.DEBTOR,
+    },
+    day_of_month: {
+      type: Schema.Types.Number,
+      min: 1,
+      max: 28,
+      required: true,
+    },
+    min_periods: {
+      type: Schema.Types.Number,
+      min: 1,
+      default: 1,
+    },
+    max_periods: {
+      type: Schema.Types.Number,
+      default: null,
+    },
+    roles: {
+      type: [Schema.Types.String],
+      enum: Object.values(ROLES),
+      default: [],
+    },
+    top_n: {
+      type: Schema.Types.Number,
+      min: 1,
+      default: 10,
+    },
+    title_template: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    body_template: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+const reminderPolicyModel = mongoose.model<ReminderPolicy>(
+  REMINDER_POLICY_MODEL_NAME,
+  reminderPolicySchema
+);
+
+export default reminderPolicyModel;
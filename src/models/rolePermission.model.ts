@@ -0,0 +1,45 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { PERMISSIONS, ROLES } from "../utils/constants";
+
+export const ROLE_PERMISSION_MODEL_NAME = "RolePermission";
+
+export interface RolePermission {
+  role: ROLES;
+  permissions: PERMISSIONS[];
+  updated_by?: Types.ObjectId | null;
+  updated_at?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const rolePermissionSchema = new Schema(
+  {
+    role: {
+      type: Schema.Types.String,
+      enum: Object.values(ROLES),
+      required: true,
+      unique: true,
+    },
+    permissions: {
+      type: [Schema.Types.String],
+      enum: Object.values(PERMISSIONS),
+      default: [],
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: "updated_at" },
+  }
+);
+
+const rolePermissionModel = mongoose.model<RolePermission>(
+  ROLE_PERMISSION_MODEL_NAME,
+  rolePermissionSchema
+);
+
+export default rolePermissionModel;
@@ -0,0 +1,78 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+
+export const SESSION_MODEL_NAME = "Session";
+
+export interface Session {
+  user: Types.ObjectId;
+  refresh_token_hash: string;
+  previous_refresh_token_hash?: string | null; // detects reuse of a rotated token
+  device_name?: string | null;
+  user_agent?: string | null;
+  ip?: string | null;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_reason?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const sessionSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      required: true,
+      index: true,
+    },
+    refresh_token_hash: {
+      type: Schema.Types.String,
+      required: true,
+      unique: true,
+    },
+    previous_refresh_token_hash: {
+      type: Schema.Types.String,
+      default: null,
+      index: true,
+    },
+    device_name: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    user_agent: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    ip: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    last_used_at: {
+      type: Schema.Types.Date,
+      default: Date.now,
+    },
+    expires_at: {
+      type: Schema.Types.Date,
+      required: true,
+    },
+    revoked_at: {
+      type: Schema.Types.Date,
+      default: null,
+    },
+    revoked_reason: {
+      type: Schema.Types.String,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// Let MongoDB clean up sessions 30 days after they expire
+sessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const sessionModel = mongoose.model<Session>(SESSION_MODEL_NAME, sessionSchema);
+
+export default sessionModel;
@@ -0,0 +1,70 @@
+import mongoose, { Types } from "mongoose";
+import { USER_MODEL_NAME } from "./user.model";
+import { rupiahField } from "../utils/money";
+
+export const TARIFF_MODEL_NAME = "Tariff";
+
+export type TariffScope = "default" | "user" | "address";
+
+export interface Tariff {
+  scope: TariffScope;
+  user?: Types.ObjectId | null; // scope "user"
+  address?: string | null; // scope "address" (matched case-insensitively)
+  amount: number;
+  is_exempt: boolean; // full exemption, no iuran is generated
+  effective_from: string; // YYYY-MM
+  effective_until?: string | null; // YYYY-MM, inclusive. null = open-ended
+  note?: string | null; // e.g. "Lansia", "Janda"
+  created_by?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const Schema = mongoose.Schema;
+
+const tariffSchema = new Schema(
+  {
+    scope: {
+      type: Schema.Types.String,
+      enum: ["default", "user", "address"],
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+      default: null,
+    },
+    address: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    amount: rupiahField({ required: true }),
+    is_exempt: {
+      type: Schema.Types.Boolean,
+      default: false,
+    },
+    effective_from: {
+      type: Schema.Types.String,
+      required: true,
+    },
+    effective_until: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    note: {
+      type: Schema.Types.String,
+      default: null,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: USER_MODEL_NAME,
+    },
+  },
+  { timestamps: true }
+);
+
+tariffSchema.index({ scope: 1, effective_from: -1 });
+
+const tariffModel = mongoose.model<Tariff>(TARIFF_MODEL_NAME, tariffSchema);
+
+export default tariffModel;
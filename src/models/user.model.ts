@@ -1,8 +1,9 @@
 import mongoose from "mongoose";
 import { z } from "zod";
 import { ROLES, USER_STATUS } from "../utils/constants";
-import { encrypt } from "../utils/encryption";
+import { hashPassword, isPasswordHash } from "../utils/encryption";
 import { UserDTO } from "../utils/zodSchema";
+import { rupiahField } from "../utils/money";
 
 export const USER_MODEL_NAME = "User";
 
@@ -55,6 +56,10 @@ const userSchema = new Schema(
     image_url: {
       type: Schema.Types.String,
     },
+    thumbnail_url: {
+      type: Schema.Types.String,
+    },
+    // Deprecated, devices are in deviceToken.model (see migrate:device-tokens)
     expoPushToken: {
       type: Schema.Types.String,
       default: null,
@@ -76,14 +81,24 @@ const userSchema = new Schema(
       type: Schema.Types.Date,
       default: null,
     },
+    household: {
+      type: Schema.Types.ObjectId,
+      ref: "Household", // HOUSEHOLD_MODEL_NAME, household.model imports this file
+      default: null,
+      index: true,
+    },
+    // Saldo titipan from overpaid iuran, only used while not in a household
+    credit_balance: rupiahField({ default: 0 }),
   },
   {
     timestamps: true,
   }
 );
 
-userSchema.pre("save", function () {
-  this.password = encrypt(this.password);
+userSchema.pre("save", async function () {
+  // Only hash plain passwords, saving an unrelated field must not re-hash the hash
+  if (!this.isModified("password") || isPasswordHash(this.password)) return;
+  this.password = await hashPassword(this.password);
 });
 
 userSchema.methods.toJSON = function () {
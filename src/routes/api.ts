@@ -5,66 +5,153 @@ import keuanganController from "../controller/keuangan.controller";
 import settingsController from "../controller/settings.controller";
 import aclMiddleware from "../middleware/acl.middleware";
 import authMiddleware from "../middleware/auth.middleware";
-import mediaMiddleware from "../middleware/media.middleware";
-import { ROLES } from "../utils/constants";
+import mediaMiddleware, { MEDIA_ALLOW } from "../middleware/media.middleware";
+import rateLimitMiddleware from "../middleware/rateLimit.middleware";
+import { PERMISSIONS } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
 import inventoryController from "../controller/inventory.controller";
+import inventoryLoanController from "../controller/inventoryLoan.controller";
 import eventController from "../controller/event.controller";
 import danaMasukController from "../controller/danaMasuk.controller";
+import tariffController from "../controller/tariff.controller";
+import auditLogController from "../controller/auditLog.controller";
+import permissionController from "../controller/permission.controller";
+import householdController from "../controller/household.controller";
+import dendaController from "../controller/denda.controller";
+import receiptController from "../controller/receipt.controller";
+import notificationController from "../controller/notification.controller";
+import announcementController from "../controller/announcement.controller";
+import jobController from "../controller/job.controller";
+import reminderController from "../controller/reminder.controller";
 
 const router = express.Router();
 
 //Auth
 router.post(
   "/auth/register",
-  mediaMiddleware.single("image_url"),
+  mediaMiddleware.single("image_url", MEDIA_ALLOW.IMAGE),
   authController.register
 );
-router.post("/auth/login", authController.login);
+router.post(
+  "/auth/login",
+  rateLimitMiddleware({ name: "login", windowMs: 15 * 60 * 1000, max: 30 }),
+  authController.login
+);
+router.post("/auth/refresh", authController.refresh);
+router.post(
+  "/auth/reset-password",
+  rateLimitMiddleware({ name: "reset-password", windowMs: 15 * 60 * 1000, max: 10 }),
+  authController.resetPassword
+);
+router.patch(
+  "/auth/password",
+  [
+    authMiddleware,
+    rateLimitMiddleware({
+      name: "change-password",
+      windowMs: 15 * 60 * 1000,
+      max: 10,
+      key: (req) => (req as IReqUser).user?.id?.toString(),
+    }),
+  ],
+  authController.changePassword
+);
+router.post("/auth/logout", authMiddleware, authController.logout);
 router.get("/auth/me", authMiddleware, authController.me);
 router.post("/auth/push-token", authMiddleware, authController.updatePushToken);
+router.delete("/auth/push-token", authMiddleware, authController.removePushToken);
+router.get("/auth/devices", authMiddleware, authController.devices);
 router.patch(
   "/auth/profile",
   authMiddleware,
-  mediaMiddleware.single("image_url"),
+  mediaMiddleware.single("image_url", MEDIA_ALLOW.IMAGE),
   authController.updateProfile
 );
-// Public: returns safe fields only. With ?full=true + auth token (admin/bendahara/etc): returns full data
+// Public: returns safe fields only. With ?full=true + auth token (user.read_full permission): returns full data
 router.get("/user", authController.findAll);
 // User Import/Export
 router.get("/user/template/download", authController.downloadTemplate);
 router.post(
   "/user/import",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
-  mediaMiddleware.single("file"),
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_IMPORT)],
+  mediaMiddleware.single("file", MEDIA_ALLOW.SPREADSHEET),
   authController.importUsers
 );
 router.get(
   "/user/export",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_EXPORT)],
   authController.exportUsers
 );
 router.delete(
   "/user/:id",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_DELETE)],
   authController.deleteUser
 );
 router.patch(
   "/user/:id",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
-  mediaMiddleware.single("image_url"),
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_WRITE)],
+  mediaMiddleware.single("image_url", MEDIA_ALLOW.IMAGE),
   authController.updateUser
 );
 router.patch(
   "/user/:id/status",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_WRITE)],
   authController.updateUserStatus
 );
+router.post(
+  "/user/:id/reset-code",
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_RESET_PASSWORD)],
+  authController.issueResetCode
+);
+router.post(
+  "/user/:id/revoke-sessions",
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_REVOKE_SESSIONS)],
+  authController.revokeUserSessions
+);
 router.post(
   "/user/:id/restore",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.USER_WRITE)],
   authController.restoreUser
 );
 
+// Household (Kartu Keluarga) - regular iuran is billed per household
+router.get("/household/me", authMiddleware, householdController.me);
+router.get(
+  "/household",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_READ)],
+  householdController.findAll
+);
+router.get(
+  "/household/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_READ)],
+  householdController.findOne
+);
+router.post(
+  "/household",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_WRITE)],
+  householdController.create
+);
+router.patch(
+  "/household/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_WRITE)],
+  householdController.update
+);
+router.delete(
+  "/household/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_WRITE)],
+  householdController.delete
+);
+router.post(
+  "/household/:id/members",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_WRITE)],
+  householdController.addMember
+);
+router.delete(
+  "/household/:id/members/:userId",
+  [authMiddleware, aclMiddleware(PERMISSIONS.HOUSEHOLD_WRITE)],
+  householdController.removeMember
+);
+
 //Iuran
 router.get("/iuran", authMiddleware, iuranController.findAll);
 router.get("/iuran/receipt", authMiddleware, iuranController.generateReceipt);
@@ -73,22 +160,68 @@ router.get(
   "/iuran/export",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.IURAN_EXPORT),
   ],
   iuranController.exportIuran
 );
 router.get("/iuran/status-summary/:period", iuranController.getStatusSummary);
+router.get(
+  "/iuran/payments",
+  [authMiddleware, aclMiddleware(PERMISSIONS.IURAN_RECORD)],
+  iuranController.findPayments
+);
+router.get(
+  "/iuran/payments/:id/receipt",
+  authMiddleware,
+  iuranController.generatePaymentReceipt
+);
 router.post(
   "/iuran/record-payment",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.IURAN_RECORD),
   ],
   iuranController.recordPayment
 );
+// Warga self-service payment submission with transfer proof
+router.post(
+  "/iuran/submit",
+  authMiddleware,
+  mediaMiddleware.single("proof_image_url", MEDIA_ALLOW.IMAGE),
+  iuranController.submitPayment
+);
+router.get(
+  "/iuran/review",
+  [
+    authMiddleware,
+    aclMiddleware(PERMISSIONS.IURAN_REVIEW),
+  ],
+  iuranController.getReviewQueue
+);
+router.post(
+  "/iuran/approve",
+  [
+    authMiddleware,
+    aclMiddleware(PERMISSIONS.IURAN_REVIEW),
+  ],
+  iuranController.approvePayment
+);
+router.post(
+  "/iuran/reject",
+  [
+    authMiddleware,
+    aclMiddleware(PERMISSIONS.IURAN_REVIEW),
+  ],
+  iuranController.rejectPayment
+);
+router.get(
+  "/iuran/arrears-ageing",
+  [authMiddleware, aclMiddleware(PERMISSIONS.IURAN_ARREARS_READ)],
+  dendaController.getArrearsAgeing
+);
 router.post(
   "/iuran/create-yearly",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.IURAN_GENERATE)],
   iuranController.createYearlyIuran
 );
 // Iuran Import/Export
@@ -96,24 +229,105 @@ router.post(
   "/iuran/import",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.IURAN_IMPORT),
   ],
-  mediaMiddleware.single("file"),
+  mediaMiddleware.single("file", MEDIA_ALLOW.SPREADSHEET),
   iuranController.importIuran
 );
 
+// Issued receipts (kwitansi), verify is public for the QR code
+router.get(
+  "/receipt/verify/:token",
+  rateLimitMiddleware({ name: "receipt-verify", windowMs: 15 * 60 * 1000, max: 60 }),
+  receiptController.verify
+);
+router.get("/receipt", authMiddleware, receiptController.findAll);
+router.get("/receipt/:id", authMiddleware, receiptController.findOne);
+router.post(
+  "/receipt/:id/void",
+  [authMiddleware, aclMiddleware(PERMISSIONS.IURAN_REVERSE)],
+  receiptController.void
+);
+
+// Pengumuman - feed and slug are public for the rt07-website
+router.get("/announcement/public", announcementController.publicFeed);
+router.get("/announcement/slug/:slug", announcementController.findBySlug);
+router.get(
+  "/announcement",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.findAll
+);
+router.get(
+  "/announcement/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.findOne
+);
+router.post(
+  "/announcement",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.create
+);
+router.patch(
+  "/announcement/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.update
+);
+router.post(
+  "/announcement/:id/publish",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.publish
+);
+router.delete(
+  "/announcement/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.ANNOUNCEMENT_WRITE)],
+  announcementController.delete
+);
+
+// Scheduled jobs: state, run history and manual runs
+router.get(
+  "/job",
+  [authMiddleware, aclMiddleware(PERMISSIONS.JOB_MANAGE)],
+  jobController.findAll
+);
+router.get(
+  "/job/:name/runs",
+  [authMiddleware, aclMiddleware(PERMISSIONS.JOB_MANAGE)],
+  jobController.runs
+);
+router.post(
+  "/job/:name/run",
+  [authMiddleware, aclMiddleware(PERMISSIONS.JOB_MANAGE)],
+  jobController.trigger
+);
+
+// Notification inbox of the logged in user
+router.get("/notification", authMiddleware, notificationController.findAll);
+router.get("/notification/unread-count", authMiddleware, notificationController.unreadCount);
+router.patch("/notification/read-all", authMiddleware, notificationController.markAllRead);
+router.patch("/notification/:id/read", authMiddleware, notificationController.markRead);
+
 
 // Laporan Keuangan (Financial Report) - Public
 router.get("/keuangan/laporan", keuanganController.getLaporanKeuangan);
+router.get("/keuangan/laporan/pdf", keuanganController.downloadLaporanPDF);
+// Buku Kas Umum (cash ledger with running balance)
+router.get(
+  "/keuangan/buku-kas",
+  [
+    authMiddleware,
+    aclMiddleware(PERMISSIONS.BUKU_KAS_READ),
+  ],
+  keuanganController.getBukuKas
+);
 
 // Pengeluaran (Expenses)
 router.post(
   "/pengeluaran",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.PENGELUARAN_CREATE),
   ],
-  mediaMiddleware.any(),
+  mediaMiddleware.any(MEDIA_ALLOW.IMAGE),
   keuanganController.createPengeluaran
 );
 router.get("/pengeluaran", keuanganController.getAllPengeluaran);
@@ -123,16 +337,16 @@ router.patch(
   "/pengeluaran/:id",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.PENGELUARAN_UPDATE),
   ],
-  mediaMiddleware.any(),
+  mediaMiddleware.any(MEDIA_ALLOW.IMAGE),
   keuanganController.updatePengeluaran
 );
 router.delete(
   "/pengeluaran/:id",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.PENGELUARAN_DELETE),
   ],
   keuanganController.deletePengeluaran
 );
@@ -142,27 +356,63 @@ router.get("/inventory", inventoryController.findAll);
 router.get("/inventory/:id", inventoryController.detail);
 router.post(
   "/inventory",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.RT])],
-  mediaMiddleware.single("image_url"),
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_WRITE)],
+  mediaMiddleware.single("image_url", MEDIA_ALLOW.IMAGE),
   inventoryController.create
 );
 router.patch(
   "/inventory/:id",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.RT])],
-  mediaMiddleware.single("image_url"),
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_WRITE)],
+  mediaMiddleware.single("image_url", MEDIA_ALLOW.IMAGE),
   inventoryController.update
 );
 router.delete("/inventory/:id", [
   authMiddleware,
-  aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.RT]),
+  aclMiddleware(PERMISSIONS.INVENTORY_WRITE),
   inventoryController.delete,
 ]);
+router.get(
+  "/inventory/:id/movement",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_WRITE)],
+  inventoryController.movements
+);
+router.post(
+  "/inventory/:id/movement",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_WRITE)],
+  inventoryController.recordMovement
+);
+
+// Inventory loans - warga request and see their own, pengurus decide and hand over
+router.get("/inventory-loan", authMiddleware, inventoryLoanController.findAll);
+router.get("/inventory-loan/:id", authMiddleware, inventoryLoanController.findOne);
+router.post("/inventory-loan", authMiddleware, inventoryLoanController.create);
+router.patch("/inventory-loan/:id/cancel", authMiddleware, inventoryLoanController.cancel);
+router.patch(
+  "/inventory-loan/:id/approve",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_LOAN_MANAGE)],
+  inventoryLoanController.approve
+);
+router.patch(
+  "/inventory-loan/:id/reject",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_LOAN_MANAGE)],
+  inventoryLoanController.reject
+);
+router.patch(
+  "/inventory-loan/:id/checkout",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_LOAN_MANAGE)],
+  inventoryLoanController.checkout
+);
+router.patch(
+  "/inventory-loan/:id/return",
+  [authMiddleware, aclMiddleware(PERMISSIONS.INVENTORY_LOAN_MANAGE)],
+  inventoryLoanController.return
+);
 
 router.get(
   "/event",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_READ),
   ],
   eventController.findAll
 );
@@ -171,7 +421,7 @@ router.get(
   "/event/:id",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_READ),
   ],
   eventController.findOne
 );
@@ -179,7 +429,7 @@ router.post(
   "/event",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.create
 );
@@ -187,7 +437,7 @@ router.patch(
   "/event/:id",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.update
 );
@@ -195,7 +445,7 @@ router.delete(
   "/event/:id",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_DELETE),
   ],
   eventController.delete
 );
@@ -203,7 +453,7 @@ router.post(
   "/event/:id/donation",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.addDonation
 );
@@ -211,7 +461,7 @@ router.patch(
   "/event/:id/donation/:donationId",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.updateDonation
 );
@@ -219,7 +469,7 @@ router.delete(
   "/event/:id/donation/:donationId",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.deleteDonation
 );
@@ -227,16 +477,16 @@ router.post(
   "/event/:id/expense",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
-  mediaMiddleware.any(),
+  mediaMiddleware.any(MEDIA_ALLOW.IMAGE),
   eventController.addExpense
 );
 router.patch(
   "/event/:id/expense/:expenseId",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.updateExpense
 );
@@ -244,15 +494,23 @@ router.delete(
   "/event/:id/expense/:expenseId",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.deleteExpense
 );
+router.put(
+  "/event/:id/budget",
+  [
+    authMiddleware,
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
+  ],
+  eventController.updateBudget
+);
 router.post(
   "/event/:id/complete",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_WRITE),
   ],
   eventController.completeEvent
 );
@@ -260,7 +518,7 @@ router.get(
   "/event/:id/download-report",
   [
     authMiddleware,
-    aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA, ROLES.SEKRETARIS]),
+    aclMiddleware(PERMISSIONS.EVENT_READ),
   ],
   eventController.downloadEventReport
 );
@@ -269,30 +527,135 @@ router.get(
 router.get("/dana-masuk", danaMasukController.findAll);
 router.post(
   "/dana-masuk",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN, ROLES.BENDAHARA])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.DANA_MASUK_CREATE)],
   danaMasukController.create
 );
 router.delete(
   "/dana-masuk/:id",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.DANA_MASUK_DELETE)],
   danaMasukController.delete
 );
 
 // Settings (Admin only)
 router.get(
   "/settings",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
   settingsController.getAll
 );
 router.get(
   "/settings/initial-balance",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
   settingsController.getInitialBalance
 );
 router.patch(
   "/settings/initial-balance",
-  [authMiddleware, aclMiddleware([ROLES.ADMIN])],
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
   settingsController.updateInitialBalance
 );
+// Iuran tariff schedule & per-household overrides (Admin only)
+router.get(
+  "/settings/tariff",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  tariffController.findAll
+);
+router.get(
+  "/settings/tariff/resolve",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  tariffController.resolve
+);
+router.post(
+  "/settings/tariff",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  tariffController.create
+);
+router.patch(
+  "/settings/tariff/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  tariffController.update
+);
+router.delete(
+  "/settings/tariff/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  tariffController.delete
+);
+// Late payment penalty (denda) rule
+router.get(
+  "/settings/denda",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  dendaController.getRule
+);
+router.patch(
+  "/settings/denda",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  dendaController.updateRule
+);
+
+// Event expense categories
+router.get(
+  "/settings/event-categories",
+  [authMiddleware, aclMiddleware(PERMISSIONS.EVENT_READ)],
+  eventController.getCategories
+);
+router.put(
+  "/settings/event-categories",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  eventController.updateCategories
+);
+
+// Arrears reminder policies and the reminders they sent
+router.get(
+  "/settings/reminder-policy",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  reminderController.findAll
+);
+router.get(
+  "/settings/reminder-policy/logs",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  reminderController.logs
+);
+router.get(
+  "/settings/reminder-policy/:id/preview",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_READ)],
+  reminderController.preview
+);
+router.post(
+  "/settings/reminder-policy",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  reminderController.create
+);
+router.patch(
+  "/settings/reminder-policy/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  reminderController.update
+);
+router.delete(
+  "/settings/reminder-policy/:id",
+  [authMiddleware, aclMiddleware(PERMISSIONS.SETTINGS_WRITE)],
+  reminderController.delete
+);
+
+// Audit log (Admin only)
+router.get(
+  "/audit-log",
+  [authMiddleware, aclMiddleware(PERMISSIONS.AUDIT_READ)],
+  auditLogController.findAll
+);
+
+// Role -> permission mapping (Admin only)
+router.get(
+  "/settings/permissions",
+  [authMiddleware, aclMiddleware(PERMISSIONS.PERMISSION_MANAGE)],
+  permissionController.findAll
+);
+router.put(
+  "/settings/permissions/:role",
+  [authMiddleware, aclMiddleware(PERMISSIONS.PERMISSION_MANAGE)],
+  permissionController.updateRole
+);
+router.delete(
+  "/settings/permissions/:role",
+  [authMiddleware, aclMiddleware(PERMISSIONS.PERMISSION_MANAGE)],
+  permissionController.resetRole
+);
 
 export default router;
@@ -0,0 +1,37 @@
+import connect from "../utils/database";
+import paymentModel from "../models/payment.model";
+import receiptModel from "../models/receipt.model";
+import receiptService from "../services/receipt.service";
+
+// Issues receipts for payments that have none, oldest payment first, so the
+// numbers follow the order payments were made. Payments recorded before
+// receipts were issued with the payment have no saved credit balance, their
+// receipts leave it out. Safe to run multiple times.
+
+async function issuePaymentReceipts() {
+  try {
+    await connect();
+    console.log("Connected to database");
+
+    const issued = await receiptModel.distinct("payment", { payment: { $ne: null } });
+    const payments = await paymentModel
+      .find({ _id: { $nin: issued } })
+      .select("_id recorded_by")
+      .sort({ payment_date: 1, createdAt: 1 })
+      .lean();
+    console.log(`Found ${payments.length} payments without a receipt`);
+
+    for (const payment of payments) {
+      const receipt = await receiptService.forPayment(payment._id, payment.recorded_by);
+      console.log(`${receipt.number} -> payment ${payment._id}`);
+    }
+
+    console.log("\n✅ Migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+issuePaymentReceipts();
@@ -0,0 +1,49 @@
+import connect from "../utils/database";
+import userModel from "../models/user.model";
+import deviceTokenModel from "../models/deviceToken.model";
+
+// Copies the single User.expoPushToken into the device token collection.
+// Safe to run multiple times: tokens that are already registered are kept.
+
+async function migrateDeviceTokens() {
+  try {
+    await connect();
+    console.log("Connected to database");
+
+    const users = await userModel
+      .find({ expoPushToken: { $nin: [null, ""] } })
+      .select("_id expoPushToken updatedAt")
+      .lean();
+    console.log(`Found ${users.length} users with a push token`);
+
+    let created = 0;
+    for (const user of users) {
+      const result = await deviceTokenModel.updateOne(
+        { token: user.expoPushToken },
+        {
+          $setOnInsert: {
+            user: user._id,
+            token: user.expoPushToken,
+            last_seen_at: user.updatedAt ?? new Date(),
+          },
+        },
+        { upsert: true }
+      );
+      created += result.upsertedCount;
+    }
+
+    const cleared = await userModel.updateMany(
+      { expoPushToken: { $nin: [null, ""] } },
+      { expoPushToken: null }
+    );
+
+    console.log(`Registered ${created} devices, cleared ${cleared.modifiedCount} user tokens`);
+    console.log("\n✅ Migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+migrateDeviceTokens();
@@ -0,0 +1,64 @@
+import connect from "../utils/database";
+import inventoryModel from "../models/inventory.model";
+import inventoryMovementModel from "../models/inventoryMovement.model";
+import { INVENTORY_CONDITION, INVENTORY_MOVEMENT_TYPE } from "../utils/constants";
+
+// Converts the free text Inventory.quantity ("10", "10 buah") to a number,
+// counts every unit as in good condition and records it as the initial
+// stock movement. Safe to run multiple times: items that already have a
+// condition are left alone.
+
+async function migrateInventoryStock() {
+  try {
+    await connect();
+    console.log("Connected to database");
+
+    const items = await inventoryModel.collection
+      .find({ condition: { $exists: false } })
+      .project({ _id: 1, name: 1, quantity: 1, createdBy: 1 })
+      .toArray();
+    console.log(`Found ${items.length} inventory items to convert`);
+
+    let converted = 0;
+    for (const item of items) {
+      const parsed = parseInt(String(item.quantity ?? ""), 10);
+      const quantity = Number.isNaN(parsed) || parsed < 0 ? 0 : parsed;
+      if (String(item.quantity).trim() !== String(quantity)) {
+        console.warn(`⚠️  ${item.name}: quantity "${item.quantity}" read as ${quantity}`);
+      }
+
+      const result = await inventoryModel.collection.updateOne(
+        { _id: item._id, condition: { $exists: false } },
+        {
+          $set: {
+            quantity,
+            condition: { baik: quantity, rusak_ringan: 0, rusak_berat: 0 },
+          },
+        }
+      );
+      if (result.modifiedCount === 0 || quantity === 0) continue;
+
+      await inventoryMovementModel.create({
+        inventory: item._id,
+        type: INVENTORY_MOVEMENT_TYPE.INITIAL,
+        quantity,
+        change: quantity,
+        condition_to: INVENTORY_CONDITION.BAIK,
+        quantity_after: quantity,
+        condition_after: { baik: quantity, rusak_ringan: 0, rusak_berat: 0 },
+        reason: `Stok awal dari data lama ("${item.quantity}")`,
+        created_by: item.createdBy ?? null,
+      });
+      converted++;
+    }
+
+    console.log(`Converted ${converted} items with stock`);
+    console.log("\n✅ Migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+migrateInventoryStock();
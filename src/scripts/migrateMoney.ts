@@ -0,0 +1,138 @@
+import connect from "../utils/database";
+import iuranModel from "../models/iuran.model";
+import eventModel from "../models/event.model";
+import pengeluaranModel from "../models/pengeluaran.model";
+import danaMasukModel from "../models/danaMasuk.model";
+
+// Converts money stored as strings (iuran, event donations/expenses/totals)
+// to whole rupiah numbers, and rounds numbers that have a fraction.
+// Safe to run multiple times: converted documents are left alone.
+
+const NUMERIC_STRING = /^\s*\d+(\.\d+)?\s*$/;
+
+// Whole rupiah from a string or number field, 0 when it cannot be read
+const rupiah = (field: string) => ({
+  $round: [{ $convert: { input: field, to: "double", onError: 0, onNull: 0 } }, 0],
+});
+
+const rupiahItems = (field: string) => ({
+  $map: {
+    input: { $ifNull: [field, []] },
+    as: "item",
+    in: { $mergeObjects: ["$$item", { amount: rupiah("$$item.amount") }] },
+  },
+});
+
+async function migrateMoney() {
+  try {
+    await connect();
+    console.log("Connected to database");
+
+    // Iuran amount
+    const unreadableIuran = await iuranModel.collection
+      .find({ amount: { $type: "string", $not: NUMERIC_STRING } })
+      .project({ _id: 1, period: 1, amount: 1 })
+      .toArray();
+    for (const iuran of unreadableIuran) {
+      console.warn(`⚠️  Iuran ${iuran._id} (${iuran.period}) has amount "${iuran.amount}", left as is`);
+    }
+
+    const iuranResult = await iuranModel.collection.updateMany(
+      { amount: { $type: "string", $regex: NUMERIC_STRING } },
+      [{ $set: { amount: rupiah("$amount") } }]
+    );
+    console.log(`Converted ${iuranResult.modifiedCount} iuran amounts`);
+
+    // Event amounts, totals are recalculated from the converted items
+    const events = await eventModel.collection.countDocuments({
+      $or: [
+        { total_donations: { $type: "string" } },
+        { total_expenses: { $type: "string" } },
+        { balance: { $type: "string" } },
+        { "donations.amount": { $type: "string" } },
+        { "expenses.amount": { $type: "string" } },
+        { "budget.amount": { $type: "string" } },
+      ],
+    });
+    const eventResult = await eventModel.collection.updateMany({}, [
+      {
+        $set: {
+          donations: rupiahItems("$donations"),
+          expenses: rupiahItems("$expenses"),
+          budget: rupiahItems("$budget"),
+        },
+      },
+      {
+        $set: {
+          total_donations: { $sum: "$donations.amount" },
+          total_expenses: { $sum: "$expenses.amount" },
+        },
+      },
+      { $set: { balance: { $subtract: ["$total_donations", "$total_expenses"] } } },
+    ]);
+    console.log(`Converted ${events} events (${eventResult.modifiedCount} updated)`);
+
+    // Numeric fields that may still hold fractions
+    const fractional = (field: string) => ({
+      $expr: { $ne: [`$${field}`, { $round: [`$${field}`, 0] }] },
+    });
+
+    const pengeluaranResult = await pengeluaranModel.collection.updateMany(
+      {
+        $or: [
+          fractional("total"),
+          {
+            $expr: {
+              $anyElementTrue: [
+                {
+                  $map: {
+                    input: "$items",
+                    as: "item",
+                    in: { $ne: ["$$item.price", { $round: ["$$item.price", 0] }] },
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      [
+        {
+          $set: {
+            total: { $round: ["$total", 0] },
+            items: {
+              $map: {
+                input: "$items",
+                as: "item",
+                in: { $mergeObjects: ["$$item", { price: { $round: ["$$item.price", 0] } }] },
+              },
+            },
+          },
+        },
+      ]
+    );
+    console.log(`Rounded ${pengeluaranResult.modifiedCount} pengeluaran`);
+
+    const danaMasukResult = await danaMasukModel.collection.updateMany(
+      fractional("nominal"),
+      [{ $set: { nominal: { $round: ["$nominal", 0] } } }]
+    );
+    console.log(`Rounded ${danaMasukResult.modifiedCount} dana masuk`);
+
+    console.log("\n✅ Migration completed successfully!");
+    if (
+      iuranResult.modifiedCount ||
+      eventResult.modifiedCount ||
+      pengeluaranResult.modifiedCount ||
+      danaMasukResult.modifiedCount
+    ) {
+      console.log("Run migrate:rebuild-ledger so the ledger uses the converted amounts.");
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+migrateMoney();
@@ -0,0 +1,100 @@
+import connect from "../utils/database";
+import ledgerModel from "../models/ledger.model";
+import iuranModel from "../models/iuran.model";
+import eventModel from "../models/event.model";
+import danaMasukModel from "../models/danaMasuk.model";
+import pengeluaranModel from "../models/pengeluaran.model";
+import paymentModel from "../models/payment.model";
+import receiptModel from "../models/receipt.model";
+import inventoryLoanModel from "../models/inventoryLoan.model";
+import ledgerService from "../services/ledger.service";
+import { IURAN_STATUS } from "../utils/constants";
+
+// Rebuilds the cash ledger from the source collections.
+// Safe to run multiple times: the ledger is cleared first.
+async function rebuildLedger() {
+  try {
+    await connect();
+    console.log("Connected to database");
+
+    const balanceBefore = await ledgerService.getBalance();
+
+    const deleteResult = await ledgerModel.deleteMany({});
+    console.log(`Cleared ${deleteResult.deletedCount} ledger entries`);
+
+    const paidIuran = await iuranModel
+      .find({ status: IURAN_STATUS.PAID, is_imported: { $ne: true } })
+      .lean();
+    for (const iuran of paidIuran) {
+      await ledgerService.syncIuran(iuran);
+    }
+    console.log(`Posted ${paidIuran.length} iuran`);
+
+    const payments = await paymentModel.find().lean();
+    const receipts = await receiptModel
+      .find({ payment: { $ne: null } })
+      .select("payment number")
+      .lean();
+    const receiptNumbers = new Map(
+      receipts.map((receipt) => [receipt.payment!.toString(), receipt.number])
+    );
+    let reversed = 0;
+    for (const payment of payments) {
+      await ledgerService.syncPayment(payment);
+      if (payment.voided_at) {
+        await ledgerService.syncPaymentReversal(
+          payment,
+          receiptNumbers.get(payment._id.toString())
+        );
+        reversed++;
+      }
+    }
+    console.log(`Posted ${payments.length} payments, ${reversed} reversed`);
+
+    const completedEvents = await eventModel
+      .find({ status: "completed" })
+      .lean();
+    for (const event of completedEvents) {
+      await ledgerService.syncEvent(event);
+    }
+    console.log(`Posted donations of ${completedEvents.length} completed events`);
+
+    const danaMasuk = await danaMasukModel.find().lean();
+    for (const dana of danaMasuk) {
+      await ledgerService.syncDanaMasuk(dana);
+    }
+    console.log(`Posted ${danaMasuk.length} dana masuk`);
+
+    const pengeluaran = await pengeluaranModel.find().lean();
+    for (const p of pengeluaran) {
+      await ledgerService.syncPengeluaran(p);
+    }
+    console.log(`Posted ${pengeluaran.length} pengeluaran`);
+
+    const rentedLoans = await inventoryLoanModel
+      .find({ rental_fee: { $gt: 0 }, checked_out_at: { $ne: null } })
+      .populate<{ inventory: { _id: any; name: string } | null }>("inventory", "name")
+      .lean();
+    for (const loan of rentedLoans) {
+      await ledgerService.syncInventoryLoan(
+        { ...loan, inventory: loan.inventory?._id ?? null },
+        loan.inventory?.name
+      );
+    }
+    console.log(`Posted rental fees of ${rentedLoans.length} inventory loans`);
+
+    const balanceAfter = await ledgerService.getBalance();
+    console.log("\n=== Rebuild Summary ===");
+    console.log(`Ledger entries: ${await ledgerModel.countDocuments()}`);
+    console.log(`Balance before rebuild: ${balanceBefore}`);
+    console.log(`Balance after rebuild: ${balanceAfter}`);
+
+    console.log("\n✅ Migration completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+rebuildLedger();
@@ -143,7 +143,7 @@ async function seed() {
         const iuranData: any = {
           user: warga._id,
           period,
-          amount: "50000",
+          amount: 50000,
           proof_image_url: "placeholder.jpg",
           status,
         };
@@ -0,0 +1,119 @@
+import { QueryFilter } from "mongoose";
+import announcementModel, { Announcement } from "../models/announcement.model";
+import householdModel from "../models/household.model";
+import userModel, { User } from "../models/user.model";
+import {
+  ANNOUNCEMENT_AUDIENCE,
+  ANNOUNCEMENT_STATUS,
+} from "../utils/constants";
+import notificationService from "./notification.service";
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Published, not expired and meant for the public feed
+export function publicFilter(now = new Date()): QueryFilter<Announcement> {
+  return {
+    status: ANNOUNCEMENT_STATUS.PUBLISHED,
+    is_public: true,
+    $or: [{ expires_at: null }, { expires_at: { $gt: now } }],
+  };
+}
+
+class AnnouncementService {
+  // Users the announcement is pushed to. Addresses match the user's own
+  // address or the address of their household, ignoring case.
+  async recipientFilter(
+    announcement: Pick<Announcement, "audience" | "audience_values">
+  ): Promise<QueryFilter<User>> {
+    const filter: Record<string, any> = { isDeleted: { $ne: true } };
+    const values = announcement.audience_values;
+
+    switch (announcement.audience) {
+      case ANNOUNCEMENT_AUDIENCE.ROLES:
+        filter.role = { $in: values };
+        break;
+      case ANNOUNCEMENT_AUDIENCE.STATUSES:
+        filter.status = { $in: values };
+        break;
+      case ANNOUNCEMENT_AUDIENCE.ADDRESSES: {
+        const patterns = values.map(
+          (address) => new RegExp(`^\\s*${escapeRegex(address.trim())}\\s*$`, "i")
+        );
+        const households = await householdModel
+          .find({ address: { $in: patterns } })
+          .select("_id")
+          .lean();
+        filter.$or = [
+          { address: { $in: patterns } },
+          { household: { $in: households.map((household) => household._id) } },
+        ];
+        break;
+      }
+    }
+    return filter;
+  }
+
+  // Marks the announcement published and pushes it to its audience. Only
+  // the call that makes the status change sends the push, so the scheduler
+  // and a manual publish never notify twice. Returns null when it was
+  // already published.
+  async publish(id: unknown, now = new Date()) {
+    const announcement = await announcementModel.findOneAndUpdate(
+      { _id: id, status: { $ne: ANNOUNCEMENT_STATUS.PUBLISHED } },
+      { status: ANNOUNCEMENT_STATUS.PUBLISHED, published_at: now },
+      { new: true }
+    );
+    if (!announcement) return null;
+
+    if (announcement.send_push) {
+      const users = await userModel
+        .find(await this.recipientFilter(announcement))
+        .select("_id")
+        .lean();
+
+      await notificationService.sendToUsers(
+        users.map((user) => user._id),
+        {
+          title: `📢 ${announcement.title}`,
+          body: announcement.body.length > 180
+            ? `${announcement.body.slice(0, 177)}...`
+            : announcement.body,
+          data: {
+            type: "announcement",
+            announcementId: announcement._id.toString(),
+            slug: announcement.slug,
+          },
+        }
+      );
+
+      announcement.pushed_count = users.length;
+      await announcement.save();
+    }
+
+    return announcement;
+  }
+
+  // Called by the scheduler, publishes every scheduled announcement that is due
+  async publishDue(now = new Date()): Promise<number> {
+    const due = await announcementModel
+      .find({
+        status: ANNOUNCEMENT_STATUS.SCHEDULED,
+        publish_at: { $lte: now },
+        $or: [{ expires_at: null }, { expires_at: { $gt: now } }],
+      })
+      .select("_id")
+      .lean();
+
+    let published = 0;
+    for (const announcement of due) {
+      try {
+        if (await this.publish(announcement._id, now)) published++;
+      } catch (error) {
+        console.error(`Failed to publish announcement ${announcement._id}:`, error);
+      }
+    }
+    return published;
+  }
+}
+
+export default new AnnouncementService();
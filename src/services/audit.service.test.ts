@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import userModel from "../models/user.model";
+import { ROLES } from "../utils/constants";
+import { snapshot } from "./audit.service";
+
+test("snapshot redacts secrets of a user document", () => {
+  const user = new userModel({
+    email: "budi@warga.rt",
+    username: "Budi Santoso",
+    password: "scrypt$1$00$11",
+    role: ROLES.WARGA,
+    expoPushToken: "ExponentPushToken[abc]",
+  });
+
+  const result = snapshot(user)!;
+
+  assert.equal(result.username, "Budi Santoso");
+  assert.equal(result.password, undefined);
+  assert.equal(result.expoPushToken, undefined);
+});
+
+test("snapshot redacts secrets nested in plain objects", () => {
+  const result = snapshot({
+    members: [{ username: "Siti", password: "x", expoPushToken: "y" }],
+    session: { refresh_token_hash: "a", previous_refresh_token_hash: "b" },
+  })!;
+
+  assert.deepEqual(result, { members: [{ username: "Siti" }], session: {} });
+});
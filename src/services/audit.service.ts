@@ -0,0 +1,72 @@
+import { Types } from "mongoose";
+import auditLogModel from "../models/auditLog.model";
+import { AUDIT_ACTIONS, AUDIT_ENTITY } from "../utils/constants";
+import { IReqUser } from "../utils/interface";
+
+// Never persisted in snapshots, at any depth (populated documents included)
+const SENSITIVE_FIELDS = [
+  "password",
+  "expoPushToken",
+  "refresh_token_hash",
+  "previous_refresh_token_hash",
+  "code_hash",
+];
+
+function redact(value: any): void {
+  if (Array.isArray(value)) {
+    value.forEach(redact);
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+
+  for (const field of SENSITIVE_FIELDS) {
+    delete value[field];
+  }
+  Object.values(value).forEach(redact);
+}
+
+export interface AuditEntry {
+  action: AUDIT_ACTIONS;
+  entity_type: AUDIT_ENTITY;
+  entity_id?: Types.ObjectId | string | null;
+  parent_id?: Types.ObjectId | string | null;
+  summary?: string;
+  before?: any;
+  after?: any;
+}
+
+// Plain JSON copy of a document/object without secrets
+export function snapshot(value: any): Record<string, any> | null {
+  if (value === null || value === undefined) return null;
+
+  const plain =
+    typeof value.toObject === "function" ? value.toObject() : value;
+  const copy = JSON.parse(JSON.stringify(plain));
+  redact(copy);
+
+  return copy;
+}
+
+class AuditService {
+  // Audit failures are logged but never fail the request that was audited
+  async record(req: IReqUser, entry: AuditEntry): Promise<void> {
+    try {
+      await auditLogModel.create({
+        actor: req.user?.id || null,
+        actor_role: req.user?.role || null,
+        action: entry.action,
+        entity_type: entry.entity_type,
+        entity_id: entry.entity_id?.toString() || null,
+        parent_id: entry.parent_id?.toString() || null,
+        summary: entry.summary || null,
+        before: snapshot(entry.before),
+        after: snapshot(entry.after),
+        ip: req.ip || null,
+      });
+    } catch (error) {
+      console.error("AUDIT LOG ERROR:", error);
+    }
+  }
+}
+
+export default new AuditService();
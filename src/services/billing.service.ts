@@ -0,0 +1,232 @@
+import { Types } from "mongoose";
+import householdModel from "../models/household.model";
+import iuranModel from "../models/iuran.model";
+import userModel from "../models/user.model";
+import { IURAN_STATUS } from "../utils/constants";
+
+type BilledUser = {
+  _id: Types.ObjectId;
+  username?: string;
+  address?: string | null;
+};
+
+type BilledHousehold = {
+  _id: Types.ObjectId;
+  kk_number?: string | null;
+  address: string;
+};
+
+// Who regular iuran is billed to: a household (billed to its head) or,
+// for users that are not in a household yet, the user alone.
+export interface BillingTarget {
+  user: BilledUser;
+  household: BilledHousehold | null;
+}
+
+class BillingService {
+  async getTarget(userId: Types.ObjectId | string): Promise<BillingTarget | null> {
+    const user = await userModel
+      .findById(userId)
+      .select("_id username address household")
+      .lean();
+    if (!user) return null;
+
+    if (user.household) {
+      const target = await this.getHouseholdTarget(user.household);
+      if (target) return target;
+    }
+
+    return { user, household: null };
+  }
+
+  async getHouseholdTarget(
+    householdId: Types.ObjectId | string
+  ): Promise<BillingTarget | null> {
+    const household = await householdModel
+      .findById(householdId)
+      .populate<{ head: BilledUser | null }>("head", "_id username address")
+      .lean();
+    if (!household || !household.head) return null;
+
+    return {
+      user: household.head,
+      household: {
+        _id: household._id,
+        kk_number: household.kk_number,
+        address: household.address,
+      },
+    };
+  }
+
+  // Target an existing iuran is billed to, even if the user moved household since
+  async targetOf(iuran: {
+    user: Types.ObjectId;
+    household?: Types.ObjectId | null;
+  }): Promise<BillingTarget | null> {
+    if (iuran.household) return this.getHouseholdTarget(iuran.household);
+
+    const user = await userModel
+      .findById(iuran.user)
+      .select("_id username address")
+      .lean();
+    return user ? { user, household: null } : null;
+  }
+
+  // Billing units for the users matching userQuery, each household only once
+  async listTargets(userQuery: Record<string, any>): Promise<BillingTarget[]> {
+    const users = await userModel
+      .find(userQuery)
+      .select("_id username address household")
+      .lean();
+
+    const householdIds = [
+      ...new Set(
+        users
+          .filter((user) => user.household)
+          .map((user) => user.household!.toString())
+      ),
+    ];
+
+    const households = await householdModel
+      .find({ _id: { $in: householdIds } })
+      .populate<{ head: BilledUser | null }>("head", "_id username address")
+      .lean();
+
+    const targets: BillingTarget[] = users
+      .filter((user) => !user.household)
+      .map((user) => ({ user, household: null }));
+
+    for (const household of households) {
+      if (!household.head) continue;
+      targets.push({
+        user: household.head,
+        household: {
+          _id: household._id,
+          kk_number: household.kk_number,
+          address: household.address,
+        },
+      });
+    }
+
+    return targets;
+  }
+
+  // Query matching the regular bills of a target
+  filter(target: BillingTarget): Record<string, any> {
+    return target.household
+      ? { household: target.household._id }
+      : { user: target.user._id, household: null };
+  }
+
+  // What the tariff resolver sees: address overrides follow the household address
+  tariffSubject(target: BillingTarget): { _id: Types.ObjectId; address?: string | null } {
+    return {
+      _id: target.user._id,
+      address: target.household?.address ?? target.user.address,
+    };
+  }
+
+  label(target: BillingTarget): string {
+    if (!target.household) return target.user.username || "";
+    const kk = target.household.kk_number ? `KK ${target.household.kk_number}` : "KK";
+    return `${kk} - ${target.user.username || ""}`;
+  }
+
+  async getCredit(target: BillingTarget): Promise<number> {
+    const holder = target.household
+      ? await householdModel.findById(target.household._id).select("credit_balance").lean()
+      : await userModel.findById(target.user._id).select("credit_balance").lean();
+    return holder?.credit_balance || 0;
+  }
+
+  // Adds credit, or takes it with a negative delta. Returns false when the
+  // balance is too low, so concurrent payments cannot spend the same credit.
+  async adjustCredit(target: BillingTarget, delta: number): Promise<boolean> {
+    if (delta === 0) return true;
+
+    const filter = delta < 0 ? { credit_balance: { $gte: -delta } } : {};
+    const result = target.household
+      ? await householdModel.updateOne(
+          { _id: target.household._id, ...filter },
+          { $inc: { credit_balance: delta } }
+        )
+      : await userModel.updateOne(
+          { _id: target.user._id, ...filter },
+          { $inc: { credit_balance: delta } }
+        );
+    return result.modifiedCount > 0;
+  }
+
+  // A user's own credit follows them into a household
+  async moveCreditToHousehold(
+    userId: Types.ObjectId | string,
+    householdId: Types.ObjectId
+  ): Promise<void> {
+    const user = await userModel.findOneAndUpdate(
+      { _id: userId, credit_balance: { $gt: 0 } },
+      { credit_balance: 0 }
+    );
+    if (!user?.credit_balance) return;
+
+    await householdModel.updateOne(
+      { _id: householdId },
+      { $inc: { credit_balance: user.credit_balance } }
+    );
+  }
+
+  // Households and users without household that still have credit
+  async listCreditTargets(): Promise<BillingTarget[]> {
+    const [users, households] = await Promise.all([
+      userModel
+        .find({ credit_balance: { $gt: 0 }, household: null, isDeleted: { $ne: true } })
+        .select("_id username address")
+        .lean(),
+      householdModel.find({ credit_balance: { $gt: 0 } }).select("_id").lean(),
+    ]);
+
+    const targets: BillingTarget[] = users.map((user) => ({ user, household: null }));
+    for (const household of households) {
+      const target = await this.getHouseholdTarget(household._id);
+      if (target) targets.push(target);
+    }
+    return targets;
+  }
+
+  // Creates missing UNPAID regular iuran, returns the periods created
+  async ensureIuran(
+    target: BillingTarget,
+    periods: string[],
+    resolveAmount: (user: { _id: Types.ObjectId; address?: string | null }, period: string) => number
+  ): Promise<string[]> {
+    const created: string[] = [];
+
+    for (const period of periods) {
+      const amount = resolveAmount(this.tariffSubject(target), period);
+      if (amount === 0) continue; // exempt
+
+      const exists = await iuranModel.exists({
+        ...this.filter(target),
+        period,
+        type: "regular",
+      });
+      if (exists) continue;
+
+      await iuranModel.create({
+        user: target.user._id,
+        household: target.household?._id ?? null,
+        period,
+        amount,
+        type: "regular",
+        status: IURAN_STATUS.UNPAID,
+        submitted_at: null,
+        confirmed_at: null,
+        confirmed_by: null,
+      });
+      created.push(period);
+    }
+
+    return created;
+  }
+}
+
+export default new BillingService();
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import dendaService, { DEFAULT_DENDA_RULE, DendaRule } from "./denda.service";
+
+const rule: DendaRule = {
+  ...DEFAULT_DENDA_RULE,
+  enabled: true,
+  type: "flat",
+  value: 5000,
+  due_day: 10,
+  grace_days: 5,
+};
+
+test("no denda within the grace days", () => {
+  assert.equal(dendaService.calculate(rule, 50000, "2026-03", new Date(2026, 2, 15)), 0);
+  assert.equal(dendaService.calculate(rule, 50000, "2026-03", new Date(2026, 2, 16)), 5000);
+});
+
+test("repeating denda is charged again every period and capped", () => {
+  const repeating = { ...rule, repeat_every_days: 30, max_per_period: 12000 };
+
+  assert.equal(dendaService.calculate(repeating, 50000, "2026-03", new Date(2026, 3, 14)), 5000);
+  assert.equal(dendaService.calculate(repeating, 50000, "2026-03", new Date(2026, 3, 15)), 10000);
+  assert.equal(dendaService.calculate(repeating, 50000, "2026-03", new Date(2026, 4, 20)), 12000);
+});
+
+test("percentage denda is rounded to whole rupiah", () => {
+  const percentage = { ...rule, type: "percentage" as const, value: 2.5 };
+
+  assert.equal(dendaService.calculate(percentage, 35000, "2026-03", new Date(2026, 2, 20)), 875);
+  assert.equal(dendaService.calculate(percentage, 35100, "2026-03", new Date(2026, 2, 20)), 878);
+});
+
+test("outstanding covers the amount first, then denda", () => {
+  const asOf = new Date(2026, 2, 20);
+
+  assert.deepEqual(
+    dendaService.outstanding(rule, { period: "2026-03", amount: 50000 }, asOf),
+    { amount: 50000, denda: 5000, assessed: 5000 }
+  );
+  assert.deepEqual(
+    dendaService.outstanding(rule, { period: "2026-03", amount: 50000, paid_amount: 52000 }, asOf),
+    { amount: 0, denda: 3000, assessed: 5000 }
+  );
+});
+
+test("outstanding keeps denda already assessed when the rule is turned off", () => {
+  const off = { ...rule, enabled: false };
+
+  assert.deepEqual(
+    dendaService.outstanding(off, { period: "2026-03", amount: 50000, denda: 5000 }, new Date()),
+    { amount: 50000, denda: 5000, assessed: 5000 }
+  );
+});
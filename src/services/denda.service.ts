@@ -0,0 +1,193 @@
+import { Types } from "mongoose";
+import iuranModel from "../models/iuran.model";
+import { IURAN_STATUS } from "../utils/constants";
+import { toPeriod } from "../utils/period";
+import { getSettingValue, SETTINGS_KEYS } from "./settings.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DendaRule {
+  enabled: boolean;
+  type: "flat" | "percentage";
+  value: number; // rupiah for flat, percent of the iuran amount for percentage
+  due_day: number; // day of the period's month the iuran falls due
+  grace_days: number; // days past the due date before denda applies
+  repeat_every_days: number | null; // charge again every N days while unpaid
+  max_per_period: number | null; // cap per period, null means no cap
+}
+
+// Matches the Jatuh Tempo reminder on the 10th. Denda is off until configured.
+export const DEFAULT_DENDA_RULE: DendaRule = {
+  enabled: false,
+  type: "flat",
+  value: 0,
+  due_day: 10,
+  grace_days: 0,
+  repeat_every_days: null,
+  max_per_period: null,
+};
+
+export const AGEING_BUCKETS = [
+  { label: "0-30", min: 0, max: 30 },
+  { label: "31-90", min: 31, max: 90 },
+  { label: "91-180", min: 91, max: 180 },
+  { label: "180+", min: 181, max: Infinity },
+] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number]["label"];
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { "0-30": 0, "31-90": 0, "91-180": 0, "180+": 0 };
+}
+
+function bucketOf(daysLate: number): AgeingBucket {
+  return AGEING_BUCKETS.find(
+    (bucket) => daysLate >= bucket.min && daysLate <= bucket.max
+  )!.label;
+}
+
+class DendaService {
+  async getRule(): Promise<DendaRule> {
+    const saved = await getSettingValue(SETTINGS_KEYS.DENDA_RULE, null);
+    return { ...DEFAULT_DENDA_RULE, ...(saved || {}) };
+  }
+
+  // Start of the due day, a payment made that day is on time
+  dueDate(rule: DendaRule, period: string): Date {
+    const [year, month] = period.split("-").map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+    return new Date(year, month - 1, Math.min(rule.due_day, lastDay));
+  }
+
+  // Whole days past the due date, negative while not yet due
+  daysLate(rule: DendaRule, period: string, asOf: Date): number {
+    return Math.floor((asOf.getTime() - this.dueDate(rule, period).getTime()) / DAY_MS);
+  }
+
+  // Denda owed for one period of `amount` when paid at `paidAt`
+  calculate(rule: DendaRule, amount: number, period: string, paidAt: Date): number {
+    if (!rule.enabled || !rule.value || !amount) return 0;
+
+    const lateDays = this.daysLate(rule, period, paidAt) - rule.grace_days;
+    if (lateDays <= 0) return 0;
+
+    const charges = rule.repeat_every_days
+      ? 1 + Math.floor((lateDays - 1) / rule.repeat_every_days)
+      : 1;
+    const perCharge =
+      rule.type === "percentage"
+        ? Math.round((amount * rule.value) / 100)
+        : rule.value;
+
+    // Whole rupiah even for rules saved before amounts were validated
+    const denda = Math.round(perCharge * charges);
+    return rule.max_per_period
+      ? Math.min(denda, Math.round(rule.max_per_period))
+      : denda;
+  }
+
+  // What is still owed on an iuran at `asOf`. Payments cover the amount first,
+  // then denda. `assessed` is the full denda charged so far.
+  outstanding(
+    rule: DendaRule,
+    iuran: { period: string; amount: number; denda?: number; paid_amount?: number },
+    asOf: Date
+  ): { amount: number; denda: number; assessed: number } {
+    const amount = iuran.amount;
+    const paid = iuran.paid_amount || 0;
+    const paidToAmount = Math.min(paid, amount);
+    const assessed = Math.max(
+      iuran.denda || 0,
+      this.calculate(rule, amount, iuran.period, asOf)
+    );
+
+    return {
+      amount: amount - paidToAmount,
+      denda: Math.max(assessed - (paid - paidToAmount), 0),
+      assessed,
+    };
+  }
+
+  // Unpaid iuran past their due date, grouped per household (or user without
+  // household) and bucketed by days past due
+  async getArrearsAgeing(asOf: Date) {
+    const rule = await this.getRule();
+
+    const unpaidIuran = await iuranModel
+      .find({
+        status: { $in: [IURAN_STATUS.UNPAID, IURAN_STATUS.REJECTED] },
+        period: { $lte: toPeriod(asOf) },
+      })
+      .populate("user", "username address phone_number")
+      .populate("household", "kk_number address")
+      .sort({ period: 1 })
+      .lean();
+
+    const rows = new Map<string, any>();
+    const totals = {
+      amount: emptyBuckets(),
+      count: emptyBuckets(),
+      total_amount: 0,
+      total_denda: 0,
+    };
+
+    for (const iuran of unpaidIuran as any[]) {
+      if (!iuran.user) continue;
+
+      const daysLate = this.daysLate(rule, iuran.period, asOf);
+      if (daysLate < 0) continue;
+
+      const { amount, denda } = this.outstanding(rule, iuran, asOf);
+      if (amount + denda <= 0) continue;
+      const bucket = bucketOf(daysLate);
+
+      const key = iuran.household
+        ? `household:${iuran.household._id.toString()}`
+        : `user:${iuran.user._id.toString()}`;
+      if (!rows.has(key)) {
+        rows.set(key, {
+          user: iuran.user,
+          household: iuran.household || null,
+          buckets: emptyBuckets(),
+          total_amount: 0,
+          total_denda: 0,
+          oldest_period: iuran.period,
+          max_days_late: 0,
+          items: [],
+        });
+      }
+
+      const row = rows.get(key);
+      row.buckets[bucket] += amount;
+      row.total_amount += amount;
+      row.total_denda += denda;
+      row.max_days_late = Math.max(row.max_days_late, daysLate);
+      row.items.push({
+        _id: iuran._id as Types.ObjectId,
+        period: iuran.period,
+        type: iuran.type,
+        status: iuran.status,
+        amount,
+        denda,
+        days_late: daysLate,
+        bucket,
+      });
+
+      totals.amount[bucket] += amount;
+      totals.count[bucket] += 1;
+      totals.total_amount += amount;
+      totals.total_denda += denda;
+    }
+
+    return {
+      as_of: asOf,
+      rule,
+      totals,
+      rows: Array.from(rows.values()).sort(
+        (a, b) => b.max_days_late - a.max_days_late || b.total_amount - a.total_amount
+      ),
+    };
+  }
+}
+
+export default new DendaService();
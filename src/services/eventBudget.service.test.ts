@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import eventBudgetService from "./eventBudget.service";
+
+const expense = (category: string, amount: number) => ({ category, amount }) as any;
+
+const event = {
+  budget: [
+    { category: "KONSUMSI", amount: 500000 },
+    { category: "LOMBA", amount: 300000 },
+  ],
+  expenses: [expense("KONSUMSI", 200000), expense("KONSUMSI", 150000), expense("HIBURAN", 100000)],
+} as any;
+
+test("summarize compares planned and actual per category", () => {
+  const summary = eventBudgetService.summarize(event);
+
+  assert.deepEqual(summary.lines, [
+    { category: "KONSUMSI", planned: 500000, actual: 350000, remaining: 150000, over_budget: false },
+    { category: "LOMBA", planned: 300000, actual: 0, remaining: 300000, over_budget: false },
+    // spending without a budget line counts as planned 0
+    { category: "HIBURAN", planned: 0, actual: 100000, remaining: -100000, over_budget: true },
+  ]);
+  assert.equal(summary.total_planned, 800000);
+  assert.equal(summary.total_actual, 450000);
+  assert.equal(summary.total_remaining, 350000);
+});
+
+test("summarize handles an event without budget or expenses", () => {
+  assert.deepEqual(eventBudgetService.summarize({ budget: [], expenses: [] } as any), {
+    lines: [],
+    total_planned: 0,
+    total_actual: 0,
+    total_remaining: 0,
+  });
+});
+
+test("only the expense that crosses the budget warns", () => {
+  const crossing = expense("LOMBA", 350000);
+  const after = { ...event, expenses: [...event.expenses, crossing] };
+  assert.match(eventBudgetService.warningFor(after, crossing)!, /Anggaran LOMBA terlampaui/);
+
+  const next = expense("LOMBA", 10000);
+  const later = { ...after, expenses: [...after.expenses, next] };
+  assert.equal(eventBudgetService.warningFor(later, next), null);
+
+  const within = event.expenses[1];
+  assert.equal(eventBudgetService.warningFor(event, within), null);
+});
@@ -0,0 +1,92 @@
+import { Event } from "../models/event.model";
+import { getSettingValue, SETTINGS_KEYS } from "./settings.service";
+
+// The categories events used before they became configurable
+export const DEFAULT_EVENT_CATEGORIES = ["HIBURAN", "LOMBA", "KONSUMSI", "LAINNYA"];
+
+export interface BudgetLine {
+  category: string;
+  planned: number;
+  actual: number;
+  remaining: number; // negative when over budget
+  over_budget: boolean;
+}
+
+export interface BudgetSummary {
+  lines: BudgetLine[];
+  total_planned: number;
+  total_actual: number;
+  total_remaining: number;
+}
+
+class EventBudgetService {
+  async getCategories(): Promise<string[]> {
+    const saved = await getSettingValue(SETTINGS_KEYS.EVENT_CATEGORIES, null);
+    return Array.isArray(saved) && saved.length > 0 ? saved : DEFAULT_EVENT_CATEGORIES;
+  }
+
+  // Planned vs actual per category. Categories with spending but no budget
+  // line count as planned 0, so they always show as over budget.
+  summarize(event: Pick<Event, "budget" | "expenses">): BudgetSummary {
+    const lines = new Map<string, BudgetLine>();
+    const lineOf = (category: string) => {
+      if (!lines.has(category)) {
+        lines.set(category, {
+          category,
+          planned: 0,
+          actual: 0,
+          remaining: 0,
+          over_budget: false,
+        });
+      }
+      return lines.get(category)!;
+    };
+
+    for (const item of event.budget || []) {
+      lineOf(item.category).planned += item.amount;
+    }
+    for (const expense of event.expenses || []) {
+      lineOf(expense.category).actual += expense.amount;
+    }
+
+    for (const line of lines.values()) {
+      line.remaining = line.planned - line.actual;
+      line.over_budget = line.actual > line.planned;
+    }
+
+    const result = [...lines.values()];
+    const totalPlanned = result.reduce((sum, line) => sum + line.planned, 0);
+    const totalActual = result.reduce((sum, line) => sum + line.actual, 0);
+
+    return {
+      lines: result,
+      total_planned: totalPlanned,
+      total_actual: totalActual,
+      total_remaining: totalPlanned - totalActual,
+    };
+  }
+
+  // Warning when `expense`, already part of `event.expenses`, pushes its
+  // category over budget, null otherwise. A category that was over budget
+  // before this expense is not warned about again, so only the expense that
+  // crosses the budget warns. Events without any budget are not checked.
+  warningFor(
+    event: Pick<Event, "budget" | "expenses">,
+    expense: { category: string; amount: number }
+  ): string | null {
+    if (!event.budget || event.budget.length === 0) return null;
+
+    const category = expense.category;
+    const line = this.summarize(event).lines.find((item) => item.category === category);
+    if (!line || !line.over_budget) return null;
+    if (line.actual - expense.amount > line.planned) return null;
+
+    return line.planned === 0
+      ? `Kategori ${category} tidak memiliki anggaran (terpakai Rp ${line.actual.toLocaleString("id-ID")})`
+      : `Anggaran ${category} terlampaui Rp ${(-line.remaining).toLocaleString(
+          "id-ID"
+        )} (anggaran Rp ${line.planned.toLocaleString("id-ID")}, terpakai Rp ${line.actual.toLocaleString("id-ID")})`;
+  }
+}
+
+export default new EventBudgetService();
@@ -0,0 +1,176 @@
+import { HydratedDocument, Types } from "mongoose";
+import inventoryModel, { Inventory, InventoryConditionCounts } from "../models/inventory.model";
+import inventoryMovementModel, { InventoryMovement } from "../models/inventoryMovement.model";
+import pengeluaranModel from "../models/pengeluaran.model";
+import { INVENTORY_CONDITION, INVENTORY_MOVEMENT_TYPE } from "../utils/constants";
+
+export interface MovementInput {
+  type: INVENTORY_MOVEMENT_TYPE;
+  quantity: number; // negative only for corrections
+  condition_from?: INVENTORY_CONDITION;
+  condition_to?: INVENTORY_CONDITION;
+  reason: string;
+  pengeluaran?: string | Types.ObjectId;
+}
+
+// Worse condition, higher rank
+const CONDITION_RANK: Record<INVENTORY_CONDITION, number> = {
+  [INVENTORY_CONDITION.BAIK]: 0,
+  [INVENTORY_CONDITION.RUSAK_RINGAN]: 1,
+  [INVENTORY_CONDITION.RUSAK_BERAT]: 2,
+};
+
+const CONDITION_LABEL: Record<INVENTORY_CONDITION, string> = {
+  [INVENTORY_CONDITION.BAIK]: "baik",
+  [INVENTORY_CONDITION.RUSAK_RINGAN]: "rusak ringan",
+  [INVENTORY_CONDITION.RUSAK_BERAT]: "rusak berat",
+};
+
+export function conditionOf(inventory: Pick<Inventory, "condition">): InventoryConditionCounts {
+  return {
+    baik: inventory.condition?.baik || 0,
+    rusak_ringan: inventory.condition?.rusak_ringan || 0,
+    rusak_berat: inventory.condition?.rusak_berat || 0,
+  };
+}
+
+// Units that can be used and lent out: everything not badly damaged
+export function usableOf(inventory: Pick<Inventory, "condition">): number {
+  const condition = conditionOf(inventory);
+  return condition.baik + condition.rusak_ringan;
+}
+
+export function availableOf(inventory: Pick<Inventory, "condition" | "on_loan">): number {
+  return Math.max(usableOf(inventory) - (inventory.on_loan || 0), 0);
+}
+
+// Where the units of a movement come from and go to
+function directionOf(
+  input: MovementInput
+): { from: INVENTORY_CONDITION | null; to: INVENTORY_CONDITION | null } | string {
+  const { type, condition_from, condition_to } = input;
+
+  switch (type) {
+    case INVENTORY_MOVEMENT_TYPE.INITIAL:
+    case INVENTORY_MOVEMENT_TYPE.PURCHASE:
+      return { from: null, to: condition_to ?? INVENTORY_CONDITION.BAIK };
+    case INVENTORY_MOVEMENT_TYPE.LOSS:
+      return { from: condition_from ?? INVENTORY_CONDITION.BAIK, to: null };
+    case INVENTORY_MOVEMENT_TYPE.DISPOSAL:
+      return { from: condition_from ?? INVENTORY_CONDITION.RUSAK_BERAT, to: null };
+    case INVENTORY_MOVEMENT_TYPE.DAMAGE: {
+      const from = condition_from ?? INVENTORY_CONDITION.BAIK;
+      const to = condition_to ?? INVENTORY_CONDITION.RUSAK_RINGAN;
+      if (CONDITION_RANK[to] <= CONDITION_RANK[from]) {
+        return "damage must move units to a worse condition";
+      }
+      return { from, to };
+    }
+    case INVENTORY_MOVEMENT_TYPE.REPAIR: {
+      const from = condition_from ?? INVENTORY_CONDITION.RUSAK_RINGAN;
+      const to = condition_to ?? INVENTORY_CONDITION.BAIK;
+      if (CONDITION_RANK[to] >= CONDITION_RANK[from]) {
+        return "repair must move units to a better condition";
+      }
+      return { from, to };
+    }
+    case INVENTORY_MOVEMENT_TYPE.CORRECTION: {
+      const condition = condition_from ?? condition_to ?? INVENTORY_CONDITION.BAIK;
+      return input.quantity > 0 ? { from: null, to: condition } : { from: condition, to: null };
+    }
+  }
+}
+
+class InventoryService {
+  // Applies a stock movement and logs it. The inventory is only updated
+  // when nobody changed its stock meanwhile, and never below what is out on
+  // loan. Returns the movement or an error message.
+  async recordMovement(
+    inventoryId: string | Types.ObjectId,
+    input: MovementInput,
+    by?: string | Types.ObjectId | null
+  ): Promise<HydratedDocument<InventoryMovement> | string> {
+    const inventory = await inventoryModel.findById(inventoryId).lean();
+    if (!inventory) return "inventory not found";
+
+    if (input.pengeluaran) {
+      if (input.type !== INVENTORY_MOVEMENT_TYPE.PURCHASE) {
+        return "only purchases can be linked to a pengeluaran";
+      }
+      if (!(await pengeluaranModel.exists({ _id: input.pengeluaran }))) {
+        return "pengeluaran not found";
+      }
+    }
+
+    const direction = directionOf(input);
+    if (typeof direction === "string") return direction;
+    const { from, to } = direction;
+    const units = Math.abs(input.quantity);
+
+    const before = conditionOf(inventory);
+    const after = { ...before };
+    if (from) after[from] -= units;
+    if (to) after[to] += units;
+
+    if (from && after[from] < 0) {
+      return `only ${before[from]} ${inventory.name} in ${CONDITION_LABEL[from]} condition`;
+    }
+    const onLoan = inventory.on_loan || 0;
+    if (usableOf({ condition: after }) < onLoan) {
+      return `${onLoan} ${inventory.name} are on loan`;
+    }
+
+    const quantityAfter = after.baik + after.rusak_ringan + after.rusak_berat;
+    const updated = await inventoryModel.updateOne(
+      {
+        _id: inventory._id,
+        quantity: inventory.quantity,
+        "condition.baik": inventory.condition?.baik ?? { $in: [null, 0] },
+        "condition.rusak_ringan": inventory.condition?.rusak_ringan ?? { $in: [null, 0] },
+        "condition.rusak_berat": inventory.condition?.rusak_berat ?? { $in: [null, 0] },
+        on_loan: { $lte: usableOf({ condition: after }) },
+      },
+      { quantity: quantityAfter, condition: after }
+    );
+    if (updated.matchedCount === 0) {
+      return "inventory was changed meanwhile, try again";
+    }
+
+    return inventoryMovementModel.create({
+      inventory: inventory._id,
+      type: input.type,
+      quantity: units,
+      change: quantityAfter - inventory.quantity,
+      condition_from: from,
+      condition_to: to,
+      quantity_after: quantityAfter,
+      condition_after: after,
+      reason: input.reason,
+      pengeluaran: input.pengeluaran ?? null,
+      created_by: by ?? null,
+    });
+  }
+
+  async movements(
+    inventoryId: string | Types.ObjectId,
+    options: { page: number; limit: number; type?: string }
+  ) {
+    const query: Record<string, any> = { inventory: inventoryId };
+    if (options.type) query.type = options.type;
+
+    const [items, total] = await Promise.all([
+      inventoryMovementModel
+        .find(query)
+        .populate("created_by", "username")
+        .populate("pengeluaran", "title slug total")
+        .sort({ createdAt: -1 })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit)
+        .lean(),
+      inventoryMovementModel.countDocuments(query),
+    ]);
+    return { items, total };
+  }
+}
+
+export default new InventoryService();
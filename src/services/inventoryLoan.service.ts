@@ -0,0 +1,143 @@
+import { HydratedDocument, Types } from "mongoose";
+import inventoryModel from "../models/inventory.model";
+import inventoryLoanModel, { InventoryLoan } from "../models/inventoryLoan.model";
+import { INVENTORY_LOAN_STATUS } from "../utils/constants";
+import { availableOf, usableOf } from "./inventory.service";
+import ledgerService from "./ledger.service";
+import notificationService from "./notification.service";
+
+type Loan = InventoryLoan & { _id: Types.ObjectId };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between overdue reminders for the same loan
+const OVERDUE_REMINDER_INTERVAL_DAYS = 3;
+
+class InventoryLoanService {
+  // Hands the items of an approved loan over. Units are taken from the
+  // inventory atomically, the rental fee is booked as income. Returns the
+  // updated loan or an error message.
+  async checkout(
+    loan: Loan,
+    by: Types.ObjectId | string
+  ): Promise<HydratedDocument<InventoryLoan> | string> {
+    if (loan.status !== INVENTORY_LOAN_STATUS.APPROVED) {
+      return "only approved loans can be checked out";
+    }
+
+    const inventory = await inventoryModel.findById(loan.inventory).lean();
+    if (!inventory) return "inventory not found";
+
+    const available = availableOf(inventory);
+    if (available < loan.quantity) {
+      return `only ${available} ${inventory.name} available`;
+    }
+
+    // Fails when another checkout or a stock movement got in first
+    const reserved = await inventoryModel.updateOne(
+      {
+        _id: inventory._id,
+        "condition.baik": inventory.condition?.baik ?? { $in: [null, 0] },
+        "condition.rusak_ringan": inventory.condition?.rusak_ringan ?? { $in: [null, 0] },
+        on_loan: { $lte: usableOf(inventory) - loan.quantity },
+      },
+      { $inc: { on_loan: loan.quantity } }
+    );
+    if (reserved.modifiedCount === 0) {
+      return `${inventory.name} is no longer available, try again`;
+    }
+
+    const updated = await inventoryLoanModel.findOneAndUpdate(
+      { _id: loan._id, status: INVENTORY_LOAN_STATUS.APPROVED },
+      {
+        status: INVENTORY_LOAN_STATUS.CHECKED_OUT,
+        checked_out_at: new Date(),
+        checked_out_by: by,
+      },
+      { new: true }
+    );
+    if (!updated) {
+      await inventoryModel.updateOne(
+        { _id: inventory._id },
+        { $inc: { on_loan: -loan.quantity } }
+      );
+      return "loan was changed meanwhile, try again";
+    }
+
+    await ledgerService.syncInventoryLoan(updated, inventory.name);
+    return updated;
+  }
+
+  // Takes the items back and makes them available again
+  async returnLoan(
+    loan: Loan,
+    by: Types.ObjectId | string,
+    note?: string | null
+  ): Promise<HydratedDocument<InventoryLoan> | string> {
+    const updated = await inventoryLoanModel.findOneAndUpdate(
+      { _id: loan._id, status: INVENTORY_LOAN_STATUS.CHECKED_OUT },
+      {
+        status: INVENTORY_LOAN_STATUS.RETURNED,
+        returned_at: new Date(),
+        returned_by: by,
+        return_note: note || null,
+      },
+      { new: true }
+    );
+    if (!updated) return "only checked out loans can be returned";
+
+    await inventoryModel.updateOne({ _id: loan.inventory }, [
+      { $set: { on_loan: { $max: [{ $subtract: ["$on_loan", loan.quantity] }, 0] } } },
+    ]);
+
+    return updated;
+  }
+
+  // Daily job: pushes a reminder for loans past their due date, again every
+  // few days while they are still out. Outside borrowers have no account,
+  // the pengurus who handed the items over is reminded instead.
+  async remindOverdue(now = new Date()) {
+    const loans = await inventoryLoanModel
+      .find({
+        status: INVENTORY_LOAN_STATUS.CHECKED_OUT,
+        due_date: { $lt: now },
+        $or: [
+          { overdue_reminded_at: null },
+          {
+            overdue_reminded_at: {
+              $lte: new Date(now.getTime() - OVERDUE_REMINDER_INTERVAL_DAYS * DAY_MS),
+            },
+          },
+        ],
+      })
+      .populate("inventory", "name")
+      .lean();
+
+    let reminded = 0;
+    for (const loan of loans as any[]) {
+      const recipient = loan.borrower || loan.checked_out_by;
+      const itemName = loan.inventory?.name || "inventaris";
+      const daysLate = Math.max(Math.floor((now.getTime() - loan.due_date.getTime()) / DAY_MS), 1);
+
+      if (recipient) {
+        await notificationService.sendToUser(recipient, {
+          title: "⏰ Pengembalian Inventaris Terlambat",
+          body: loan.borrower
+            ? `${loan.quantity} ${itemName} sudah lewat ${daysLate} hari dari batas pengembalian. Mohon segera dikembalikan.`
+            : `${loan.quantity} ${itemName} yang dipinjam ${loan.borrower_name} sudah lewat ${daysLate} hari dari batas pengembalian.`,
+          data: {
+            type: "inventory_loan_overdue",
+            loanId: loan._id.toString(),
+          },
+        });
+        reminded++;
+      }
+
+      await inventoryLoanModel.updateOne({ _id: loan._id }, { overdue_reminded_at: now });
+    }
+
+    return { overdue: loans.length, reminded };
+  }
+}
+
+export default new InventoryLoanService();
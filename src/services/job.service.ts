@@ -0,0 +1,289 @@
+import cron, { ScheduledTask } from "node-cron";
+import os from "os";
+import { Types } from "mongoose";
+import jobModel, { Job } from "../models/job.model";
+import jobRunModel, { JobCounts } from "../models/jobRun.model";
+import { JOB_RUN_STATUS, JOB_TRIGGER } from "../utils/constants";
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // cron expression, server time
+  run: () => Promise<JobCounts | void>;
+  // Missed runs older than this are recorded as MISSED instead of being
+  // caught up on startup. Without it every missed run is caught up (once).
+  catchUpWithinMs?: number;
+  lockTtlMs?: number; // another instance may take over after this
+  quiet?: boolean; // frequent jobs: runs that did nothing are not kept
+}
+
+const DEFAULT_LOCK_TTL_MS = 15 * 60 * 1000;
+
+// Identifies this process in locks and run history (PM2 cluster workers)
+const INSTANCE = `${os.hostname()}:${process.pid}`;
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+// Persistent scheduler on top of node-cron. Every instance schedules every
+// job, the Job document decides who runs it: a slot is claimed atomically
+// by moving next_run_at forward and taking the lock, so it runs once no
+// matter how many instances fire.
+class JobService {
+  private definitions = new Map<string, JobDefinition>();
+  private tasks = new Map<string, ScheduledTask>();
+
+  register(definition: JobDefinition): void {
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(`Invalid schedule "${definition.schedule}" for job ${definition.name}`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  // Schedules the registered jobs, then catches up what was missed while
+  // the server was down
+  async start(): Promise<void> {
+    for (const definition of this.definitions.values()) {
+      const task = cron.schedule(
+        definition.schedule,
+        (context) => this.runScheduled(definition, context.date),
+        { name: definition.name }
+      );
+      this.tasks.set(definition.name, task);
+      console.log(`Job ${definition.name} scheduled: ${definition.schedule}`);
+    }
+
+    for (const definition of this.definitions.values()) {
+      try {
+        await this.sync(definition);
+        await this.catchUp(definition);
+      } catch (error) {
+        console.error(`Failed to start job ${definition.name}:`, error);
+      }
+    }
+  }
+
+  // Registered jobs with their state
+  async list() {
+    const jobs = await jobModel
+      .find({ name: { $in: [...this.definitions.keys()] } })
+      .lean();
+    const now = new Date();
+
+    return [...this.definitions.values()].map((definition) => {
+      const job = jobs.find((item) => item.name === definition.name);
+      return {
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        next_run_at: job?.next_run_at ?? null,
+        last_run_at: job?.last_run_at ?? null,
+        last_status: job?.last_status ?? null,
+        running: !!job?.locked_until && job.locked_until > now,
+        locked_by: job?.locked_until && job.locked_until > now ? job.locked_by : null,
+      };
+    });
+  }
+
+  isRegistered(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  async history(name: string, options: { page: number; limit: number; status?: string }) {
+    const query: Record<string, any> = { job: name };
+    if (options.status) query.status = options.status;
+
+    const [items, total] = await Promise.all([
+      jobRunModel
+        .find(query)
+        .populate("triggered_by", "username")
+        .sort({ started_at: -1 })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit)
+        .lean(),
+      jobRunModel.countDocuments(query),
+    ]);
+    return { items, total };
+  }
+
+  // Runs a job now, outside its schedule. Returns an error string when the
+  // job is unknown or already running.
+  async trigger(name: string, by?: Types.ObjectId | string) {
+    const definition = this.definitions.get(name);
+    if (!definition) return "job not found";
+
+    const claimed = await this.claim(definition);
+    if (!claimed) return "job is already running";
+
+    const run = await this.execute(definition, JOB_TRIGGER.MANUAL, null, by);
+    // A scheduled slot that came due meanwhile could not take the lock
+    this.catchUp(definition).catch((error) =>
+      console.error(`Failed to catch up job ${definition.name}:`, error)
+    );
+    return run;
+  }
+
+  private async runScheduled(definition: JobDefinition, due: Date): Promise<void> {
+    try {
+      const claimed = await this.claim(definition, due);
+      if (!claimed) return; // another instance has it, or the lock is held
+      await this.execute(definition, JOB_TRIGGER.SCHEDULED, claimed.next_run_at ?? due);
+    } catch (error) {
+      console.error(`Job ${definition.name} failed to start:`, error);
+    }
+  }
+
+  private nextRun(name: string): Date | null {
+    return this.tasks.get(name)?.getNextRun() ?? null;
+  }
+
+  // Creates the Job document on first start and moves next_run_at when the
+  // schedule changed, so a new schedule does not count as missed
+  private async sync(definition: JobDefinition): Promise<void> {
+    const next = this.nextRun(definition.name);
+    try {
+      await jobModel.updateOne(
+        { name: definition.name },
+        {
+          $set: { description: definition.description },
+          $setOnInsert: { schedule: definition.schedule, next_run_at: next },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error; // created by another instance
+    }
+
+    await jobModel.updateOne(
+      { name: definition.name, schedule: { $ne: definition.schedule } },
+      { schedule: definition.schedule, next_run_at: next }
+    );
+  }
+
+  private async catchUp(definition: JobDefinition): Promise<void> {
+    const now = new Date();
+    const job = await jobModel.findOne({ name: definition.name }).lean();
+    if (!job?.next_run_at || job.next_run_at > now) return;
+
+    const late = now.getTime() - job.next_run_at.getTime();
+    if (definition.catchUpWithinMs !== undefined && late > definition.catchUpWithinMs) {
+      // Only the instance that moves next_run_at records the miss
+      const moved = await jobModel.updateOne(
+        { name: definition.name, next_run_at: job.next_run_at },
+        { next_run_at: this.nextRun(definition.name), last_status: JOB_RUN_STATUS.MISSED }
+      );
+      if (moved.modifiedCount > 0) {
+        console.warn(`Job ${definition.name} missed its run at ${job.next_run_at.toISOString()}`);
+        await jobRunModel.create({
+          job: definition.name,
+          trigger: JOB_TRIGGER.CATCH_UP,
+          status: JOB_RUN_STATUS.MISSED,
+          scheduled_for: job.next_run_at,
+          started_at: now,
+          finished_at: now,
+          error: "server was down, too late to catch up",
+          instance: INSTANCE,
+        });
+      }
+      return;
+    }
+
+    const claimed = await this.claim(definition, now);
+    if (!claimed) return;
+    console.log(`Catching up job ${definition.name} missed at ${job.next_run_at.toISOString()}`);
+    await this.execute(definition, JOB_TRIGGER.CATCH_UP, claimed.next_run_at ?? now);
+  }
+
+  // Takes the lock. With `due`, only when the slot up to `due` has not been
+  // claimed yet, and next_run_at moves on. Returns the job as it was before
+  // the claim, or null when someone else holds it.
+  private async claim(definition: JobDefinition, due?: Date): Promise<Job | null> {
+    const now = new Date();
+    const query: Record<string, any> = {
+      name: definition.name,
+      $or: [{ locked_until: null }, { locked_until: { $lte: now } }],
+    };
+    const update: Record<string, any> = {
+      locked_by: INSTANCE,
+      locked_at: now,
+      locked_until: new Date(now.getTime() + (definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS)),
+    };
+    if (due) {
+      query.next_run_at = { $lte: due };
+      update.next_run_at = this.nextRun(definition.name);
+    }
+
+    const previous = await jobModel.findOneAndUpdate(query, update).lean();
+    if (!previous) return null;
+
+    // The last holder's lock expired before it finished: it crashed or hung
+    if (previous.locked_by && previous.locked_at) {
+      await jobRunModel.create({
+        job: definition.name,
+        trigger: JOB_TRIGGER.SCHEDULED,
+        status: JOB_RUN_STATUS.FAILED,
+        started_at: previous.locked_at,
+        finished_at: null,
+        error: `interrupted, lock of ${previous.locked_by} expired`,
+        instance: previous.locked_by,
+      });
+    }
+    return previous;
+  }
+
+  // Runs the job while holding the lock, records the run and releases
+  private async execute(
+    definition: JobDefinition,
+    trigger: JOB_TRIGGER,
+    scheduledFor: Date | null,
+    by?: Types.ObjectId | string
+  ) {
+    const startedAt = new Date();
+    let status = JOB_RUN_STATUS.SUCCESS;
+    let counts: JobCounts = {};
+    let error: string | null = null;
+
+    try {
+      counts = (await definition.run()) ?? {};
+    } catch (err) {
+      status = JOB_RUN_STATUS.FAILED;
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`Job ${definition.name} failed:`, err);
+    }
+
+    const finishedAt = new Date();
+    const idle = Object.values(counts).every((count) => !count);
+    const keep =
+      !definition.quiet || status !== JOB_RUN_STATUS.SUCCESS || !idle || trigger === JOB_TRIGGER.MANUAL;
+
+    try {
+      const run = keep
+        ? await jobRunModel.create({
+            job: definition.name,
+            trigger,
+            status,
+            scheduled_for: scheduledFor,
+            started_at: startedAt,
+            finished_at: finishedAt,
+            counts,
+            error,
+            instance: INSTANCE,
+            triggered_by: by ?? null,
+          })
+        : null;
+      return run;
+    } finally {
+      await jobModel.updateOne(
+        { name: definition.name, locked_by: INSTANCE },
+        {
+          locked_by: null,
+          locked_at: null,
+          locked_until: null,
+          last_run_at: startedAt,
+          last_status: status,
+        }
+      );
+    }
+  }
+}
+
+export default new JobService();
@@ -0,0 +1,468 @@
+import { Types } from "mongoose";
+import ledgerModel, { LedgerLine } from "../models/ledger.model";
+import { Iuran } from "../models/iuran.model";
+import { Event } from "../models/event.model";
+import { DanaMasuk } from "../models/danaMasuk.model";
+import { Pengeluaran } from "../models/pengeluaran.model";
+import { Payment } from "../models/payment.model";
+import { InventoryLoan } from "../models/inventoryLoan.model";
+import {
+  IURAN_STATUS,
+  LEDGER_ACCOUNTS,
+  LEDGER_SOURCE,
+} from "../utils/constants";
+import { getSettingValue, SETTINGS_KEYS } from "./settings.service";
+
+type WithId<T> = T & { _id: Types.ObjectId };
+
+export interface LedgerTotals {
+  total_iuran_income: number;
+  total_denda_income: number;
+  total_event_donations: number;
+  total_dana_masuk: number;
+  total_rental_income: number; // inventory loan fees
+  total_income: number;
+  total_expense: number;
+  net_titipan: number; // credit received minus credit spent on iuran
+}
+
+export interface BukuKasRow {
+  _id: Types.ObjectId;
+  date: Date;
+  description: string;
+  source_type: LEDGER_SOURCE;
+  source_id: Types.ObjectId;
+  debit: number; // kas masuk
+  credit: number; // kas keluar
+  balance: number; // running balance after this entry
+}
+
+function kasAmount(lines: LedgerLine[]): number {
+  return lines
+    .filter((line) => line.account === LEDGER_ACCOUNTS.KAS)
+    .reduce((sum, line) => sum + line.debit - line.credit, 0);
+}
+
+function cashIn(account: LEDGER_ACCOUNTS, amount: number): LedgerLine[] {
+  return [
+    { account: LEDGER_ACCOUNTS.KAS, debit: amount, credit: 0 },
+    { account, debit: 0, credit: amount },
+  ];
+}
+
+function cashOut(account: LEDGER_ACCOUNTS, amount: number): LedgerLine[] {
+  return [
+    { account, debit: amount, credit: 0 },
+    { account: LEDGER_ACCOUNTS.KAS, debit: 0, credit: amount },
+  ];
+}
+
+function paymentLines(payment: Payment): LedgerLine[] {
+  const toIuran = payment.allocations.reduce((sum, a) => sum + a.amount, 0);
+  const toDenda = payment.allocations.reduce((sum, a) => sum + a.denda, 0);
+
+  return [
+    { account: LEDGER_ACCOUNTS.KAS, debit: payment.amount, credit: 0 },
+    { account: LEDGER_ACCOUNTS.TITIPAN_WARGA, debit: payment.credit_used, credit: 0 },
+    { account: LEDGER_ACCOUNTS.PENDAPATAN_IURAN, debit: 0, credit: toIuran },
+    { account: LEDGER_ACCOUNTS.PENDAPATAN_DENDA, debit: 0, credit: toDenda },
+    { account: LEDGER_ACCOUNTS.TITIPAN_WARGA, debit: 0, credit: payment.credit_added },
+  ].filter((line) => line.debit || line.credit);
+}
+
+class LedgerService {
+  private async post(entry: {
+    date: Date;
+    description: string;
+    source_type: LEDGER_SOURCE;
+    source_id: Types.ObjectId;
+    source_parent_id?: Types.ObjectId | null;
+    lines: LedgerLine[];
+    created_by?: Types.ObjectId | string | null;
+  }): Promise<void> {
+    const existing = await ledgerModel.findOne({
+      source_type: entry.source_type,
+      source_id: entry.source_id,
+    });
+
+    if (existing) {
+      existing.set(entry);
+      await existing.save();
+      return;
+    }
+
+    await ledgerModel.create(entry);
+  }
+
+  async removeSource(
+    sourceType: LEDGER_SOURCE,
+    sourceId: Types.ObjectId | string
+  ): Promise<void> {
+    await ledgerModel.deleteOne({ source_type: sourceType, source_id: sourceId });
+  }
+
+  async removeSources(
+    sourceType: LEDGER_SOURCE,
+    sourceIds: (Types.ObjectId | string)[]
+  ): Promise<void> {
+    if (sourceIds.length === 0) return;
+    await ledgerModel.deleteMany({
+      source_type: sourceType,
+      source_id: { $in: sourceIds },
+    });
+  }
+
+  // Confirmed iuran hit the kas. Imported iuran are already part of initial_balance.
+  // Denda is booked on its own income account. Iuran paid through a payment
+  // are posted by syncPayment instead.
+  async syncIuran(iuran: WithId<Iuran>): Promise<void> {
+    const amount = iuran.amount;
+    const denda = iuran.denda || 0;
+
+    if (
+      iuran.status !== IURAN_STATUS.PAID ||
+      iuran.is_imported ||
+      iuran.paid_amount ||
+      !amount
+    ) {
+      await this.removeSource(LEDGER_SOURCE.IURAN, iuran._id);
+      return;
+    }
+
+    await this.post({
+      date: iuran.payment_date || iuran.confirmed_at || new Date(),
+      description: `Iuran ${iuran.period}`,
+      source_type: LEDGER_SOURCE.IURAN,
+      source_id: iuran._id,
+      source_parent_id: iuran.user,
+      lines: denda
+        ? [
+            { account: LEDGER_ACCOUNTS.KAS, debit: amount + denda, credit: 0 },
+            { account: LEDGER_ACCOUNTS.PENDAPATAN_IURAN, debit: 0, credit: amount },
+            { account: LEDGER_ACCOUNTS.PENDAPATAN_DENDA, debit: 0, credit: denda },
+          ]
+        : cashIn(LEDGER_ACCOUNTS.PENDAPATAN_IURAN, amount),
+      created_by: iuran.confirmed_by || iuran.recorded_by || null,
+    });
+  }
+
+  // Cash and credit in, iuran/denda income and new credit out.
+  // A voided payment keeps this entry, its correction is posted separately.
+  async syncPayment(payment: WithId<Payment>): Promise<void> {
+    const lines = paymentLines(payment);
+
+    if (lines.length === 0) {
+      await this.removeSource(LEDGER_SOURCE.PAYMENT, payment._id);
+      return;
+    }
+
+    const periods = payment.allocations.map((a) => a.period);
+    await this.post({
+      date: payment.payment_date,
+      description: periods.length
+        ? `Pembayaran iuran ${periods.join(", ")}`
+        : "Titipan iuran",
+      source_type: LEDGER_SOURCE.PAYMENT,
+      source_id: payment._id,
+      source_parent_id: payment.household || payment.user,
+      lines,
+      created_by: payment.recorded_by || payment.submitted_by || null,
+    });
+  }
+
+  // Correction entry of a voided payment: the payment's lines reversed,
+  // dated when it was voided
+  async syncPaymentReversal(
+    payment: WithId<Payment>,
+    receiptNumber?: string | null
+  ): Promise<void> {
+    if (!payment.voided_at) {
+      await this.removeSource(LEDGER_SOURCE.PAYMENT_REVERSAL, payment._id);
+      return;
+    }
+
+    const lines = paymentLines(payment).map((line) => ({
+      account: line.account,
+      debit: line.credit,
+      credit: line.debit,
+    }));
+    if (lines.length === 0) return;
+
+    await this.post({
+      date: payment.voided_at,
+      description: `Koreksi: pembatalan ${receiptNumber || "pembayaran iuran"} - ${
+        payment.void_reason || ""
+      }`,
+      source_type: LEDGER_SOURCE.PAYMENT_REVERSAL,
+      source_id: payment._id,
+      source_parent_id: payment.household || payment.user,
+      lines,
+      created_by: payment.voided_by || null,
+    });
+  }
+
+  // Correction entries in [from, to), for the laporan keuangan
+  async getCorrections(range: { from: Date; to: Date }) {
+    const entries = await ledgerModel
+      .find({
+        source_type: LEDGER_SOURCE.PAYMENT_REVERSAL,
+        date: { $gte: range.from, $lt: range.to },
+      })
+      .sort({ date: 1 })
+      .lean();
+
+    const debitOf = (lines: LedgerLine[], account: LEDGER_ACCOUNTS) =>
+      lines
+        .filter((line) => line.account === account)
+        .reduce((sum, line) => sum + line.debit, 0);
+
+    return entries.map((entry) => ({
+      date: entry.date,
+      description: entry.description,
+      payment: entry.source_id,
+      // income taken back, already netted in the totals of that month
+      amount:
+        debitOf(entry.lines, LEDGER_ACCOUNTS.PENDAPATAN_IURAN) +
+        debitOf(entry.lines, LEDGER_ACCOUNTS.PENDAPATAN_DENDA),
+      kas: -kasAmount(entry.lines), // given back or held for re-allocation
+    }));
+  }
+
+  // Event donations only count towards kas once the event is completed
+  async syncEvent(event: WithId<Event>): Promise<void> {
+    await ledgerModel.deleteMany({
+      source_type: LEDGER_SOURCE.EVENT_DONATION,
+      source_parent_id: event._id,
+    });
+
+    if (event.status !== "completed") return;
+
+    for (const donation of event.donations as WithId<
+      Event["donations"][number]
+    >[]) {
+      const amount = donation.amount;
+      if (!amount) continue;
+
+      await this.post({
+        date: event.completed_at || new Date(),
+        description: `Donasi ${event.name} - ${donation.donor_name}`,
+        source_type: LEDGER_SOURCE.EVENT_DONATION,
+        source_id: donation._id,
+        source_parent_id: event._id,
+        lines: cashIn(LEDGER_ACCOUNTS.PENDAPATAN_DONASI_EVENT, amount),
+        created_by: event.created_by,
+      });
+    }
+  }
+
+  async removeEvent(eventId: Types.ObjectId | string): Promise<void> {
+    await ledgerModel.deleteMany({
+      source_type: LEDGER_SOURCE.EVENT_DONATION,
+      source_parent_id: eventId,
+    });
+  }
+
+  async syncDanaMasuk(danaMasuk: WithId<DanaMasuk>): Promise<void> {
+    const amount = danaMasuk.nominal;
+    if (!amount) {
+      await this.removeSource(LEDGER_SOURCE.DANA_MASUK, danaMasuk._id);
+      return;
+    }
+
+    await this.post({
+      date: danaMasuk.createdAt || new Date(),
+      description: `Dana masuk - ${danaMasuk.nama_pemberi}`,
+      source_type: LEDGER_SOURCE.DANA_MASUK,
+      source_id: danaMasuk._id,
+      lines: cashIn(LEDGER_ACCOUNTS.PENDAPATAN_DANA_MASUK, amount),
+      created_by: danaMasuk.created_by,
+    });
+  }
+
+  // Rental fee of an inventory loan, booked when the items are handed over
+  async syncInventoryLoan(loan: WithId<InventoryLoan>, itemName?: string): Promise<void> {
+    const fee = loan.rental_fee || 0;
+    if (!fee || !loan.checked_out_at) {
+      await this.removeSource(LEDGER_SOURCE.INVENTORY_LOAN, loan._id);
+      return;
+    }
+
+    await this.post({
+      date: loan.checked_out_at,
+      description: `Sewa ${itemName || "inventaris"} - ${loan.borrower_name}`,
+      source_type: LEDGER_SOURCE.INVENTORY_LOAN,
+      source_id: loan._id,
+      source_parent_id: loan.inventory,
+      lines: cashIn(LEDGER_ACCOUNTS.PENDAPATAN_SEWA_INVENTARIS, fee),
+      created_by: loan.checked_out_by || null,
+    });
+  }
+
+  async syncPengeluaran(pengeluaran: WithId<Pengeluaran>): Promise<void> {
+    const amount = pengeluaran.total;
+    if (!amount) {
+      await this.removeSource(LEDGER_SOURCE.PENGELUARAN, pengeluaran._id);
+      return;
+    }
+
+    await this.post({
+      date: (pengeluaran as any).createdAt || new Date(),
+      description: `Pengeluaran - ${pengeluaran.title}`,
+      source_type: LEDGER_SOURCE.PENGELUARAN,
+      source_id: pengeluaran._id,
+      source_parent_id: pengeluaran.event_id || null,
+      lines: cashOut(LEDGER_ACCOUNTS.BEBAN_PENGELUARAN, amount),
+      created_by: pengeluaran.created_by,
+    });
+  }
+
+  // Net kas movement (debit - credit on the kas account), optionally before a date
+  async getKasMovement(before?: Date): Promise<number> {
+    const result = await ledgerModel.aggregate([
+      { $match: before ? { date: { $lt: before } } : {} },
+      { $unwind: "$lines" },
+      { $match: { "lines.account": LEDGER_ACCOUNTS.KAS } },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: { $subtract: ["$lines.debit", "$lines.credit"] } },
+        },
+      },
+    ]);
+
+    return result.length > 0 ? result[0].total : 0;
+  }
+
+  // Balance = initial_balance (saldo awal periode) + net kas movement
+  async getBalance(before?: Date): Promise<number> {
+    const initialBalance = await getSettingValue(
+      SETTINGS_KEYS.INITIAL_BALANCE,
+      0
+    );
+    return initialBalance + (await this.getKasMovement(before));
+  }
+
+  // Buku kas umum: ledger entries in [from, to) in chronological order with
+  // running balance
+  async getBukuKas(options: {
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+  }): Promise<{ opening_balance: number; total: number; rows: BukuKasRow[] }> {
+    const { from, to, page, limit } = options;
+
+    const match: Record<string, any> = {};
+    if (from || to) {
+      match.date = {};
+      if (from) match.date.$gte = from;
+      if (to) match.date.$lt = to;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [total, entries, skippedMovement, openingBalance] = await Promise.all([
+      ledgerModel.countDocuments(match),
+      ledgerModel
+        .find(match)
+        .sort({ date: 1, _id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      // Kas movement of the entries in range that come before this page
+      skip === 0
+        ? Promise.resolve([])
+        : ledgerModel.aggregate([
+            { $match: match },
+            { $sort: { date: 1, _id: 1 } },
+            { $limit: skip },
+            { $unwind: "$lines" },
+            { $match: { "lines.account": LEDGER_ACCOUNTS.KAS } },
+            {
+              $group: {
+                _id: null,
+                total: {
+                  $sum: { $subtract: ["$lines.debit", "$lines.credit"] },
+                },
+              },
+            },
+          ]),
+      this.getBalance(from),
+    ]);
+
+    let balance =
+      openingBalance + (skippedMovement.length > 0 ? skippedMovement[0].total : 0);
+
+    const rows = entries.map((entry) => {
+      const amount = kasAmount(entry.lines);
+      balance += amount;
+      return {
+        _id: entry._id,
+        date: entry.date,
+        description: entry.description,
+        source_type: entry.source_type,
+        source_id: entry.source_id,
+        debit: amount > 0 ? amount : 0,
+        credit: amount < 0 ? -amount : 0,
+        balance,
+      };
+    });
+
+    return { opening_balance: openingBalance, total, rows };
+  }
+
+  // Income/expense per category, optionally limited to [from, to)
+  async getTotals(range?: { from?: Date; to?: Date }): Promise<LedgerTotals> {
+    const match: Record<string, any> = {};
+    if (range?.from || range?.to) {
+      match.date = {};
+      if (range.from) match.date.$gte = range.from;
+      if (range.to) match.date.$lt = range.to;
+    }
+
+    const result = await ledgerModel.aggregate([
+      { $match: match },
+      { $unwind: "$lines" },
+      { $match: { "lines.account": { $ne: LEDGER_ACCOUNTS.KAS } } },
+      {
+        $group: {
+          _id: "$lines.account",
+          debit: { $sum: "$lines.debit" },
+          credit: { $sum: "$lines.credit" },
+        },
+      },
+    ]);
+
+    const byAccount = new Map<string, { debit: number; credit: number }>(
+      result.map((item) => [item._id, item])
+    );
+    const income = (account: LEDGER_ACCOUNTS) =>
+      (byAccount.get(account)?.credit || 0) - (byAccount.get(account)?.debit || 0);
+    const expense = (account: LEDGER_ACCOUNTS) =>
+      (byAccount.get(account)?.debit || 0) - (byAccount.get(account)?.credit || 0);
+
+    const totalIuranIncome = income(LEDGER_ACCOUNTS.PENDAPATAN_IURAN);
+    const totalDendaIncome = income(LEDGER_ACCOUNTS.PENDAPATAN_DENDA);
+    const totalEventDonations = income(LEDGER_ACCOUNTS.PENDAPATAN_DONASI_EVENT);
+    const totalDanaMasuk = income(LEDGER_ACCOUNTS.PENDAPATAN_DANA_MASUK);
+    const totalRentalIncome = income(LEDGER_ACCOUNTS.PENDAPATAN_SEWA_INVENTARIS);
+
+    return {
+      total_iuran_income: totalIuranIncome,
+      total_denda_income: totalDendaIncome,
+      total_event_donations: totalEventDonations,
+      total_dana_masuk: totalDanaMasuk,
+      total_rental_income: totalRentalIncome,
+      total_income:
+        totalIuranIncome +
+        totalDendaIncome +
+        totalEventDonations +
+        totalDanaMasuk +
+        totalRentalIncome,
+      total_expense: expense(LEDGER_ACCOUNTS.BEBAN_PENGELUARAN),
+      net_titipan: income(LEDGER_ACCOUNTS.TITIPAN_WARGA),
+    };
+  }
+}
+
+export default new LedgerService();
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+
+export const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+
+export enum MEDIA_MIME {
+  JPEG = "image/jpeg",
+  PNG = "image/png",
+  WEBP = "image/webp",
+  XLSX = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+}
+
+export const IMAGE_MIMES = [MEDIA_MIME.JPEG, MEDIA_MIME.PNG, MEDIA_MIME.WEBP];
+
+// Stored images are re-encoded as JPEG, at most this many pixels per side
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 320;
+const JPEG_QUALITY = 80;
+const THUMBNAIL_QUALITY = 70;
+
+// A thumbnail sits next to its image: 123-456.jpg -> 123-456-thumb.jpg
+const THUMBNAIL_SUFFIX = "-thumb.jpg";
+
+export interface SavedImage {
+  filename: string;
+  thumbnail: string;
+  size: number;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) =>
+  buffer.subarray(start, end).toString("latin1");
+
+// Real type of an upload from its first bytes. The extension and the
+// Content-Type sent by the client are not trusted.
+export function sniffMime(buffer: Buffer): MEDIA_MIME | null {
+  if (buffer.length < 12) return null;
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return MEDIA_MIME.JPEG;
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MEDIA_MIME.PNG;
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return MEDIA_MIME.WEBP;
+  // Office files are zip archives, a workbook has an xl/ folder
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) && buffer.includes("xl/")) {
+    return MEDIA_MIME.XLSX;
+  }
+  return null;
+}
+
+// iPhone HEIC photos (ISO media container: ....ftypheic). The prebuilt sharp
+// has no HEVC decoder, so these are recognised only to explain the rejection.
+export function isHeic(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    ascii(buffer, 4, 8) === "ftyp" &&
+    /^(heic|heix|hevc|hevx|mif1|msf1)$/.test(ascii(buffer, 8, 12))
+  );
+}
+
+// Public URLs of a file processed by media.middleware
+export const uploadUrl = (file: Express.Multer.File) => `/uploads/${file.filename}`;
+
+export const thumbnailUrl = (file: Express.Multer.File) =>
+  `/uploads/${path.parse(file.filename).name}${THUMBNAIL_SUFFIX}`;
+
+const uniqueName = () => `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+
+class MediaService {
+  // Re-encodes an uploaded photo (orientation fixed, metadata such as GPS
+  // stripped, scaled down) and writes it with its thumbnail to uploads/
+  async saveImage(buffer: Buffer): Promise<SavedImage> {
+    fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+    const name = uniqueName();
+    const filename = `${name}.jpg`;
+    const thumbnail = `${name}${THUMBNAIL_SUFFIX}`;
+
+    // Transparent PNG/WebP areas become white instead of black
+    const encode = (dimension: number, quality: number) =>
+      sharp(buffer, { failOn: "error" })
+        .rotate()
+        .resize({ width: dimension, height: dimension, fit: "inside", withoutEnlargement: true })
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality, mozjpeg: true });
+
+    const image = await encode(MAX_DIMENSION, JPEG_QUALITY).toFile(path.join(UPLOADS_DIR, filename));
+    try {
+      await encode(THUMBNAIL_DIMENSION, THUMBNAIL_QUALITY).toFile(path.join(UPLOADS_DIR, thumbnail));
+    } catch (error) {
+      this.remove(`/uploads/${filename}`);
+      throw error;
+    }
+
+    return { filename, thumbnail, size: image.size };
+  }
+
+  // Deletes an uploaded file and its thumbnail, if any. Never throws.
+  remove(url?: string | null): void {
+    if (!url || !url.startsWith("/uploads/")) return;
+
+    const filename = path.basename(url);
+    const files = [filename, `${path.parse(filename).name}${THUMBNAIL_SUFFIX}`];
+    for (const file of files) {
+      try {
+        const filePath = path.join(UPLOADS_DIR, file);
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+      } catch (error) {
+        console.error(`Failed to delete upload ${file}:`, error);
+      }
+    }
+  }
+}
+
+export default new MediaService();
@@ -1,5 +1,9 @@
 import { Expo, ExpoPushMessage, ExpoPushTicket } from "expo-server-sdk";
 import userModel from "../models/user.model";
+import notificationModel from "../models/notification.model";
+import deviceTokenModel from "../models/deviceToken.model";
+import pushTicketModel from "../models/pushTicket.model";
+import { DEVICE_PLATFORM } from "../utils/constants";
 import { Types } from "mongoose";
 
 const expo = new Expo();
@@ -14,20 +18,25 @@ export interface NotificationPayload {
   priority?: "default" | "normal" | "high";
 }
 
+type Recipient = { _id: Types.ObjectId };
+
+// Expo needs a moment before delivery receipts are available
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+
 class NotificationService {
   async sendToUser(
     userId: string | Types.ObjectId,
     notification: NotificationPayload
   ): Promise<void> {
     try {
-      const user = await userModel.findById(userId).select("expoPushToken");
+      const user = await userModel.findById(userId).select("_id").lean();
 
-      if (!user || !user.expoPushToken) {
-        console.log(`User ${userId} has no push token registered`);
+      if (!user) {
+        console.log(`User ${userId} not found, notification not sent`);
         return;
       }
 
-      await this.sendToToken(user.expoPushToken, notification);
+      await this.deliver([user], notification);
     } catch (error) {
       console.error(`Failed to send notification to user ${userId}:`, error);
     }
@@ -40,123 +49,297 @@ class NotificationService {
     try {
       const users = await userModel
         .find({ _id: { $in: userIds } })
-        .select("expoPushToken");
+        .select("_id")
+        .lean();
+
+      await this.deliver(users, notification);
+    } catch (error) {
+      console.error("Failed to send notifications to users:", error);
+    }
+  }
 
-      const tokens = users
-        .filter((user) => user.expoPushToken)
-        .map((user) => user.expoPushToken as string);
+  async sendToRole(
+    role: string,
+    notification: NotificationPayload
+  ): Promise<void> {
+    try {
+      const users = await userModel
+        .find({ role, isDeleted: { $ne: true } })
+        .select("_id")
+        .lean();
 
-      if (tokens.length === 0) {
-        console.log("No users with valid push tokens found");
+      if (users.length === 0) {
+        console.log(`No users with role ${role}`);
         return;
       }
 
-      await this.sendToTokens(tokens, notification);
+      await this.deliver(users, notification);
     } catch (error) {
-      console.error("Failed to send notifications to users:", error);
+      console.error(`Failed to send notifications to role ${role}:`, error);
     }
   }
 
-  async sendToToken(
-    token: string,
+  // Saves the notification in every recipient's inbox, then pushes it to
+  // all of their devices. The badge shows each recipient's unread count.
+  private async deliver(
+    users: Recipient[],
     notification: NotificationPayload
   ): Promise<void> {
-    if (!Expo.isExpoPushToken(token)) {
-      console.error(`Push token ${token} is not a valid Expo push token`);
+    if (users.length === 0) return;
+
+    const saved = await notificationModel.insertMany(
+      users.map((user) => ({
+        user: user._id,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data ?? {},
+      }))
+    );
+
+    const devices = await deviceTokenModel
+      .find({ user: { $in: users.map((user) => user._id) } })
+      .select("user token")
+      .lean();
+    if (devices.length === 0) {
+      console.log("No recipients with a registered device, saved to inbox only");
       return;
     }
 
-    const message: ExpoPushMessage = {
-      to: token,
-      sound: notification.sound ?? "default",
-      title: notification.title,
-      body: notification.body,
-      data: notification.data ?? {},
-      badge: notification.badge,
-      channelId: notification.channelId ?? "default",
-      priority: notification.priority ?? "high",
-    };
+    const unread = await this.unreadCounts(users.map((user) => user._id));
+    const messages = devices.map((device) => {
+      const entry = saved.find((item) => item.user.equals(device.user));
+      return this.message(
+        device.token,
+        {
+          ...notification,
+          data: { ...notification.data, notificationId: entry?._id.toString() },
+        },
+        unread.get(device.user.toString()) ?? 0
+      );
+    });
 
-    try {
-      const ticketChunk = await expo.sendPushNotificationsAsync([message]);
-      this.handleTickets(ticketChunk);
-    } catch (error) {
-      console.error("Error sending notification:", error);
-    }
+    await this.push(messages);
+  }
+
+  // Push without saving to an inbox
+  async sendToToken(
+    token: string,
+    notification: NotificationPayload
+  ): Promise<void> {
+    await this.sendToTokens([token], notification);
   }
 
   async sendToTokens(
     tokens: string[],
     notification: NotificationPayload
   ): Promise<void> {
-    const validTokens = tokens.filter((token) => Expo.isExpoPushToken(token));
-
-    if (validTokens.length === 0) {
-      console.log("No valid Expo push tokens to send to");
-      return;
-    }
+    await this.push(
+      tokens.map((token) => this.message(token, notification, notification.badge))
+    );
+  }
 
-    // Create messages
-    const messages: ExpoPushMessage[] = validTokens.map((token) => ({
+  private message(
+    token: string,
+    notification: NotificationPayload,
+    badge?: number
+  ): ExpoPushMessage {
+    return {
       to: token,
       sound: notification.sound ?? "default",
       title: notification.title,
       body: notification.body,
       data: notification.data ?? {},
-      badge: notification.badge,
+      badge,
       channelId: notification.channelId ?? "default",
       priority: notification.priority ?? "high",
-    }));
+    };
+  }
 
-    const chunks = expo.chunkPushNotifications(messages);
+  private async push(messages: ExpoPushMessage[]): Promise<void> {
+    const invalid: string[] = [];
+    const valid = messages.filter((message) => {
+      const token = message.to as string;
+      if (!Expo.isExpoPushToken(token)) {
+        console.error(`Push token ${token} is not a valid Expo push token`);
+        invalid.push(token);
+        return false;
+      }
+      return true;
+    });
+    await this.removeTokens(invalid);
+
+    if (valid.length === 0) {
+      console.log("No valid Expo push tokens to send to");
+      return;
+    }
+
+    const chunks = expo.chunkPushNotifications(valid);
 
     try {
       for (const chunk of chunks) {
         const ticketChunk = await expo.sendPushNotificationsAsync(chunk);
-        this.handleTickets(ticketChunk);
+        await this.handleTickets(chunk, ticketChunk);
       }
     } catch (error) {
       console.error("Error sending notifications:", error);
     }
   }
 
-  async sendToRole(
-    role: string,
-    notification: NotificationPayload
-  ): Promise<void> {
-    try {
-      const users = await userModel
-        .find({ role, expoPushToken: { $ne: null } })
-        .select("expoPushToken");
+  // Device registration, called by the app on every start so last_seen_at
+  // stays current. Moves the token when another user logs in on the device.
+  async registerDevice(
+    userId: string | Types.ObjectId,
+    token: string,
+    device: { platform?: DEVICE_PLATFORM; device_name?: string | null } = {}
+  ) {
+    const update: Record<string, any> = { user: userId, last_seen_at: new Date() };
+    if (device.platform) update.platform = device.platform;
+    if (device.device_name !== undefined) update.device_name = device.device_name;
+
+    return deviceTokenModel.findOneAndUpdate({ token }, update, {
+      new: true,
+      upsert: true,
+      setDefaultsOnInsert: true,
+    });
+  }
+
+  // On logout, so the device stops receiving this user's notifications
+  async unregisterDevice(userId: string | Types.ObjectId, token: string): Promise<boolean> {
+    const result = await deviceTokenModel.deleteOne({ user: userId, token });
+    return result.deletedCount > 0;
+  }
 
-      const tokens = users.map((user) => user.expoPushToken as string);
+  async listDevices(userId: string | Types.ObjectId) {
+    return deviceTokenModel.find({ user: userId }).sort({ last_seen_at: -1 }).lean();
+  }
 
-      if (tokens.length === 0) {
-        console.log(`No users with role ${role} have push tokens`);
-        return;
+  // Fetches the Expo receipts of tickets that are old enough and removes the
+  // tokens Expo no longer delivers to. Returns the number of removed tokens.
+  async checkReceipts(): Promise<number> {
+    const tickets = await pushTicketModel
+      .find({ createdAt: { $lte: new Date(Date.now() - RECEIPT_DELAY_MS) } })
+      .sort({ createdAt: 1 })
+      .limit(5000)
+      .lean();
+    if (tickets.length === 0) return 0;
+
+    const tokenByTicket = new Map(tickets.map((ticket) => [ticket.ticket_id, ticket.token]));
+    const dead: string[] = [];
+    const checked: string[] = [];
+
+    for (const chunk of expo.chunkPushNotificationReceiptIds([...tokenByTicket.keys()])) {
+      try {
+        const receipts = await expo.getPushNotificationReceiptsAsync(chunk);
+        for (const [ticketId, receipt] of Object.entries(receipts)) {
+          if (receipt.status === "error") {
+            console.error(`Push receipt error: ${receipt.message}`);
+            if (receipt.details?.error === "DeviceNotRegistered") {
+              dead.push(tokenByTicket.get(ticketId) as string);
+            }
+          }
+        }
+        // Receipts missing from the answer are gone or not ready, drop them
+        // only once the ticket has expired (TTL index)
+        checked.push(...chunk.filter((id) => id in receipts));
+      } catch (error) {
+        console.error("Error fetching push receipts:", error);
       }
+    }
 
-      await this.sendToTokens(tokens, notification);
-    } catch (error) {
-      console.error(`Failed to send notifications to role ${role}:`, error);
+    await pushTicketModel.deleteMany({ ticket_id: { $in: checked } });
+    return this.removeTokens(dead);
+  }
+
+  private async removeTokens(tokens: string[]): Promise<number> {
+    if (tokens.length === 0) return 0;
+    const result = await deviceTokenModel.deleteMany({ token: { $in: tokens } });
+    if (result.deletedCount > 0) {
+      console.log(`Removed ${result.deletedCount} dead push tokens`);
     }
+    return result.deletedCount;
   }
 
-  private handleTickets(tickets: ExpoPushTicket[]): void {
-    tickets.forEach((ticket) => {
-      if (ticket.status === "error") {
-        console.error(`Error sending notification: ${ticket.message}`);
-        if (ticket.details?.error) {
-          console.error(`Error details:`, ticket.details.error);
+  // Inbox of one user, newest first
+  async list(
+    userId: string | Types.ObjectId,
+    options: { page: number; limit: number; unreadOnly?: boolean }
+  ) {
+    const query: Record<string, any> = { user: userId };
+    if (options.unreadOnly) query.read_at = null;
 
-          if (ticket.details.error === "DeviceNotRegistered") {
-            console.log(
-              "Device token is no longer valid, should remove from database"
-            );
-          }
+    const [items, total] = await Promise.all([
+      notificationModel
+        .find(query)
+        .sort({ createdAt: -1 })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit)
+        .lean(),
+      notificationModel.countDocuments(query),
+    ]);
+    return { items, total };
+  }
+
+  async unreadCount(userId: string | Types.ObjectId): Promise<number> {
+    return notificationModel.countDocuments({ user: userId, read_at: null });
+  }
+
+  private async unreadCounts(userIds: Types.ObjectId[]): Promise<Map<string, number>> {
+    const counts = await notificationModel.aggregate([
+      { $match: { user: { $in: userIds }, read_at: null } },
+      { $group: { _id: "$user", count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map((item) => [item._id.toString(), item.count]));
+  }
+
+  // Null when the notification does not exist or belongs to someone else
+  async markRead(userId: string | Types.ObjectId, id: string) {
+    const notification = await notificationModel.findOne({ _id: id, user: userId });
+    if (!notification) return null;
+
+    if (!notification.read_at) {
+      notification.read_at = new Date();
+      await notification.save();
+    }
+    return notification;
+  }
+
+  async markAllRead(userId: string | Types.ObjectId): Promise<number> {
+    const result = await notificationModel.updateMany(
+      { user: userId, read_at: null },
+      { read_at: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  // Tickets come back in the order of the messages. Accepted ones are kept
+  // for the receipt check, tokens Expo already rejects are removed.
+  private async handleTickets(
+    messages: ExpoPushMessage[],
+    tickets: ExpoPushTicket[]
+  ): Promise<void> {
+    const accepted: { ticket_id: string; token: string }[] = [];
+    const dead: string[] = [];
+
+    tickets.forEach((ticket, index) => {
+      const token = messages[index]?.to as string;
+      if (ticket.status === "ok") {
+        accepted.push({ ticket_id: ticket.id, token });
+        return;
+      }
+
+      console.error(`Error sending notification: ${ticket.message}`);
+      if (ticket.details?.error) {
+        console.error(`Error details:`, ticket.details.error);
+        if (ticket.details.error === "DeviceNotRegistered") {
+          dead.push(token);
         }
       }
     });
+
+    if (accepted.length > 0) {
+      await pushTicketModel.insertMany(accepted, { ordered: false });
+    }
+    await this.removeTokens(dead);
   }
 }
 
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import passwordResetModel from "../models/passwordReset.model";
+import userModel from "../models/user.model";
+import { USER_STATUS } from "../utils/constants";
+import sessionService from "./session.service";
+
+const RESET_CODE_TTL_MINUTES = 30;
+const RESET_CODE_MAX_ATTEMPTS = 5;
+
+function hashCode(code: string): string {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+class PasswordResetService {
+  // Issues a new 8 digit code, any code issued earlier for the user stops working.
+  // The plain code is only returned here, it is stored hashed.
+  async issue(
+    userId: Types.ObjectId | string,
+    issuedBy: Types.ObjectId | string
+  ): Promise<{ code: string; expires_at: Date }> {
+    await passwordResetModel.updateMany(
+      { user: userId, used_at: null, invalidated_at: null },
+      { invalidated_at: new Date() }
+    );
+
+    const code = crypto.randomInt(0, 100_000_000).toString().padStart(8, "0");
+    const expiresAt = new Date(Date.now() + RESET_CODE_TTL_MINUTES * 60 * 1000);
+
+    await passwordResetModel.create({
+      user: userId,
+      code_hash: hashCode(code),
+      issued_by: issuedBy,
+      expires_at: expiresAt,
+    });
+
+    return { code, expires_at: expiresAt };
+  }
+
+  // Sets a new password with a reset code and logs the user out everywhere.
+  // Returns an error message when the code cannot be used.
+  async redeem(
+    identifier: string,
+    code: string,
+    newPassword: string
+  ): Promise<string | null> {
+    const user = await userModel.findOne({
+      $or: [{ username: identifier }, { email: identifier }],
+    } as any);
+
+    if (!user || user.isDeleted || user.status === USER_STATUS.MOVED) {
+      return "invalid or expired reset code";
+    }
+
+    const reset = await passwordResetModel
+      .findOne({
+        user: user._id,
+        used_at: null,
+        invalidated_at: null,
+        expires_at: { $gt: new Date() },
+        attempts: { $lt: RESET_CODE_MAX_ATTEMPTS },
+      })
+      .sort({ createdAt: -1 });
+
+    if (!reset) {
+      return "invalid or expired reset code";
+    }
+
+    if (!safeEqual(hashCode(code), reset.code_hash)) {
+      await passwordResetModel.updateOne({ _id: reset._id }, { $inc: { attempts: 1 } });
+      return "invalid or expired reset code";
+    }
+
+    // Claim the code atomically so it cannot be redeemed twice
+    const claimed = await passwordResetModel.findOneAndUpdate(
+      { _id: reset._id, used_at: null },
+      { used_at: new Date() }
+    );
+    if (!claimed) {
+      return "invalid or expired reset code";
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    await sessionService.revokeAllForUser(user._id, "password reset");
+
+    return null;
+  }
+}
+
+export default new PasswordResetService();
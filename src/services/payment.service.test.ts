@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, mock, test } from "node:test";
+import { Types } from "mongoose";
+import iuranModel from "../models/iuran.model";
+import paymentModel from "../models/payment.model";
+import { IURAN_STATUS } from "../utils/constants";
+import billingService, { BillingTarget } from "./billing.service";
+import dendaService, { DEFAULT_DENDA_RULE } from "./denda.service";
+import ledgerService from "./ledger.service";
+import paymentService from "./payment.service";
+import receiptService from "./receipt.service";
+
+const target = { user: { _id: new Types.ObjectId() }, household: null } as unknown as BillingTarget;
+const paymentDate = new Date(2026, 2, 1);
+let credit = 0;
+
+const iuran = (period: string, amount = 50000) =>
+  new iuranModel({ user: target.user._id, period, amount, status: IURAN_STATUS.UNPAID });
+
+beforeEach(() => {
+  credit = 0;
+  mock.method(dendaService, "getRule", async () => ({ ...DEFAULT_DENDA_RULE, enabled: false }));
+  mock.method(billingService, "getCredit", async () => credit);
+  mock.method(billingService, "adjustCredit", async (_target: BillingTarget, delta: number) => {
+    credit += delta;
+    return true;
+  });
+  mock.method(paymentModel.prototype, "validate", async () => {});
+  mock.method(paymentModel.prototype, "save", async function (this: unknown) {
+    return this;
+  });
+  mock.method(iuranModel.prototype, "validate", async () => {});
+  mock.method(iuranModel.prototype, "save", async function (this: unknown) {
+    return this;
+  });
+  mock.method(ledgerService, "syncPayment", async () => {});
+  mock.method(receiptService, "forPayment", async () => null);
+});
+
+afterEach(() => mock.restoreAll());
+
+test("pays the oldest period first and leaves the last one partially paid", async () => {
+  const list = [iuran("2026-01"), iuran("2026-02"), iuran("2026-03")];
+
+  const payment = await paymentService.allocate(target, list, { amount: 120000, payment_date: paymentDate });
+
+  assert.deepEqual(
+    payment!.allocations.map(({ period, amount, remaining }) => ({ period, amount, remaining })),
+    [
+      { period: "2026-01", amount: 50000, remaining: 0 },
+      { period: "2026-02", amount: 50000, remaining: 0 },
+      { period: "2026-03", amount: 20000, remaining: 30000 },
+    ]
+  );
+  assert.deepEqual(list.map((item) => item.status), [
+    IURAN_STATUS.PAID,
+    IURAN_STATUS.PAID,
+    IURAN_STATUS.UNPAID,
+  ]);
+  assert.equal(list[2].paid_amount, 20000);
+  assert.equal(payment!.credit_added, 0);
+});
+
+test("money left after every period is paid becomes credit", async () => {
+  const payment = await paymentService.allocate(target, [iuran("2026-01")], {
+    amount: 80000,
+    payment_date: paymentDate,
+  });
+
+  assert.equal(payment!.credit_added, 30000);
+  assert.equal(payment!.credit_used, 0);
+  assert.equal(payment!.credit_balance_after, 30000);
+});
+
+test("existing credit is spent before the new cash", async () => {
+  credit = 30000;
+
+  const payment = await paymentService.allocate(target, [iuran("2026-01"), iuran("2026-02")], {
+    amount: 50000,
+    payment_date: paymentDate,
+  });
+
+  assert.equal(payment!.credit_used, 30000);
+  assert.equal(payment!.credit_added, 0);
+  assert.deepEqual(payment!.allocations.map((a) => a.remaining), [0, 20000]);
+  assert.equal(payment!.credit_balance_after, 0);
+});
+
+test("use_credit: false leaves the credit balance alone", async () => {
+  credit = 30000;
+
+  const payment = await paymentService.allocate(target, [iuran("2026-01")], {
+    amount: 50000,
+    payment_date: paymentDate,
+    use_credit: false,
+  });
+
+  assert.equal(payment!.credit_used, 0);
+  assert.equal(credit, 30000);
+});
+
+test("nothing is recorded when there is nothing to pay or keep", async () => {
+  const paid = iuran("2026-01");
+  paid.paid_amount = 50000;
+
+  assert.equal(
+    await paymentService.allocate(target, [paid], { amount: 0, payment_date: paymentDate }),
+    null
+  );
+});
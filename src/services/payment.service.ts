@@ -0,0 +1,318 @@
+import { HydratedDocument, Types } from "mongoose";
+import iuranModel, { Iuran } from "../models/iuran.model";
+import paymentModel, { Payment, PaymentAllocation } from "../models/payment.model";
+import { IURAN_STATUS, LEDGER_SOURCE } from "../utils/constants";
+import { getCurrentPeriod } from "../utils/period";
+import billingService, { BillingTarget } from "./billing.service";
+import dendaService from "./denda.service";
+import ledgerService from "./ledger.service";
+import receiptService from "./receipt.service";
+
+export interface PaymentInput {
+  amount: number; // cash received, 0 to only apply credit
+  payment_date: Date;
+  payment_method?: string | null;
+  note?: string | null;
+  submitted_by?: Types.ObjectId | string | null;
+  recorded_by?: Types.ObjectId | string | null;
+  use_credit?: boolean; // spend the existing credit balance first, default true
+}
+
+class PaymentService {
+  // Regular iuran of the target that still need money, oldest first
+  async openIuran(
+    target: BillingTarget,
+    untilPeriod: string
+  ): Promise<HydratedDocument<Iuran>[]> {
+    return iuranModel
+      .find({
+        ...billingService.filter(target),
+        type: "regular",
+        status: { $in: [IURAN_STATUS.UNPAID, IURAN_STATUS.REJECTED] },
+        period: { $lte: untilPeriod },
+      })
+      .sort({ period: 1 });
+  }
+
+  // Splits the cash (plus existing credit) over `iuranList` in the given order.
+  // Periods are left partially paid when the money runs out, whatever is left
+  // over becomes credit. Returns null when there was nothing to do.
+  async allocate(
+    target: BillingTarget,
+    iuranList: HydratedDocument<Iuran>[],
+    input: PaymentInput
+  ) {
+    const rule = await dendaService.getRule();
+    const credit =
+      input.use_credit === false ? 0 : await billingService.getCredit(target);
+
+    let funds = input.amount + credit;
+    const allocations: (PaymentAllocation & { assessed: number })[] = [];
+
+    for (const iuran of iuranList) {
+      if (funds <= 0) break;
+
+      const due = dendaService.outstanding(rule, iuran, input.payment_date);
+      const owed = due.amount + due.denda;
+      if (owed <= 0) continue;
+
+      const paid = Math.min(funds, owed);
+      const toAmount = Math.min(paid, due.amount);
+      funds -= paid;
+
+      allocations.push({
+        iuran: iuran._id,
+        period: iuran.period,
+        amount: toAmount,
+        denda: paid - toAmount,
+        remaining: owed - paid,
+        assessed: due.assessed,
+      });
+    }
+
+    // Credit is spent before the new cash
+    const spent = input.amount + credit - funds;
+    const creditUsed = Math.min(credit, spent);
+    const creditAdded = input.amount - (spent - creditUsed);
+
+    if (allocations.length === 0 && creditAdded === 0) return null;
+
+    const payment = new paymentModel({
+      user: target.user._id,
+      household: target.household?._id ?? null,
+      amount: input.amount,
+      credit_used: creditUsed,
+      credit_added: creditAdded,
+      allocations: allocations.map(({ assessed, ...allocation }) => allocation),
+      payment_date: input.payment_date,
+      payment_method: input.payment_method || null,
+      note: input.note || null,
+      submitted_by: input.submitted_by || null,
+      recorded_by: input.recorded_by || null,
+    });
+
+    const now = new Date();
+    const originals = new Map<string, Iuran>();
+    const changed: HydratedDocument<Iuran>[] = [];
+    for (const allocation of allocations) {
+      const iuran = iuranList.find((item) => item._id.equals(allocation.iuran))!;
+      originals.set(iuran._id.toString(), iuran.toObject());
+
+      iuran.paid_amount = (iuran.paid_amount || 0) + allocation.amount + allocation.denda;
+      iuran.denda = allocation.assessed;
+
+      if (allocation.remaining === 0) {
+        iuran.status = IURAN_STATUS.PAID;
+        iuran.payment_date = input.payment_date;
+        iuran.payment_method = input.payment_method || null;
+        iuran.confirmed_at = now;
+        iuran.confirmed_by = input.recorded_by
+          ? new Types.ObjectId(input.recorded_by.toString())
+          : null;
+        iuran.recorded_by = iuran.confirmed_by;
+        iuran.rejection_reason = null;
+        iuran.is_imported = false;
+        if (input.note) iuran.note = input.note;
+      } else if (iuran.status === IURAN_STATUS.REJECTED) {
+        iuran.status = IURAN_STATUS.UNPAID;
+      }
+      changed.push(iuran);
+    }
+
+    // Validate everything before the credit balance is touched
+    await payment.validate();
+    for (const iuran of changed) {
+      await iuran.validate();
+    }
+
+    if (!(await billingService.adjustCredit(target, creditAdded - creditUsed))) {
+      throw new Error("credit balance changed, please try again");
+    }
+    payment.credit_balance_after = await billingService.getCredit(target);
+
+    // A failed write gives the credit back and undoes what was already saved
+    const saved: HydratedDocument<Iuran>[] = [];
+    try {
+      await payment.save();
+      for (const iuran of changed) {
+        await iuran.save();
+        saved.push(iuran);
+      }
+    } catch (error) {
+      await billingService.adjustCredit(target, creditUsed - creditAdded);
+      await paymentModel.deleteOne({ _id: payment._id });
+      for (const iuran of saved) {
+        await iuranModel.replaceOne(
+          { _id: iuran._id },
+          originals.get(iuran._id.toString())!
+        );
+      }
+      throw error;
+    }
+
+    await ledgerService.syncPayment(payment);
+
+    // The payment stands even when numbering fails, migrate:payment-receipts
+    // issues receipts that are missing
+    try {
+      await receiptService.forPayment(payment._id, input.recorded_by);
+    } catch (error) {
+      console.error(`Failed to issue receipt for payment ${payment._id}:`, error);
+    }
+    return payment;
+  }
+
+  // Turns iuran marked PAID before payments were recorded into a payment,
+  // so they can be reversed like any other. Kas stays the same: the iuran's
+  // own ledger entries are replaced by the payment's.
+  async fromLegacyIuran(
+    target: BillingTarget,
+    iuranList: HydratedDocument<Iuran>[]
+  ): Promise<HydratedDocument<Payment> | string> {
+    if (iuranList.some((iuran) => iuran.status !== IURAN_STATUS.PAID)) {
+      return "iuran is not paid";
+    }
+    if (iuranList.some((iuran) => iuran.is_imported)) {
+      return "imported iuran have no kas entry to reverse";
+    }
+
+    const first = iuranList[0];
+    const allocations = iuranList.map((iuran) => ({
+      iuran: iuran._id,
+      period: iuran.period,
+      amount: iuran.amount,
+      denda: iuran.denda || 0,
+      remaining: 0,
+    }));
+
+    const payment = await paymentModel.create({
+      user: target.user._id,
+      household: target.household?._id ?? null,
+      amount: allocations.reduce((sum, a) => sum + a.amount + a.denda, 0),
+      allocations,
+      payment_date: first.payment_date || first.confirmed_at || new Date(),
+      payment_method: first.payment_method || null,
+      note: first.note || null,
+      recorded_by: first.recorded_by || first.confirmed_by || null,
+    });
+
+    for (const iuran of iuranList) {
+      iuran.paid_amount = iuran.amount + (iuran.denda || 0);
+      await iuran.save();
+    }
+
+    await ledgerService.removeSources(
+      LEDGER_SOURCE.IURAN,
+      iuranList.map((iuran) => iuran._id)
+    );
+    await ledgerService.syncPayment(payment);
+    return payment;
+  }
+
+  // Undoes a payment: its periods go back to UNPAID, credit it used is given
+  // back and credit it added is taken away. The payment itself is kept and a
+  // correction entry is posted. Returns an error message or null.
+  async reverse(
+    payment: HydratedDocument<Payment>,
+    reason: string,
+    by: Types.ObjectId | string | null | undefined,
+    receiptNumber?: string | null
+  ): Promise<string | null> {
+    // Claimed in the database first so two voids cannot both reverse it
+    const claimed = await paymentModel.findOneAndUpdate(
+      { _id: payment._id, voided_at: null },
+      {
+        voided_at: new Date(),
+        voided_by: by ? new Types.ObjectId(by.toString()) : null,
+        void_reason: reason,
+      },
+      { new: true }
+    );
+    if (!claimed) return "payment is already voided";
+
+    const release = () =>
+      paymentModel.updateOne(
+        { _id: payment._id },
+        { voided_at: null, voided_by: null, void_reason: null }
+      );
+
+    const target = await billingService.targetOf(payment);
+    if (!target) {
+      await release();
+      return "billed user or household not found";
+    }
+
+    const creditDelta = payment.credit_used - payment.credit_added;
+    if (!(await billingService.adjustCredit(target, creditDelta))) {
+      await release();
+      return "credit added by this payment has already been used, void the later payment first";
+    }
+
+    // A failed write gives the credit back and undoes what was already saved
+    const saved: { iuran: HydratedDocument<Iuran>; original: Iuran }[] = [];
+    try {
+      for (const allocation of payment.allocations) {
+        const iuran = await iuranModel.findById(allocation.iuran);
+        if (!iuran) continue;
+        const original = iuran.toObject();
+
+        iuran.paid_amount = Math.max(
+          (iuran.paid_amount || 0) - allocation.amount - allocation.denda,
+          0
+        );
+        if (iuran.paid_amount === 0) iuran.denda = 0;
+        iuran.status = IURAN_STATUS.UNPAID;
+        iuran.payment_date = null;
+        iuran.payment_method = null;
+        iuran.confirmed_at = null;
+        iuran.confirmed_by = null;
+        iuran.recorded_by = null;
+        await iuran.save();
+        saved.push({ iuran, original });
+      }
+    } catch (error) {
+      await billingService.adjustCredit(target, -creditDelta);
+      for (const { iuran, original } of saved) {
+        await iuranModel.replaceOne({ _id: iuran._id }, original);
+      }
+      await release();
+      throw error;
+    }
+
+    payment.voided_at = claimed.voided_at;
+    payment.voided_by = claimed.voided_by;
+    payment.void_reason = claimed.void_reason;
+
+    await ledgerService.syncPaymentReversal(payment, receiptNumber);
+    return null;
+  }
+
+  // Pays the open iuran of the target up to `untilPeriod`
+  async record(target: BillingTarget, input: PaymentInput, untilPeriod: string) {
+    return this.allocate(target, await this.openIuran(target, untilPeriod), input);
+  }
+
+  // Spends credit on iuran that have fallen due
+  async applyCredit(target: BillingTarget) {
+    return this.record(
+      target,
+      { amount: 0, payment_date: new Date(), payment_method: "credit" },
+      getCurrentPeriod()
+    );
+  }
+
+  // Monthly run for every household/user that still has credit
+  async applyAllCredit(): Promise<number> {
+    let applied = 0;
+    for (const target of await billingService.listCreditTargets()) {
+      try {
+        if (await this.applyCredit(target)) applied++;
+      } catch (error) {
+        console.error(`Failed to apply credit for ${billingService.label(target)}:`, error);
+      }
+    }
+    return applied;
+  }
+}
+
+export default new PaymentService();
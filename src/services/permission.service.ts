@@ -0,0 +1,83 @@
+import { Types } from "mongoose";
+import rolePermissionModel from "../models/rolePermission.model";
+import { PERMISSIONS, ROLES } from "../utils/constants";
+import { DEFAULT_ROLE_PERMISSIONS } from "../utils/permissions";
+
+// Other PM2 instances pick up edits once their cache expires
+const CACHE_TTL_MS = 30 * 1000;
+
+class PermissionService {
+  private cache: Map<string, Set<string>> | null = null;
+  private cachedAt = 0;
+
+  private async load(): Promise<Map<string, Set<string>>> {
+    if (this.cache && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    const saved = await rolePermissionModel.find().lean();
+    const savedByRole = new Map(saved.map((item) => [item.role, item.permissions]));
+
+    const matrix = new Map<string, Set<string>>();
+    for (const role of Object.values(ROLES)) {
+      // Admin can never lock itself out
+      const permissions =
+        role === ROLES.ADMIN
+          ? Object.values(PERMISSIONS)
+          : savedByRole.get(role) ?? DEFAULT_ROLE_PERMISSIONS[role];
+      matrix.set(role, new Set(permissions));
+    }
+
+    this.cache = matrix;
+    this.cachedAt = Date.now();
+    return matrix;
+  }
+
+  async hasPermission(
+    role: string | null | undefined,
+    permission: PERMISSIONS
+  ): Promise<boolean> {
+    if (!role) return false;
+    const matrix = await this.load();
+    return matrix.get(role)?.has(permission) ?? false;
+  }
+
+  async getMatrix(): Promise<Record<string, PERMISSIONS[]>> {
+    const matrix = await this.load();
+    return Object.fromEntries(
+      [...matrix.entries()].map(([role, permissions]) => [
+        role,
+        [...permissions] as PERMISSIONS[],
+      ])
+    );
+  }
+
+  // Roles (other than admin) holding a permission, e.g. to notify reviewers
+  async rolesWith(permission: PERMISSIONS): Promise<ROLES[]> {
+    const matrix = await this.load();
+    return Object.values(ROLES).filter(
+      (role) => role !== ROLES.ADMIN && matrix.get(role)?.has(permission)
+    );
+  }
+
+  async setRolePermissions(
+    role: ROLES,
+    permissions: PERMISSIONS[],
+    updatedBy: Types.ObjectId | string
+  ): Promise<void> {
+    await rolePermissionModel.findOneAndUpdate(
+      { role },
+      { role, permissions: [...new Set(permissions)], updated_by: updatedBy },
+      { upsert: true }
+    );
+    this.cache = null;
+  }
+
+  // Drops the saved mapping so the role falls back to DEFAULT_ROLE_PERMISSIONS
+  async resetRole(role: ROLES): Promise<void> {
+    await rolePermissionModel.deleteOne({ role });
+    this.cache = null;
+  }
+}
+
+export default new PermissionService();
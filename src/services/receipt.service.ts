@@ -0,0 +1,433 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { HydratedDocument, Types } from "mongoose";
+import counterModel from "../models/counter.model";
+import iuranModel from "../models/iuran.model";
+import paymentModel, { Payment } from "../models/payment.model";
+import receiptModel, { Receipt } from "../models/receipt.model";
+import userModel from "../models/user.model";
+import { PERMISSIONS } from "../utils/constants";
+import { IUserToken } from "../utils/interface";
+import { PUBLIC_URL } from "../utils/env";
+import { generateReceiptPDF, ReceiptData } from "../utils/pdfGenerator";
+import billingService from "./billing.service";
+import paymentService from "./payment.service";
+import permissionService from "./permission.service";
+
+type IssuedBy = Types.ObjectId | string | null | undefined;
+
+// Receipt content that does not depend on the number it is issued under
+type ReceiptContent = Omit<ReceiptData, "receiptNumber" | "receiptDate" | "verifyUrl">;
+
+function userInfo(user: any) {
+  return {
+    id: user._id.toString(),
+    username: user.username,
+    email: user.email,
+  };
+}
+
+function householdInfo(household: any, head: any) {
+  return household
+    ? {
+        id: household._id.toString(),
+        kk_number: household.kk_number || null,
+        address: household.address,
+        head: head.username,
+      }
+    : null;
+}
+
+function recorderInfo(recorder: any) {
+  return {
+    id: recorder?._id?.toString() || "",
+    username: recorder?.username || "Unknown",
+  };
+}
+
+// Only the last 4 digits of a KK number are shown publicly
+function maskKk(kkNumber: string | null | undefined): string | null {
+  return kkNumber ? `${"*".repeat(Math.max(kkNumber.length - 4, 0))}${kkNumber.slice(-4)}` : null;
+}
+
+class ReceiptService {
+  // Atomic per-year sequence: RCP/2026/000123
+  private async nextNumber(year: number) {
+    const counter = await counterModel.findOneAndUpdate(
+      { key: `receipt:${year}` },
+      { $inc: { seq: 1 } },
+      { upsert: true, new: true }
+    );
+    return {
+      year,
+      sequence: counter.seq,
+      number: `RCP/${year}/${String(counter.seq).padStart(6, "0")}`,
+    };
+  }
+
+  // Receipts `user` may see: all of them with IURAN_RECORD, otherwise only
+  // their own or their household's. Null when the user no longer exists.
+  async accessFilter(user?: IUserToken): Promise<Record<string, any> | null> {
+    if (await permissionService.hasPermission(user?.role, PERMISSIONS.IURAN_RECORD)) {
+      return {};
+    }
+
+    const account = await userModel.findById(user?.id).select("household").lean();
+    if (!account) return null;
+
+    const owned: Record<string, any>[] = [{ user: account._id }];
+    if (account.household) owned.push({ household: account.household });
+    return { $or: owned };
+  }
+
+  verifyUrl(token: string): string {
+    return `${PUBLIC_URL}/api/receipt/verify/${token}`;
+  }
+
+  // `seriesYear` is the RCP/<year> series, the year the money was received
+  private async issue(
+    fields: {
+      payment?: Types.ObjectId | null;
+      iuran?: Types.ObjectId[];
+      iuran_key?: string | null;
+      user: Types.ObjectId;
+      household?: Types.ObjectId | null;
+    },
+    content: ReceiptContent,
+    issuedBy: IssuedBy,
+    seriesYear: number
+  ): Promise<HydratedDocument<Receipt>> {
+    const issuedAt = new Date();
+    const { year, sequence, number } = await this.nextNumber(seriesYear);
+    const verifyToken = crypto.randomBytes(16).toString("hex");
+
+    return receiptModel.create({
+      ...fields,
+      number,
+      year,
+      sequence,
+      verify_token: verifyToken,
+      data: {
+        ...content,
+        receiptNumber: number,
+        receiptDate: issuedAt,
+        verifyUrl: this.verifyUrl(verifyToken),
+      },
+      issued_by: issuedBy || null,
+    });
+  }
+
+  // Writes the PDF once, and again only when the file has gone missing
+  // or `force` is set (the receipt was voided)
+  async ensureFile(receipt: HydratedDocument<Receipt>, force = false): Promise<string> {
+    const fileName =
+      receipt.file_name ||
+      `${receipt.number.replace(/\//g, "-")}_${receipt.verify_token.slice(0, 12)}.pdf`;
+
+    if (
+      force ||
+      !receipt.file_name ||
+      !fs.existsSync(path.join(process.cwd(), "receipts", fileName))
+    ) {
+      await generateReceiptPDF(receipt.data as ReceiptData, fileName);
+      if (!receipt.file_name) {
+        receipt.file_name = fileName;
+        await receipt.save();
+      }
+    }
+
+    return `/receipts/${fileName}`;
+  }
+
+  // Paid iuran of one household/user, populated with user, household and
+  // recorded_by. The same set of iuran always gets the same receipt. Iuran
+  // settled through a payment already have that payment's receipt, only
+  // iuran marked paid directly (before payments were recorded) get their own.
+  // Returns an error message when the iuran span several payments or are
+  // partly on another receipt.
+  async forIuran(
+    iuranRecords: any[],
+    issuedBy: IssuedBy
+  ): Promise<HydratedDocument<Receipt> | string> {
+    const iuranIds = iuranRecords.map((iuran) => iuran._id);
+
+    const payments = await paymentModel
+      .find({ "allocations.iuran": { $in: iuranIds }, voided_at: null })
+      .select("allocations")
+      .lean();
+    if (payments.length > 0) {
+      const covered = new Set(
+        payments.flatMap((payment) =>
+          payment.allocations.map((allocation) => allocation.iuran.toString())
+        )
+      );
+      if (iuranIds.some((id) => !covered.has(id.toString()))) {
+        return "some of these iuran were paid through a payment, request their receipts separately";
+      }
+      if (payments.length > 1) {
+        return `these iuran were paid through ${payments.length} payments, use the payment receipts: ${payments
+          .map((payment) => payment._id.toString())
+          .join(", ")}`;
+      }
+      return this.forPayment(payments[0]._id, issuedBy);
+    }
+
+    // An iuran is on at most one live receipt: the same set gets the same
+    // receipt back, an overlapping set is refused
+    const ids = iuranIds.map((id) => id.toString()).sort();
+    const key = ids.join(",");
+    const existing = await receiptModel.findOne({
+      payment: null,
+      voided_at: null,
+      iuran: { $in: iuranIds },
+    });
+    if (existing) {
+      const sameSet =
+        existing.iuran.length === iuranIds.length &&
+        existing.iuran.every((id) => ids.includes(id.toString()));
+      if (sameSet) return existing;
+      return `some of these iuran are already on receipt ${existing.number}, request that receipt instead`;
+    }
+
+    try {
+      return await this.issueForIuran(iuranRecords, key, issuedBy);
+    } catch (error: any) {
+      // Issued concurrently for the same iuran
+      if (error?.code === 11000) {
+        const issued = await receiptModel.findOne({ iuran_key: key });
+        if (issued) return issued;
+      }
+      throw error;
+    }
+  }
+
+  private async issueForIuran(iuranRecords: any[], key: string, issuedBy: IssuedBy) {
+    const periodItems = iuranRecords
+      .map((iuran) => ({
+        period: iuran.period,
+        amount: iuran.amount,
+        denda: iuran.denda || 0,
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period));
+
+    // Denda is paid on top of the iuran amount
+    const totalDenda = periodItems.reduce((sum, item) => sum + item.denda, 0);
+    const first = iuranRecords[0];
+
+    return this.issue(
+      {
+        iuran: iuranRecords.map((iuran) => iuran._id),
+        iuran_key: key,
+        user: first.user._id,
+        household: first.household?._id ?? null,
+      },
+      {
+        paymentDate: new Date(first.payment_date || new Date()),
+        user: userInfo(first.user),
+        household: householdInfo(first.household, first.user),
+        periods: periodItems.map((item) => item.period),
+        periodItems,
+        amountPerPeriod: first.amount,
+        totalPeriods: periodItems.length,
+        totalDenda,
+        totalAmount: periodItems.reduce((sum, item) => sum + item.amount, totalDenda),
+        paymentMethod: first.payment_method || null,
+        note: first.note || null,
+        recordedBy: recorderInfo(first.recorded_by),
+      },
+      issuedBy,
+      new Date(first.payment_date || new Date()).getFullYear()
+    );
+  }
+
+  // The receipt of a payment, null when none was issued or `access`
+  // (see accessFilter) does not cover it
+  async findForPayment(
+    paymentId: Types.ObjectId | string,
+    access: Record<string, any> = {}
+  ) {
+    return receiptModel.findOne({ payment: paymentId, ...access });
+  }
+
+  // Issued by payment.service when the payment is written, so numbers follow
+  // the order payments were made. One receipt per payment.
+  async forPayment(paymentId: Types.ObjectId | string, issuedBy: IssuedBy) {
+    const existing = await this.findForPayment(paymentId);
+    if (existing) return existing;
+
+    const payment: any = await paymentModel
+      .findById(paymentId)
+      .populate("user", "username email")
+      .populate("household", "kk_number address")
+      .populate("recorded_by", "username")
+      .lean();
+    if (!payment) throw new Error("payment not found");
+
+    const periodItems = (payment.allocations as any[])
+      .map((allocation) => ({
+        period: allocation.period,
+        amount: allocation.amount,
+        denda: allocation.denda,
+        remaining: allocation.remaining,
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period));
+
+    try {
+      return await this.issue(
+        {
+          payment: payment._id,
+          iuran: payment.allocations.map((allocation: any) => allocation.iuran),
+          user: payment.user._id,
+          household: payment.household?._id ?? null,
+        },
+        {
+          paymentDate: new Date(payment.payment_date),
+          user: userInfo(payment.user),
+          household: householdInfo(payment.household, payment.user),
+          periods: periodItems.map((item) => item.period),
+          periodItems,
+          amountPerPeriod: periodItems[0]?.amount || 0,
+          totalPeriods: periodItems.length,
+          totalDenda: periodItems.reduce((sum, item) => sum + item.denda, 0),
+          totalAmount: payment.amount,
+          creditUsed: payment.credit_used,
+          creditAdded: payment.credit_added,
+          creditBalance: payment.credit_balance_after ?? null,
+          paymentMethod: payment.payment_method || null,
+          note: payment.note || null,
+          recordedBy: recorderInfo(payment.recorded_by),
+        },
+        issuedBy,
+        new Date(payment.payment_date).getFullYear()
+      );
+    } catch (error: any) {
+      // Issued concurrently for the same payment
+      if (error?.code === 11000) {
+        const issued = await this.findForPayment(payment._id);
+        if (issued) return issued;
+      }
+      throw error;
+    }
+  }
+
+  // Marks the receipt BATAL. The PDF is rendered again on the next download.
+  private async markVoided(
+    receipt: HydratedDocument<Receipt>,
+    reason: string,
+    by: IssuedBy
+  ) {
+    receipt.voided_at = new Date();
+    receipt.voided_by = by ? new Types.ObjectId(by.toString()) : null;
+    receipt.void_reason = reason;
+    receipt.iuran_key = null; // the iuran may get a new receipt once paid again
+    receipt.data = { ...receipt.data, voided: { at: receipt.voided_at, reason } };
+    receipt.markModified("data");
+    await receipt.save();
+
+    if (receipt.file_name) await this.ensureFile(receipt, true);
+  }
+
+  // Reverses the payment behind a receipt, turning iuran paid before payments
+  // were recorded into a payment first. Returns the payment or an error message.
+  private async reversePaymentOf(
+    receipt: HydratedDocument<Receipt>,
+    reason: string,
+    by: IssuedBy
+  ): Promise<HydratedDocument<Payment> | string> {
+    let payment = receipt.payment ? await paymentModel.findById(receipt.payment) : null;
+
+    if (!payment) {
+      if (receipt.payment) return "payment of this receipt not found";
+
+      // Receipt for iuran paid before payments were recorded
+      const iuranList = await iuranModel.find({ _id: { $in: receipt.iuran } });
+      if (iuranList.length !== receipt.iuran.length) {
+        return "some iuran of this receipt no longer exist";
+      }
+      if (iuranList.some((iuran) => iuran.paid_amount)) {
+        return "these iuran were paid through a payment, void the payment's receipt instead";
+      }
+
+      const target = await billingService.targetOf(iuranList[0]);
+      if (!target) return "billed user or household not found";
+
+      const converted = await paymentService.fromLegacyIuran(target, iuranList);
+      if (typeof converted === "string") return converted;
+
+      payment = converted;
+      receipt.payment = payment._id;
+      await receipt.save();
+    }
+
+    const error = await paymentService.reverse(payment, reason, by, receipt.number);
+    return error || payment;
+  }
+
+  // Voids a receipt and reverses the payment behind it. Receipts issued for
+  // single iuran of that payment are voided too. Returns an error message or null.
+  async voidReceipt(
+    receipt: HydratedDocument<Receipt>,
+    reason: string,
+    by: IssuedBy
+  ): Promise<string | null> {
+    // Claimed in the database first so two voids cannot both run
+    const claimed = await receiptModel.updateOne(
+      { _id: receipt._id, voided_at: null },
+      { voided_at: new Date() }
+    );
+    if (claimed.modifiedCount === 0) return "receipt is already voided";
+
+    const release = () =>
+      receiptModel.updateOne({ _id: receipt._id }, { voided_at: null });
+
+    let payment: HydratedDocument<Payment> | string;
+    try {
+      payment = await this.reversePaymentOf(receipt, reason, by);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+    if (typeof payment === "string") {
+      await release();
+      return payment;
+    }
+
+    await this.markVoided(receipt, reason, by);
+
+    const related = await receiptModel.find({
+      _id: { $ne: receipt._id },
+      payment: null,
+      voided_at: null,
+      iuran: { $in: payment.allocations.map((allocation) => allocation.iuran) },
+    });
+    for (const other of related) {
+      await this.markVoided(other, reason, by);
+    }
+
+    return null;
+  }
+
+  // What the public verify page shows, null when the token is unknown
+  async verify(token: string) {
+    const receipt = await receiptModel.findOne({ verify_token: token }).lean();
+    if (!receipt) return null;
+
+    const data = receipt.data as ReceiptData;
+    return {
+      valid: !receipt.voided_at,
+      status: receipt.voided_at ? "void" : "issued",
+      voided_at: receipt.voided_at || null,
+      void_reason: receipt.void_reason || null,
+      number: receipt.number,
+      issued_at: receipt.createdAt,
+      payment_date: data.paymentDate,
+      paid_by: data.user.username,
+      kk_number: maskKk(data.household?.kk_number),
+      periods: data.periodItems,
+      total_amount: data.totalAmount,
+    };
+  }
+}
+
+export default new ReceiptService();
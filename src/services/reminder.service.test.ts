@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Types } from "mongoose";
+import { REMINDER_AUDIENCE } from "../utils/constants";
+import { periodLabel } from "../utils/period";
+import reminderService, {
+  DEFAULT_REMINDER_POLICIES,
+  Debtor,
+  renderTemplate,
+} from "./reminder.service";
+
+const debtor = (periods: string[], total: number): Debtor => ({
+  user: { _id: new Types.ObjectId(), username: "Budi", address: "Blok A/1" },
+  periods,
+  amount: total,
+  denda: 0,
+  total,
+});
+
+test("renderTemplate fills known variables and keeps unknown ones", () => {
+  assert.equal(
+    renderTemplate("Halo {name}, {count} bulan {unknown}", { name: "Siti", count: 2 }),
+    "Halo Siti, 2 bulan {unknown}"
+  );
+  assert.equal(renderTemplate("{total} {total}", { total: 0 }), "0 0");
+});
+
+test("policies match debtors by number of unpaid periods", () => {
+  const single = { min_periods: 1, max_periods: 1 };
+  const twoOrMore = { min_periods: 2, max_periods: null };
+
+  assert.equal(reminderService.matches(single, debtor(["2026-03"], 50000)), true);
+  assert.equal(reminderService.matches(single, debtor(["2026-02", "2026-03"], 100000)), false);
+  assert.equal(reminderService.matches(twoOrMore, debtor(["2026-03"], 50000)), false);
+  assert.equal(
+    reminderService.matches(twoOrMore, debtor(["2026-01", "2026-02", "2026-03"], 150000)),
+    true
+  );
+});
+
+test("debtor reminders are composed only for matching debtors", async () => {
+  const policy = {
+    ...DEFAULT_REMINDER_POLICIES[1],
+    _id: new Types.ObjectId(),
+    audience: REMINDER_AUDIENCE.DEBTOR,
+  };
+  const late = debtor(["2026-02", "2026-03"], 100000);
+
+  const messages = await reminderService.compose(
+    policy,
+    [debtor(["2026-03"], 50000), late],
+    new Date(2026, 2, 15)
+  );
+
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].user, late.user._id);
+  assert.equal(messages[0].title, "❗ Tunggakan Iuran 2 Bulan");
+  assert.ok(messages[0].body.startsWith("Halo Budi, Anda memiliki tunggakan iuran 2 bulan"));
+  assert.ok(messages[0].body.includes(periodLabel("2026-02")));
+  assert.ok(messages[0].body.includes(`Rp ${(100000).toLocaleString("id-ID")}`));
+});
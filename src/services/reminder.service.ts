@@ -0,0 +1,288 @@
+import { Types } from "mongoose";
+import iuranModel from "../models/iuran.model";
+import reminderLogModel from "../models/reminderLog.model";
+import reminderPolicyModel, { ReminderPolicy } from "../models/reminderPolicy.model";
+import userModel from "../models/user.model";
+import { IURAN_STATUS, REMINDER_AUDIENCE, ROLES } from "../utils/constants";
+import { periodLabel, toPeriod } from "../utils/period";
+import dendaService from "./denda.service";
+import notificationService from "./notification.service";
+
+type Policy = ReminderPolicy & { _id: Types.ObjectId };
+
+// Billed user (the head for households) with everything still unpaid up to
+// the current period
+export interface Debtor {
+  user: { _id: Types.ObjectId; username: string; address?: string | null };
+  periods: string[];
+  amount: number;
+  denda: number;
+  total: number;
+}
+
+export interface ReminderMessage {
+  user: Types.ObjectId;
+  periods: string[];
+  total: number;
+  title: string;
+  body: string;
+}
+
+// Seeded when no policy exists yet. The first one replaces the fixed
+// reminder on the 10th.
+export const DEFAULT_REMINDER_POLICIES: Omit<ReminderPolicy, "created_by" | "updated_by">[] = [
+  {
+    name: "Pengingat jatuh tempo",
+    enabled: true,
+    audience: REMINDER_AUDIENCE.DEBTOR,
+    day_of_month: 10,
+    min_periods: 1,
+    max_periods: 1,
+    roles: [],
+    top_n: 10,
+    title_template: "⚠️ Jatuh Tempo - Pembayaran Iuran",
+    body_template:
+      "Halo {name}, iuran {periods} sudah jatuh tempo. Jumlah: {total}. Mohon segera melakukan pembayaran.",
+  },
+  {
+    name: "Tunggakan 2 bulan atau lebih",
+    enabled: true,
+    audience: REMINDER_AUDIENCE.DEBTOR,
+    day_of_month: 15,
+    min_periods: 2,
+    max_periods: null,
+    roles: [],
+    top_n: 10,
+    title_template: "❗ Tunggakan Iuran {count} Bulan",
+    body_template:
+      "Halo {name}, Anda memiliki tunggakan iuran {count} bulan ({periods}) dengan total {total}. Harap segera dilunasi atau hubungi bendahara.",
+  },
+  {
+    name: "Ringkasan tunggakan untuk pengurus",
+    enabled: true,
+    audience: REMINDER_AUDIENCE.PENGURUS,
+    day_of_month: 1,
+    min_periods: 2,
+    max_periods: null,
+    roles: [ROLES.RT, ROLES.BENDAHARA],
+    top_n: 10,
+    title_template: "📊 Ringkasan Tunggakan {month}",
+    body_template: "{count} warga menunggak, total {total}. Tunggakan terbesar:\n{list}",
+  },
+];
+
+const formatRupiah = (value: number) => `Rp ${value.toLocaleString("id-ID")}`;
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+// Fills {variable} placeholders, unknown ones are left as they are
+export function renderTemplate(template: string, variables: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, key) =>
+    variables[key] !== undefined ? String(variables[key]) : match
+  );
+}
+
+class ReminderService {
+  async ensureDefaults(): Promise<void> {
+    if (await reminderPolicyModel.exists({})) return;
+    await reminderPolicyModel.insertMany(DEFAULT_REMINDER_POLICIES);
+  }
+
+  // Unpaid and rejected iuran up to the period of `asOf`, per billed user,
+  // largest arrears first
+  async debtors(asOf: Date): Promise<Debtor[]> {
+    const rule = await dendaService.getRule();
+    const unpaid = await iuranModel
+      .find({
+        status: { $in: [IURAN_STATUS.UNPAID, IURAN_STATUS.REJECTED] },
+        period: { $lte: toPeriod(asOf) },
+      })
+      .populate("user", "username address isDeleted")
+      .sort({ period: 1 })
+      .lean();
+
+    const debtors = new Map<string, Debtor>();
+    for (const iuran of unpaid as any[]) {
+      if (!iuran.user || iuran.user.isDeleted) continue;
+
+      const { amount, denda } = dendaService.outstanding(rule, iuran, asOf);
+      if (amount + denda <= 0) continue;
+
+      const key = iuran.user._id.toString();
+      if (!debtors.has(key)) {
+        debtors.set(key, {
+          user: { _id: iuran.user._id, username: iuran.user.username, address: iuran.user.address },
+          periods: [],
+          amount: 0,
+          denda: 0,
+          total: 0,
+        });
+      }
+      const debtor = debtors.get(key)!;
+      if (!debtor.periods.includes(iuran.period)) debtor.periods.push(iuran.period);
+      debtor.amount += amount;
+      debtor.denda += denda;
+      debtor.total += amount + denda;
+    }
+
+    return Array.from(debtors.values()).sort(
+      (a, b) => b.periods.length - a.periods.length || b.total - a.total
+    );
+  }
+
+  matches(policy: Pick<ReminderPolicy, "min_periods" | "max_periods">, debtor: Debtor) {
+    const count = debtor.periods.length;
+    return count >= policy.min_periods && (policy.max_periods == null || count <= policy.max_periods);
+  }
+
+  // The messages the policy would send now
+  async compose(policy: Policy, debtors: Debtor[], asOf: Date): Promise<ReminderMessage[]> {
+    const matching = debtors.filter((debtor) => this.matches(policy, debtor));
+    const month = periodLabel(toPeriod(asOf));
+
+    if (policy.audience === REMINDER_AUDIENCE.DEBTOR) {
+      return matching.map((debtor) => {
+        const variables = {
+          name: debtor.user.username,
+          address: debtor.user.address || "-",
+          periods: debtor.periods.map(periodLabel).join(", "),
+          count: debtor.periods.length,
+          total: formatRupiah(debtor.total),
+          denda: formatRupiah(debtor.denda),
+          month,
+        };
+        return {
+          user: debtor.user._id,
+          periods: debtor.periods,
+          total: debtor.total,
+          title: renderTemplate(policy.title_template, variables),
+          body: renderTemplate(policy.body_template, variables),
+        };
+      });
+    }
+
+    // PENGURUS summary, nothing to report without matching debtors
+    if (matching.length === 0 || policy.roles.length === 0) return [];
+
+    const total = matching.reduce((sum, debtor) => sum + debtor.total, 0);
+    const list = matching
+      .slice(0, policy.top_n)
+      .map(
+        (debtor, index) =>
+          `${index + 1}. ${debtor.user.username} - ${debtor.periods.length} bulan - ${formatRupiah(debtor.total)}`
+      )
+      .join("\n");
+
+    const recipients = await userModel
+      .find({ role: { $in: policy.roles }, isDeleted: { $ne: true } })
+      .select("_id username")
+      .lean();
+
+    return recipients.map((recipient) => {
+      const variables = {
+        name: recipient.username,
+        count: matching.length,
+        total: formatRupiah(total),
+        list,
+        month,
+      };
+      return {
+        user: recipient._id,
+        periods: [],
+        total,
+        title: renderTemplate(policy.title_template, variables),
+        body: renderTemplate(policy.body_template, variables),
+      };
+    });
+  }
+
+  // Sends what has not been sent in this cycle yet. The log entry is written
+  // first, its unique index stops a second send.
+  private async send(policy: Policy, messages: ReminderMessage[], asOf: Date) {
+    const cycle = toPeriod(asOf);
+    let sent = 0;
+    let skipped = 0;
+
+    for (const message of messages) {
+      try {
+        await reminderLogModel.create({
+          policy: policy._id,
+          user: message.user,
+          cycle,
+          periods: message.periods,
+          total: message.total,
+          title: message.title,
+          body: message.body,
+          sent_at: asOf,
+        });
+      } catch (error) {
+        if (!isDuplicateKey(error)) throw error;
+        skipped++;
+        continue;
+      }
+
+      await notificationService.sendToUser(message.user, {
+        title: message.title,
+        body: message.body,
+        data:
+          policy.audience === REMINDER_AUDIENCE.DEBTOR
+            ? {
+                type: "jatuh_tempo_reminder",
+                policyId: policy._id.toString(),
+                unpaidCount: message.periods.length,
+                totalAmount: message.total.toString(),
+              }
+            : { type: "arrears_summary", policyId: policy._id.toString() },
+      });
+      sent++;
+    }
+    return { sent, skipped };
+  }
+
+  // Daily job: every enabled policy whose day has come this month. Debtor
+  // policies go from the firmest down and a warga gets at most one of them
+  // per run.
+  async runDue(asOf = new Date()) {
+    await this.ensureDefaults();
+
+    const policies = await reminderPolicyModel
+      .find({ enabled: true, day_of_month: { $lte: asOf.getDate() } })
+      .sort({ min_periods: -1 })
+      .lean();
+    const counts = { policies: policies.length, sent: 0, skipped: 0 };
+    if (policies.length === 0) return counts;
+
+    const debtors = await this.debtors(asOf);
+    const reminded = new Set<string>();
+
+    for (const policy of policies) {
+      let messages = await this.compose(policy, debtors, asOf);
+      if (policy.audience === REMINDER_AUDIENCE.DEBTOR) {
+        messages = messages.filter((message) => !reminded.has(message.user.toString()));
+        messages.forEach((message) => reminded.add(message.user.toString()));
+      }
+
+      const result = await this.send(policy, messages, asOf);
+      counts.sent += result.sent;
+      counts.skipped += result.skipped;
+    }
+    return counts;
+  }
+
+  // What the policy would send now, marking who already got it this cycle
+  async preview(policy: Policy, asOf = new Date()) {
+    const messages = await this.compose(policy, await this.debtors(asOf), asOf);
+    const sent = await reminderLogModel
+      .find({ policy: policy._id, cycle: toPeriod(asOf) })
+      .select("user")
+      .lean();
+    const sentTo = new Set(sent.map((log) => log.user.toString()));
+
+    return messages.map((message) => ({
+      ...message,
+      already_sent: sentTo.has(message.user.toString()),
+    }));
+  }
+}
+
+export default new ReminderService();
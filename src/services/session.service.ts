@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import sessionModel from "../models/session.model";
+import userModel from "../models/user.model";
+import { USER_STATUS } from "../utils/constants";
+import { ACCESS_TOKEN_EXPIRES_IN, generateToken } from "../utils/jwt";
+
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// How long authMiddleware may trust a session it found active without asking
+// the database again. Revoking through this service takes effect immediately.
+const ACTIVE_SESSION_CACHE_MS = 30 * 1000;
+const ACTIVE_SESSION_CACHE_MAX = 5000;
+
+export interface DeviceInfo {
+  device_name?: string | null;
+  user_agent?: string | null;
+  ip?: string | null;
+}
+
+export interface TokenPair {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // access token lifetime in seconds
+  session_id: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(48).toString("hex");
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+class SessionService {
+  // session id -> { user id, trusted until }
+  private activeCache = new Map<string, { user: string; until: number }>();
+
+  private forget(filter: (sessionId: string, userId: string) => boolean): void {
+    for (const [sessionId, entry] of this.activeCache) {
+      if (filter(sessionId, entry.user)) this.activeCache.delete(sessionId);
+    }
+  }
+
+  // True while the session behind an access token has not been revoked or
+  // expired, so revoked devices are locked out before their token expires
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const now = Date.now();
+    const cached = this.activeCache.get(sessionId);
+    if (cached && cached.until > now && cached.user === userId) return true;
+
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+    const session = await sessionModel
+      .findOne({
+        _id: sessionId,
+        user: userId,
+        revoked_at: null,
+        expires_at: { $gt: new Date() },
+      })
+      .select("_id")
+      .lean();
+    if (!session) {
+      this.activeCache.delete(sessionId);
+      return false;
+    }
+
+    if (this.activeCache.size >= ACTIVE_SESSION_CACHE_MAX) {
+      this.activeCache.clear();
+    }
+    this.activeCache.set(sessionId, { user: userId, until: now + ACTIVE_SESSION_CACHE_MS });
+    return true;
+  }
+
+  private issue(
+    user: { _id: Types.ObjectId; role?: string | null },
+    sessionId: Types.ObjectId,
+    refreshToken: string
+  ): TokenPair {
+    return {
+      access_token: generateToken({
+        id: user._id,
+        role: user.role as any,
+        sid: sessionId.toString(),
+      }),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_EXPIRES_IN,
+      session_id: sessionId.toString(),
+    };
+  }
+
+  async create(
+    user: { _id: Types.ObjectId; role?: string | null },
+    device: DeviceInfo
+  ): Promise<TokenPair> {
+    const refreshToken = newRefreshToken();
+
+    const session = await sessionModel.create({
+      user: user._id,
+      refresh_token_hash: hashToken(refreshToken),
+      device_name: device.device_name || null,
+      user_agent: device.user_agent || null,
+      ip: device.ip || null,
+      last_used_at: new Date(),
+      expires_at: refreshExpiry(),
+    });
+
+    return this.issue(user, session._id, refreshToken);
+  }
+
+  // Exchanges a refresh token for a new pair. The old refresh token stops working.
+  // Returns an error message when the refresh token cannot be used.
+  async rotate(
+    refreshToken: string,
+    device: DeviceInfo
+  ): Promise<TokenPair | string> {
+    const tokenHash = hashToken(refreshToken);
+    const session = await sessionModel.findOne({ refresh_token_hash: tokenHash });
+
+    if (!session) {
+      // A rotated token being replayed means it leaked: kill that session
+      const reused = await sessionModel.findOne({
+        previous_refresh_token_hash: tokenHash,
+        revoked_at: null,
+      });
+      if (reused) {
+        await this.revoke(reused._id, "refresh token reuse detected");
+      }
+      return "invalid refresh token";
+    }
+
+    if (session.revoked_at) {
+      return "session has been revoked";
+    }
+
+    if (session.expires_at < new Date()) {
+      return "session expired";
+    }
+
+    const user = await userModel.findById(session.user).select("role status isDeleted");
+    if (!user || user.isDeleted || user.status === USER_STATUS.MOVED) {
+      await this.revoke(session._id, "user no longer active");
+      return "user not found";
+    }
+
+    const nextRefreshToken = newRefreshToken();
+    session.previous_refresh_token_hash = tokenHash;
+    session.refresh_token_hash = hashToken(nextRefreshToken);
+    session.last_used_at = new Date();
+    session.expires_at = refreshExpiry();
+    if (device.user_agent) session.user_agent = device.user_agent;
+    if (device.ip) session.ip = device.ip;
+    await session.save();
+
+    return this.issue(user, session._id, nextRefreshToken);
+  }
+
+  async revoke(
+    sessionId: Types.ObjectId | string,
+    reason: string,
+    userId?: Types.ObjectId | string
+  ): Promise<boolean> {
+    const filter: Record<string, any> = { _id: sessionId, revoked_at: null };
+    if (userId) filter.user = userId;
+
+    const result = await sessionModel.updateOne(filter, {
+      revoked_at: new Date(),
+      revoked_reason: reason,
+    });
+    this.activeCache.delete(sessionId.toString());
+    return result.modifiedCount > 0;
+  }
+
+  async revokeAllForUser(
+    userId: Types.ObjectId | string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const filter: Record<string, any> = { user: userId, revoked_at: null };
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+    const result = await sessionModel.updateMany(filter, {
+      revoked_at: new Date(),
+      revoked_reason: reason,
+    });
+    this.forget(
+      (sessionId, user) => user === userId.toString() && sessionId !== exceptSessionId
+    );
+    return result.modifiedCount;
+  }
+
+  async listActive(userId: Types.ObjectId | string) {
+    return sessionModel
+      .find({
+        user: userId,
+        revoked_at: null,
+        expires_at: { $gt: new Date() },
+      })
+      .select("device_name user_agent ip last_used_at expires_at createdAt")
+      .sort({ last_used_at: -1 })
+      .lean();
+  }
+}
+
+export default new SessionService();
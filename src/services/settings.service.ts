@@ -0,0 +1,14 @@
+import settingsModel from "../models/settings.model";
+
+// Settings keys
+export const SETTINGS_KEYS = {
+  INITIAL_BALANCE: "initial_balance",
+  DENDA_RULE: "denda_rule",
+  EVENT_CATEGORIES: "event_categories",
+};
+
+// Helper function to get a setting value
+export async function getSettingValue(key: string, defaultValue: any = null): Promise<any> {
+  const setting = await settingsModel.findOne({ key }).lean();
+  return setting ? setting.value : defaultValue;
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { afterEach, mock, test } from "node:test";
+import { Types } from "mongoose";
+import tariffModel, { Tariff } from "../models/tariff.model";
+import { DEFAULT_IURAN_AMOUNT } from "../utils/constants";
+import tariffService from "./tariff.service";
+
+const warga = { _id: new Types.ObjectId(), address: "Blok A/1" };
+const tetangga = { _id: new Types.ObjectId(), address: "Blok B/2" };
+
+// tariffModel.find().lean() resolving to `tariffs`
+function withSchedule(tariffs: Partial<Tariff>[]) {
+  mock.method(tariffModel, "find", () => ({ lean: async () => tariffs }));
+}
+
+afterEach(() => mock.restoreAll());
+
+test("the latest effective default tariff applies", async () => {
+  withSchedule([
+    { scope: "default", amount: 40000, effective_from: "2024-01" },
+    { scope: "default", amount: 50000, effective_from: "2026-01" },
+  ]);
+  const resolve = await tariffService.loadResolver();
+
+  assert.equal(resolve(warga, "2023-12"), DEFAULT_IURAN_AMOUNT);
+  assert.equal(resolve(warga, "2025-12"), 40000);
+  assert.equal(resolve(warga, "2026-01"), 50000);
+});
+
+test("overrides apply only within their effective range", async () => {
+  withSchedule([
+    { scope: "default", amount: 50000, effective_from: "2024-01" },
+    {
+      scope: "address",
+      address: " blok a/1 ",
+      amount: 30000,
+      effective_from: "2026-01",
+      effective_until: "2026-06",
+    },
+  ]);
+  const resolve = await tariffService.loadResolver();
+
+  assert.equal(resolve(warga, "2025-12"), 50000);
+  assert.equal(resolve(warga, "2026-06"), 30000);
+  assert.equal(resolve(warga, "2026-07"), 50000);
+  assert.equal(resolve(tetangga, "2026-03"), 50000);
+});
+
+test("a user override wins over address and default, exemption resolves to 0", async () => {
+  withSchedule([
+    { scope: "default", amount: 50000, effective_from: "2024-01" },
+    { scope: "address", address: "Blok A/1", amount: 30000, effective_from: "2024-01" },
+    {
+      scope: "user",
+      user: warga._id,
+      amount: 0,
+      is_exempt: true,
+      effective_from: "2026-01",
+    },
+  ]);
+  const resolve = await tariffService.loadResolver();
+
+  assert.equal(resolve(warga, "2025-12"), 30000);
+  assert.equal(resolve(warga, "2026-01"), 0);
+  assert.equal(resolve(tetangga, "2026-01"), 50000);
+});
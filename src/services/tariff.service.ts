@@ -0,0 +1,70 @@
+import { Types } from "mongoose";
+import tariffModel, { Tariff } from "../models/tariff.model";
+import { DEFAULT_IURAN_AMOUNT } from "../utils/constants";
+
+type TariffUser = {
+  _id: Types.ObjectId | string;
+  address?: string | null;
+};
+
+export type TariffResolver = (user: TariffUser, period: string) => number;
+
+function normalizeAddress(address?: string | null): string {
+  return (address || "").toLowerCase().trim();
+}
+
+function isEffective(tariff: Tariff, period: string): boolean {
+  return (
+    tariff.effective_from <= period &&
+    (!tariff.effective_until || tariff.effective_until >= period)
+  );
+}
+
+// Latest effective_from wins within the same scope
+function pickLatest(tariffs: Tariff[], period: string): Tariff | undefined {
+  return tariffs
+    .filter((t) => isEffective(t, period))
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+}
+
+class TariffService {
+  // Loads the whole tariff schedule once and returns a resolver, so loops over
+  // many users/periods don't hit the database for every iuran.
+  // Precedence: user override > address override > default schedule > DEFAULT_IURAN_AMOUNT.
+  // A resolved amount of 0 means the user is exempt for that period.
+  async loadResolver(): Promise<TariffResolver> {
+    const tariffs = await tariffModel.find().lean();
+
+    const defaults = tariffs.filter((t) => t.scope === "default");
+    const userOverrides = new Map<string, Tariff[]>();
+    const addressOverrides = new Map<string, Tariff[]>();
+
+    for (const tariff of tariffs) {
+      if (tariff.scope === "user" && tariff.user) {
+        const key = tariff.user.toString();
+        userOverrides.set(key, [...(userOverrides.get(key) || []), tariff]);
+      }
+      if (tariff.scope === "address" && tariff.address) {
+        const key = normalizeAddress(tariff.address);
+        addressOverrides.set(key, [...(addressOverrides.get(key) || []), tariff]);
+      }
+    }
+
+    return (user: TariffUser, period: string): number => {
+      const tariff =
+        pickLatest(userOverrides.get(user._id.toString()) || [], period) ||
+        pickLatest(addressOverrides.get(normalizeAddress(user.address)) || [], period) ||
+        pickLatest(defaults, period);
+
+      if (!tariff) return DEFAULT_IURAN_AMOUNT;
+      return tariff.is_exempt ? 0 : tariff.amount;
+    };
+  }
+
+  async resolveIuranAmount(user: TariffUser, period: string): Promise<number> {
+    const resolve = await this.loadResolver();
+    return resolve(user, period);
+  }
+}
+
+export default new TariffService();
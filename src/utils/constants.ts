@@ -21,3 +21,169 @@ export enum USER_STATUS {
   AWAY = "away", // Sedang pergi sementara
   MOVED = "moved", // Pindah - akun dinonaktifkan, iuran tidak dibuat
 }
+
+export enum DEVICE_PLATFORM {
+  ANDROID = "android",
+  IOS = "ios",
+  WEB = "web",
+  UNKNOWN = "unknown",
+}
+
+export enum ANNOUNCEMENT_STATUS {
+  DRAFT = "draft",
+  SCHEDULED = "scheduled", // published by the scheduler at publish_at
+  PUBLISHED = "published",
+}
+
+// Who an announcement is for, see announcementService.recipientFilter()
+export enum ANNOUNCEMENT_AUDIENCE {
+  ALL = "all",
+  ROLES = "roles",
+  STATUSES = "statuses", // USER_STATUS values
+  ADDRESSES = "addresses",
+}
+
+// Why a job run was started, see jobService
+export enum JOB_TRIGGER {
+  SCHEDULED = "scheduled",
+  CATCH_UP = "catch_up", // missed while the server was down, run on startup
+  MANUAL = "manual",
+}
+
+export enum JOB_RUN_STATUS {
+  SUCCESS = "success",
+  FAILED = "failed",
+  MISSED = "missed", // too late to catch up, not run
+}
+
+// Who an arrears reminder policy notifies
+export enum REMINDER_AUDIENCE {
+  DEBTOR = "debtor", // each warga with enough unpaid periods
+  PENGURUS = "pengurus", // summary of the worst arrears to the policy's roles
+}
+
+// Variables a reminder template may use, written as {name}
+export const REMINDER_TEMPLATE_VARIABLES: Record<REMINDER_AUDIENCE, string[]> = {
+  [REMINDER_AUDIENCE.DEBTOR]: ["name", "address", "periods", "count", "total", "denda", "month"],
+  [REMINDER_AUDIENCE.PENGURUS]: ["name", "count", "total", "list", "month"],
+};
+
+// Kondisi barang inventaris, counted per item
+export enum INVENTORY_CONDITION {
+  BAIK = "baik",
+  RUSAK_RINGAN = "rusak_ringan", // still usable and lendable
+  RUSAK_BERAT = "rusak_berat",
+}
+
+// Why the stock of an inventory item changed, see inventory.service
+export enum INVENTORY_MOVEMENT_TYPE {
+  INITIAL = "initial", // stock when the item was added or migrated
+  PURCHASE = "purchase",
+  DAMAGE = "damage",
+  REPAIR = "repair",
+  LOSS = "loss",
+  DISPOSAL = "disposal",
+  CORRECTION = "correction",
+}
+
+// Peminjaman inventaris: REQUESTED -> APPROVED -> CHECKED_OUT -> RETURNED
+export enum INVENTORY_LOAN_STATUS {
+  REQUESTED = "requested",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  CANCELLED = "cancelled",
+  CHECKED_OUT = "checked_out",
+  RETURNED = "returned",
+}
+
+// Fallback iuran amount when no default tariff has been configured
+export const DEFAULT_IURAN_AMOUNT = 50000;
+
+// Chart of accounts for the cash ledger (buku kas umum)
+export enum LEDGER_ACCOUNTS {
+  KAS = "kas",
+  PENDAPATAN_IURAN = "pendapatan_iuran",
+  PENDAPATAN_DENDA = "pendapatan_denda",
+  PENDAPATAN_DONASI_EVENT = "pendapatan_donasi_event",
+  PENDAPATAN_DANA_MASUK = "pendapatan_dana_masuk",
+  PENDAPATAN_SEWA_INVENTARIS = "pendapatan_sewa_inventaris", // rental fees of inventory loans
+  BEBAN_PENGELUARAN = "beban_pengeluaran",
+  TITIPAN_WARGA = "titipan_warga", // credit balances owed back to warga
+}
+
+// Source document a ledger entry was posted from
+export enum LEDGER_SOURCE {
+  IURAN = "iuran",
+  EVENT_DONATION = "event_donation",
+  DANA_MASUK = "dana_masuk",
+  PENGELUARAN = "pengeluaran",
+  PAYMENT = "payment",
+  PAYMENT_REVERSAL = "payment_reversal", // correction entry of a voided payment
+  INVENTORY_LOAN = "inventory_loan", // rental fee
+}
+
+export enum AUDIT_ACTIONS {
+  CREATE = "create",
+  UPDATE = "update",
+  DELETE = "delete",
+}
+
+// Kind of record an audit log entry is about
+export enum AUDIT_ENTITY {
+  PENGELUARAN = "pengeluaran",
+  EVENT = "event",
+  EVENT_DONATION = "event_donation",
+  EVENT_EXPENSE = "event_expense",
+  DANA_MASUK = "dana_masuk",
+  IURAN = "iuran",
+  PAYMENT = "payment",
+  SETTINGS = "settings",
+  TARIFF = "tariff",
+  USER = "user",
+  SESSION = "session",
+  PASSWORD_RESET = "password_reset",
+  ROLE_PERMISSION = "role_permission",
+  HOUSEHOLD = "household",
+  RECEIPT = "receipt",
+  ANNOUNCEMENT = "announcement",
+  REMINDER_POLICY = "reminder_policy",
+  INVENTORY_LOAN = "inventory_loan",
+}
+
+// Named permissions checked by aclMiddleware, see utils/permissions for the defaults
+export enum PERMISSIONS {
+  USER_READ_FULL = "user.read_full",
+  USER_WRITE = "user.write",
+  USER_DELETE = "user.delete",
+  USER_IMPORT = "user.import",
+  USER_EXPORT = "user.export",
+  USER_RESET_PASSWORD = "user.reset_password",
+  USER_REVOKE_SESSIONS = "user.revoke_sessions",
+  HOUSEHOLD_READ = "household.read",
+  HOUSEHOLD_WRITE = "household.write",
+  IURAN_RECORD = "iuran.record",
+  IURAN_REVIEW = "iuran.review",
+  IURAN_IMPORT = "iuran.import",
+  IURAN_EXPORT = "iuran.export",
+  IURAN_GENERATE = "iuran.generate",
+  IURAN_ARREARS_READ = "iuran.arrears",
+  IURAN_REVERSE = "iuran.reverse",
+  BUKU_KAS_READ = "keuangan.buku_kas",
+  PENGELUARAN_CREATE = "pengeluaran.create",
+  PENGELUARAN_UPDATE = "pengeluaran.update",
+  PENGELUARAN_DELETE = "pengeluaran.delete",
+  INVENTORY_WRITE = "inventory.write",
+  INVENTORY_LOAN_MANAGE = "inventory.loan_manage",
+  EVENT_READ = "event.read",
+  EVENT_WRITE = "event.write",
+  EVENT_DELETE = "event.delete",
+  EVENT_EDIT_COMPLETED = "event.edit_completed",
+  DANA_MASUK_CREATE = "dana_masuk.create",
+  DANA_MASUK_DELETE = "dana_masuk.delete",
+  SETTINGS_READ = "settings.read",
+  SETTINGS_WRITE = "settings.write",
+  ANNOUNCEMENT_WRITE = "announcement.write",
+  JOB_MANAGE = "job.manage",
+  AUDIT_READ = "audit.read",
+  PERMISSION_MANAGE = "permission.manage",
+}
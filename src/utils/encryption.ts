@@ -1,10 +1,86 @@
 import crypto from "crypto";
+import { promisify } from "util";
 import { SECRET } from "./env";
 
-export const encrypt = (password: string) => {
-  const encrypted = crypto
-    .pbkdf2Sync(password, SECRET, 1000, 64, "sha512")
-    .toString("hex");
+// Async variants keep the event loop free while a password is hashed
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
 
-  return encrypted;
+// Stored format: scrypt$<version>$<salt hex>$<hash hex>
+// Cost parameters belong to the version, bump it when they change.
+const PASSWORD_HASH_PREFIX = "scrypt";
+const PASSWORD_HASH_VERSION = 1;
+const SCRYPT_PARAMS: Record<number, crypto.ScryptOptions> = {
+  1: { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 },
+};
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Pre-versioning hashes: PBKDF2 with SECRET as a shared salt.
+// Only used to verify old passwords until they are rehashed on login.
+const legacyEncrypt = async (password: string) => {
+  return (await pbkdf2(password, SECRET, 1000, 64, "sha512")).toString("hex");
+};
+
+function parseHash(stored: string) {
+  const [prefix, version, salt, hash] = stored.split("$");
+  if (
+    prefix !== PASSWORD_HASH_PREFIX ||
+    !/^[0-9a-f]+$/.test(salt || "") ||
+    !/^[0-9a-f]{128}$/.test(hash || "")
+  ) {
+    return null;
+  }
+
+  const params = SCRYPT_PARAMS[Number(version)];
+  if (!params) return null;
+
+  return { version: Number(version), params, salt, hash };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export const isPasswordHash = (value: string): boolean => {
+  return parseHash(value) !== null;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH).toString("hex");
+  const hash = (
+    await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS[PASSWORD_HASH_VERSION])
+  ).toString("hex");
+
+  return [PASSWORD_HASH_PREFIX, PASSWORD_HASH_VERSION, salt, hash].join("$");
+};
+
+export const verifyPassword = async (
+  password: string,
+  stored: string
+): Promise<boolean> => {
+  if (!stored) return false;
+
+  const parsed = parseHash(stored);
+  if (!parsed) {
+    return safeEqualHex(await legacyEncrypt(password), stored);
+  }
+
+  const hash = (
+    await scrypt(password, parsed.salt, KEY_LENGTH, parsed.params)
+  ).toString("hex");
+
+  return safeEqualHex(hash, parsed.hash);
+};
+
+// True for legacy hashes and hashes made with older cost parameters
+export const needsRehash = (stored: string): boolean => {
+  return parseHash(stored)?.version !== PASSWORD_HASH_VERSION;
 };
@@ -5,3 +5,6 @@ dotenv.config();
 //Database
 export const DATABASE_URL: string = process.env.DATABASE_URL || "";
 export const SECRET: string = process.env.SECRET || "";
+
+// Public address of this API, used in links printed on documents (QR codes)
+export const PUBLIC_URL: string = process.env.PUBLIC_URL || "http://localhost:3000";
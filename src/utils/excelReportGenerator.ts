@@ -1,5 +1,8 @@
 import ExcelJS from "exceljs";
 import { Event } from "../models/event.model";
+import eventBudgetService, {
+  DEFAULT_EVENT_CATEGORIES,
+} from "../services/eventBudget.service";
 
 interface CategoryExpense {
   category: string;
@@ -12,7 +15,8 @@ interface CategoryExpense {
 
 export async function generateEventReport(
   event: Event,
-  totalSumbangan: number
+  totalSumbangan: number,
+  categoryOrder: string[] = DEFAULT_EVENT_CATEGORIES
 ): Promise<ExcelJS.Buffer> {
   const workbook = new ExcelJS.Workbook();
   const worksheet = workbook.addWorksheet("Laporan Event");
@@ -44,7 +48,7 @@ export async function generateEventReport(
   headerRow.alignment = { horizontal: "center", vertical: "middle" };
 
   // Group expenses by category
-  const categories = groupExpensesByCategory(event);
+  const categories = groupExpensesByCategory(event, categoryOrder);
 
   let currentRow = 2;
 
@@ -214,45 +218,136 @@ export async function generateEventReport(
     };
   });
 
+  // Planned vs actual per category, for events that were budgeted
+  if (event.budget && event.budget.length > 0) {
+    addBudgetSheet(workbook, event, categoryOrder);
+  }
+
   // Generate buffer
   const buffer = await workbook.xlsx.writeBuffer();
   return buffer;
 }
 
-function groupExpensesByCategory(event: Event): CategoryExpense[] {
-  const categoryMap: { [key: string]: CategoryExpense } = {
-    HIBURAN: { category: "HIBURAN", items: [] },
-    LOMBA: { category: "LOMBA", items: [] },
-    KONSUMSI: { category: "KONSUMSI", items: [] },
-    LAINNYA: { category: "LAINNYA", items: [] },
+function addBudgetSheet(
+  workbook: ExcelJS.Workbook,
+  event: Event,
+  categoryOrder: string[]
+) {
+  const worksheet = workbook.addWorksheet("Anggaran vs Realisasi");
+
+  worksheet.columns = [
+    { key: "A", width: 20 }, // KAT
+    { key: "B", width: 20 }, // ANGGARAN
+    { key: "C", width: 20 }, // REALISASI
+    { key: "D", width: 20 }, // SELISIH
+    { key: "E", width: 20 }, // KET
+  ];
+
+  const headerRow = worksheet.addRow([
+    "KAT",
+    "ANGGARAN",
+    "REALISASI",
+    "SELISIH",
+    "KET",
+  ]);
+  headerRow.font = { bold: true, size: 12 };
+  headerRow.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FFFFFF00" }, // Yellow
   };
+  headerRow.alignment = { horizontal: "center", vertical: "middle" };
+
+  const summary = eventBudgetService.summarize(event);
+  const lines = [...summary.lines].sort(
+    (a, b) => orderOf(categoryOrder, a.category) - orderOf(categoryOrder, b.category)
+  );
+
+  let currentRow = 2;
+  lines.forEach((line) => {
+    const row = worksheet.addRow([
+      line.category,
+      line.planned,
+      line.actual,
+      { formula: `B${currentRow}-C${currentRow}` },
+      line.over_budget ? "MELEBIHI ANGGARAN" : "",
+    ]);
+    row.eachCell((cell, colNumber) => {
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: line.over_budget ? "FFFFC7CE" : getCategoryColor(line.category) },
+      };
+      cell.border = {
+        top: { style: "thin" },
+        left: { style: "thin" },
+        bottom: { style: "thin" },
+        right: { style: "thin" },
+      };
+      if (colNumber >= 2 && colNumber <= 4) {
+        cell.numFmt = "#,##0";
+        cell.alignment = { horizontal: "right" };
+      }
+    });
+    currentRow++;
+  });
+
+  const totalRow = worksheet.addRow([
+    "TOTAL",
+    { formula: `SUM(B2:B${currentRow - 1})` },
+    { formula: `SUM(C2:C${currentRow - 1})` },
+    { formula: `SUM(D2:D${currentRow - 1})` },
+    "",
+  ]);
+  totalRow.font = { bold: true, size: 12 };
+  totalRow.eachCell((cell, colNumber) => {
+    if (colNumber >= 2 && colNumber <= 4) {
+      cell.numFmt = "#,##0";
+      cell.alignment = { horizontal: "right" };
+    }
+    cell.border = {
+      top: { style: "thin" },
+      left: { style: "thin" },
+      bottom: { style: "thin" },
+      right: { style: "thin" },
+    };
+  });
+}
+
+// Categories missing from the settings list go last
+function orderOf(categoryOrder: string[], category: string): number {
+  const index = categoryOrder.indexOf(category);
+  return index === -1 ? categoryOrder.length : index;
+}
+
+function groupExpensesByCategory(
+  event: Event,
+  categoryOrder: string[]
+): CategoryExpense[] {
+  const categoryMap: { [key: string]: CategoryExpense } = {};
 
   // Group expenses by their category field
   event.expenses.forEach((expense) => {
     const item = {
       name: expense.description,
-      cost: Number(expense.amount),
+      cost: expense.amount,
     };
 
     const categoryKey = expense.category || "LAINNYA";
-    if (categoryMap[categoryKey]) {
-      categoryMap[categoryKey].items.push(item);
-    }
-  });
-
-  // Return only categories that have items
-  const categories: CategoryExpense[] = [];
-  const categoryOrder = ["HIBURAN", "LOMBA", "KONSUMSI", "LAINNYA"];
-
-  categoryOrder.forEach((key) => {
-    if (categoryMap[key].items.length > 0) {
-      categories.push(categoryMap[key]);
+    if (!categoryMap[categoryKey]) {
+      categoryMap[categoryKey] = { category: categoryKey, items: [] };
     }
+    categoryMap[categoryKey].items.push(item);
   });
 
-  return categories;
+  // Only categories that have items, in the configured order
+  return Object.values(categoryMap).sort(
+    (a, b) => orderOf(categoryOrder, a.category) - orderOf(categoryOrder, b.category)
+  );
 }
 
+const EXTRA_COLORS = ["FFE6E6FA", "FFFFE4C4", "FFE0FFFF", "FFF0FFF0"];
+
 function getCategoryColor(category: string): string {
   const colors: { [key: string]: string } = {
     HIBURAN: "FFADD8E6", // Light blue
@@ -260,6 +355,9 @@ function getCategoryColor(category: string): string {
     KONSUMSI: "FFCCFFCC", // Light green
     LAINNYA: "FFFFFFE0", // Light yellow
   };
+  if (colors[category]) return colors[category];
 
-  return colors[category] || "FFFFFFFF"; // White as default
+  // Stable pastel for categories added in settings
+  const hash = [...category].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return EXTRA_COLORS[hash % EXTRA_COLORS.length];
 }
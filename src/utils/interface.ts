@@ -5,6 +5,7 @@ import { Types } from "mongoose";
 export interface IUserToken
   extends Omit<User, "password" | "email" | "username"> {
   id?: Types.ObjectId;
+  sid?: string; // session id, see session.service
 }
 
 export interface IReqUser extends Request {
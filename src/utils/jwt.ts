@@ -2,9 +2,12 @@ import jwt from "jsonwebtoken";
 import { IUserToken } from "./interface";
 import { SECRET } from "./env";
 
+// Access tokens are short-lived; the app renews them with a refresh token
+export const ACCESS_TOKEN_EXPIRES_IN = 15 * 60; // seconds
+
 export const generateToken = (user: IUserToken): string => {
   const token = jwt.sign(user, SECRET, {
-    expiresIn: "1h",
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
   });
 
   return token;
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { model, Schema } from "mongoose";
+import { legacyMoneyPlugin, parseRupiah, rupiahField, toLegacyMoney } from "./money";
+
+test("parseRupiah accepts whole rupiah as numbers or digit strings", () => {
+  assert.equal(parseRupiah(50000), 50000);
+  assert.equal(parseRupiah("50000"), 50000);
+  assert.equal(parseRupiah(" 0 "), 0);
+});
+
+test("parseRupiah rejects fractions, negatives and formatted strings", () => {
+  for (const value of [12.5, -1, "-1", "12.5", "50.000", "Rp 50000", "", null, undefined, NaN]) {
+    assert.equal(parseRupiah(value), null, `${String(value)} should be rejected`);
+  }
+});
+
+const itemSchema = new Schema({ name: String, amount: rupiahField() }, { _id: false });
+const billSchema = new Schema({
+  title: String,
+  amount: rupiahField(),
+  count: Number,
+  items: [itemSchema],
+});
+billSchema.plugin(legacyMoneyPlugin, { paths: ["amount", "items.amount"] });
+const Bill = model("LegacyMoneyTestBill", billSchema);
+
+test("toLegacyMoney turns only the plugin's paths into strings", () => {
+  const bill = new Bill({
+    title: "Iuran",
+    amount: 50000,
+    count: 2,
+    items: [{ name: "kebersihan", amount: 20000 }, { name: "keamanan", amount: 30000 }],
+  });
+
+  const legacy = toLegacyMoney({ data: bill.toJSON(), total: 50000 });
+
+  assert.equal(legacy.data.amount, "50000");
+  assert.deepEqual(legacy.data.items.map((item: any) => item.amount), ["20000", "30000"]);
+  assert.equal(legacy.data.count, 2);
+  // values outside a tagged document are left alone
+  assert.equal(legacy.total, 50000);
+});
+
+test("toLegacyMoney accepts documents and does not change the original", () => {
+  const bill = new Bill({ title: "Iuran", amount: 50000 });
+  const plain = bill.toObject();
+
+  assert.equal(toLegacyMoney(bill).amount, "50000");
+  assert.equal(toLegacyMoney([plain])[0].amount, "50000");
+  assert.equal(plain.amount, 50000);
+});
@@ -0,0 +1,122 @@
+import { Request } from "express";
+import mongoose, { Schema, SchemaTypeOptions } from "mongoose";
+
+// All money is stored as whole rupiah in a Number field
+
+// Schema definition for a rupiah field. `signed` allows negative amounts
+// (balances), everything else must be zero or more.
+export function rupiahField(
+  options: { required?: boolean; default?: number; signed?: boolean } = {}
+): SchemaTypeOptions<number> {
+  const field: SchemaTypeOptions<number> = {
+    type: Number,
+    validate: {
+      validator: (value: number | null) => value == null || Number.isInteger(value),
+      message: "{PATH} must be a whole rupiah amount",
+    },
+  };
+  if (options.required) field.required = true;
+  if (options.default !== undefined) field.default = options.default;
+  if (!options.signed) field.min = [0, "{PATH} must not be negative"];
+  return field;
+}
+
+export function isRupiah(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// Request values may still arrive as strings (form-data, older clients).
+// Returns null unless the value is a whole, non-negative rupiah amount.
+export function parseRupiah(value: unknown): number | null {
+  if (typeof value === "string" && /^\s*\d+\s*$/.test(value)) {
+    return Number(value);
+  }
+  return isRupiah(value) ? value : null;
+}
+
+// Backward compatible responses. Fields that used to be strings are sent as
+// strings until clients opt in with `X-Money-Format: number`, or until
+// MONEY_FORMAT=number makes numbers the default.
+
+const LEGACY_MONEY = Symbol("legacyMoney");
+
+type Tagged = Record<string | symbol, any>;
+
+// Marks documents of the schema so their `paths` can be sent as strings.
+// Works for lean query results and for documents turned into plain objects.
+export function legacyMoneyPlugin(schema: Schema, options: { paths: string[] }) {
+  const tag = (value: any) => {
+    if (value && typeof value === "object") value[LEGACY_MONEY] = options.paths;
+  };
+
+  for (const option of ["toJSON", "toObject"] as const) {
+    const current = schema.get(option) || {};
+    schema.set(option, {
+      ...current,
+      transform(doc: any, ret: any, transformOptions: any) {
+        const result =
+          typeof current.transform === "function"
+            ? current.transform(doc, ret, transformOptions)
+            : ret;
+        tag(result);
+        return result;
+      },
+    });
+  }
+
+  schema.post(
+    ["find", "findOne", "findOneAndUpdate", "findOneAndDelete"],
+    function (result: any) {
+      if (!this.mongooseOptions().lean) return;
+      if (Array.isArray(result)) result.forEach(tag);
+      else tag(result);
+    }
+  );
+}
+
+export function wantsLegacyMoney(req?: Request): boolean {
+  const format = req?.get("x-money-format") || process.env.MONEY_FORMAT || "legacy";
+  return format !== "number";
+}
+
+function stringifyPath(target: any, keys: string[]) {
+  if (target == null) return;
+  if (Array.isArray(target)) {
+    target.forEach((item) => stringifyPath(item, keys));
+    return;
+  }
+
+  const [key, ...rest] = keys;
+  if (rest.length > 0) {
+    stringifyPath(target[key], rest);
+  } else if (typeof target[key] === "number") {
+    target[key] = String(target[key]);
+  }
+}
+
+function isPlainObject(value: unknown): value is Tagged {
+  if (!value || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Copy of a response payload with the tagged money fields as strings
+export function toLegacyMoney(value: any): any {
+  if (value instanceof mongoose.Document) {
+    value = value.toJSON();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toLegacyMoney);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Tagged = {};
+  for (const key of Object.keys(value)) {
+    result[key] = toLegacyMoney(value[key]);
+  }
+  const paths: string[] | undefined = value[LEGACY_MONEY];
+  paths?.forEach((path) => stringifyPath(result, path.split(".")));
+  return result;
+}
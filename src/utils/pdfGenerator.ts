@@ -1,8 +1,9 @@
 import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
 import fs from "fs";
 import path from "path";
 
-interface ReceiptData {
+export interface ReceiptData {
   receiptNumber: string;
   receiptDate: Date;
   paymentDate: Date;
@@ -11,21 +12,40 @@ interface ReceiptData {
     username: string;
     email: string;
   };
+  household?: {
+    id: string;
+    kk_number: string | null;
+    address: string;
+    head: string;
+  } | null; // bills paid for a Kartu Keluarga
   periods: string[];
+  // tariff may differ per period, remaining > 0 means partially paid
+  periodItems: { period: string; amount: number; denda: number; remaining?: number }[];
   amountPerPeriod: number;
   totalPeriods: number;
-  totalAmount: number;
+  totalDenda: number;
+  totalAmount: number; // iuran plus denda, or the cash received for a payment
+  creditUsed?: number; // paid from saldo titipan
+  creditAdded?: number; // left over and kept as saldo titipan
+  creditBalance?: number | null; // saldo titipan right after the payment
   paymentMethod: string | null;
   note: string | null;
   recordedBy: {
     id: string;
     username: string;
   };
+  verifyUrl?: string; // printed as a QR code
+  voided?: { at: Date; reason: string } | null; // printed as BATAL
 }
 
-export const generateReceiptPDF = (
-  receiptData: ReceiptData
+export const generateReceiptPDF = async (
+  receiptData: ReceiptData,
+  fileName = `${receiptData.receiptNumber}.pdf`
 ): Promise<string> => {
+  const qrImage = receiptData.verifyUrl
+    ? await QRCode.toBuffer(receiptData.verifyUrl, { margin: 1, width: 240 })
+    : null;
+
   return new Promise((resolve, reject) => {
     try {
       // Create receipts directory if it doesn't exist
@@ -34,7 +54,6 @@ export const generateReceiptPDF = (
         fs.mkdirSync(receiptsDir, { recursive: true });
       }
 
-      const fileName = `${receiptData.receiptNumber}.pdf`;
       const filePath = path.join(receiptsDir, fileName);
 
       // Create PDF document
@@ -43,6 +62,33 @@ export const generateReceiptPDF = (
 
       doc.pipe(stream);
 
+      // Verification QR code in the top right corner, outside the text flow
+      if (qrImage) {
+        doc.image(qrImage, 475, 40, { width: 75 });
+        doc
+          .fontSize(7)
+          .font("Helvetica")
+          .text("Scan untuk verifikasi", 465, 118, { width: 95, align: "center" });
+        doc.x = 50;
+        doc.y = 50;
+      }
+
+      // Voided receipts get a watermark behind the content
+      if (receiptData.voided) {
+        doc
+          .save()
+          .rotate(-35, { origin: [297, 420] })
+          .fontSize(120)
+          .font("Helvetica-Bold")
+          .fillColor("#dc2626")
+          .fillOpacity(0.2)
+          .text("BATAL", 90, 360, { width: 420, align: "center", lineBreak: false })
+          .restore();
+        doc.fillColor("black").fillOpacity(1);
+        doc.x = 50;
+        doc.y = 50;
+      }
+
       // Header
       doc
         .fontSize(20)
@@ -86,7 +132,23 @@ export const generateReceiptPDF = (
           })}`,
           { align: "left" }
         )
-        .moveDown(1.5);
+        .moveDown(receiptData.voided ? 0.5 : 1.5);
+
+      if (receiptData.voided) {
+        doc
+          .fontSize(11)
+          .font("Helvetica-Bold")
+          .fillColor("#dc2626")
+          .text(
+            `BATAL per ${new Date(receiptData.voided.at).toLocaleDateString("id-ID", {
+              day: "2-digit",
+              month: "long",
+              year: "numeric",
+            })}: ${receiptData.voided.reason}`
+          )
+          .fillColor("black")
+          .moveDown(1);
+      }
 
       // Line separator
       doc
@@ -97,19 +159,35 @@ export const generateReceiptPDF = (
         .stroke()
         .moveDown(1);
 
-      // User Information
-      doc
-        .fontSize(12)
-        .font("Helvetica-Bold")
-        .text("Informasi Warga", { underline: true })
-        .moveDown(0.5);
+      // User / household information
+      if (receiptData.household) {
+        doc
+          .fontSize(12)
+          .font("Helvetica-Bold")
+          .text("Informasi Keluarga", { underline: true })
+          .moveDown(0.5);
 
-      doc
-        .fontSize(10)
-        .font("Helvetica")
-        .text(`Nama: ${receiptData.user.username}`)
-        .text(`Email: ${receiptData.user.email}`)
-        .moveDown(1.5);
+        doc
+          .fontSize(10)
+          .font("Helvetica")
+          .text(`No. KK: ${receiptData.household.kk_number || "-"}`)
+          .text(`Kepala Keluarga: ${receiptData.household.head}`)
+          .text(`Alamat: ${receiptData.household.address}`)
+          .moveDown(1.5);
+      } else {
+        doc
+          .fontSize(12)
+          .font("Helvetica-Bold")
+          .text("Informasi Warga", { underline: true })
+          .moveDown(0.5);
+
+        doc
+          .fontSize(10)
+          .font("Helvetica")
+          .text(`Nama: ${receiptData.user.username}`)
+          .text(`Email: ${receiptData.user.email}`)
+          .moveDown(1.5);
+      }
 
       // Payment Details
       doc
@@ -125,16 +203,22 @@ export const generateReceiptPDF = (
         .moveDown(0.3);
 
       // List periods
-      receiptData.periods.forEach((period, index) => {
-        const periodDate = new Date(period + "-01");
+      receiptData.periodItems.forEach((item, index) => {
+        const periodDate = new Date(item.period + "-01");
         const formattedPeriod = periodDate.toLocaleDateString("id-ID", {
           month: "long",
           year: "numeric",
         });
+        const denda = item.denda
+          ? ` + denda Rp ${item.denda.toLocaleString("id-ID")}`
+          : "";
+        const partial = item.remaining
+          ? ` (sebagian, sisa Rp ${item.remaining.toLocaleString("id-ID")})`
+          : "";
         doc.text(
-          `   ${index + 1}. ${formattedPeriod} - Rp ${receiptData.amountPerPeriod.toLocaleString(
+          `   ${index + 1}. ${formattedPeriod} - Rp ${item.amount.toLocaleString(
             "id-ID"
-          )}`
+          )}${denda}${partial}`
         );
       });
 
@@ -156,7 +240,30 @@ export const generateReceiptPDF = (
         .text(
           `Jumlah Periode: ${receiptData.totalPeriods} bulan`,
           { align: "right" }
-        )
+        );
+
+      if (receiptData.totalDenda > 0) {
+        doc.text(
+          `Denda Keterlambatan: Rp ${receiptData.totalDenda.toLocaleString("id-ID")}`,
+          { align: "right" }
+        );
+      }
+
+      if (receiptData.creditUsed) {
+        doc.text(
+          `Dibayar dari Saldo Titipan: Rp ${receiptData.creditUsed.toLocaleString("id-ID")}`,
+          { align: "right" }
+        );
+      }
+
+      if (receiptData.creditAdded) {
+        doc.text(
+          `Sisa Masuk Saldo Titipan: Rp ${receiptData.creditAdded.toLocaleString("id-ID")}`,
+          { align: "right" }
+        );
+      }
+
+      doc
         .fontSize(14)
         .text(
           `TOTAL: Rp ${receiptData.totalAmount.toLocaleString("id-ID")}`,
@@ -173,6 +280,16 @@ export const generateReceiptPDF = (
         .stroke()
         .moveDown(1);
 
+      if (receiptData.creditBalance != null) {
+        doc
+          .fontSize(10)
+          .font("Helvetica")
+          .text(
+            `Saldo Titipan Setelah Pembayaran: Rp ${receiptData.creditBalance.toLocaleString("id-ID")}`
+          )
+          .moveDown(0.5);
+      }
+
       // Payment Method
       if (receiptData.paymentMethod) {
         doc
@@ -217,3 +334,321 @@ export const generateReceiptPDF = (
     }
   });
 };
+
+interface LaporanKeuanganData {
+  from: string;
+  to: string;
+  openingBalance: number;
+  closingBalance: number;
+  totalIuranIncome: number;
+  totalDendaIncome: number;
+  totalEventDonations: number;
+  totalDanaMasuk: number;
+  totalRentalIncome: number;
+  totalIncome: number;
+  totalExpense: number;
+  netTitipan: number; // credit received minus credit spent
+  months: {
+    period: string;
+    totalIncome: number;
+    totalExpense: number;
+    closingBalance: number;
+  }[];
+  pengeluaran: {
+    date: Date;
+    title: string;
+    slug: string;
+    total: number;
+    items: { name: string; price: number; image_url?: string }[];
+  }[];
+  events: {
+    name: string;
+    completedAt: Date | null;
+    totalDonations: number;
+    totalExpenses: number;
+    balance: number;
+  }[];
+  // voided payments, already netted in the income above
+  corrections: { date: Date; description: string; amount: number }[];
+  ketuaRt: string | null;
+  bendahara: string | null;
+}
+
+const formatRupiah = (amount: number): string =>
+  `Rp ${amount.toLocaleString("id-ID")}`;
+
+const formatPeriod = (period: string): string =>
+  new Date(period + "-01").toLocaleDateString("id-ID", {
+    month: "long",
+    year: "numeric",
+  });
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+
+// Renders the laporan keuangan (monthly or annual) for the notice board
+export const generateLaporanKeuanganPDF = (
+  data: LaporanKeuanganData
+): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", (error) => reject(error));
+
+      const separator = () =>
+        doc
+          .strokeColor("#aaaaaa")
+          .lineWidth(1)
+          .moveTo(50, doc.y)
+          .lineTo(550, doc.y)
+          .stroke()
+          .moveDown(0.5);
+
+      // Label on the left, amount right-aligned on the same line
+      const amountRow = (label: string, amount: number, bold = false) => {
+        const y = doc.y;
+        doc
+          .fontSize(10)
+          .font(bold ? "Helvetica-Bold" : "Helvetica")
+          .text(label, 50, y, { width: 330 })
+          .text(formatRupiah(amount), 380, y, { width: 170, align: "right" });
+        doc.moveDown(0.3);
+      };
+
+      const ensureSpace = (height: number) => {
+        if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+          doc.addPage();
+        }
+      };
+
+      const periodLabel =
+        data.from === data.to
+          ? formatPeriod(data.from)
+          : `${formatPeriod(data.from)} - ${formatPeriod(data.to)}`;
+
+      // Header
+      doc
+        .fontSize(18)
+        .font("Helvetica-Bold")
+        .text("LAPORAN KEUANGAN", { align: "center" })
+        .moveDown(0.3);
+
+      doc
+        .fontSize(11)
+        .font("Helvetica")
+        .text(`Periode ${periodLabel}`, { align: "center" })
+        .moveDown(1.5);
+
+      // Summary
+      doc
+        .fontSize(12)
+        .font("Helvetica-Bold")
+        .text("Ringkasan Kas", 50, doc.y, { underline: true })
+        .moveDown(0.5);
+
+      amountRow("Saldo Awal", data.openingBalance, true);
+      amountRow("Pemasukan Iuran", data.totalIuranIncome);
+      amountRow("Denda Keterlambatan", data.totalDendaIncome);
+      amountRow("Donasi Event", data.totalEventDonations);
+      amountRow("Dana Masuk", data.totalDanaMasuk);
+      if (data.totalRentalIncome) {
+        amountRow("Sewa Inventaris", data.totalRentalIncome);
+      }
+      amountRow("Total Pemasukan", data.totalIncome, true);
+      amountRow("Total Pengeluaran", data.totalExpense, true);
+      if (data.netTitipan !== 0) {
+        amountRow(
+          data.netTitipan > 0 ? "Titipan Warga Masuk" : "Titipan Warga Terpakai",
+          Math.abs(data.netTitipan)
+        );
+      }
+      separator();
+      amountRow("Saldo Akhir", data.closingBalance, true);
+      doc.moveDown(1);
+
+      // Monthly breakdown (annual / multi-month reports only)
+      if (data.months.length > 1) {
+        ensureSpace(60);
+        doc
+          .fontSize(12)
+          .font("Helvetica-Bold")
+          .text("Rincian per Bulan", 50, doc.y, { underline: true })
+          .moveDown(0.5);
+
+        const headerY = doc.y;
+        doc
+          .fontSize(9)
+          .font("Helvetica-Bold")
+          .text("Bulan", 50, headerY, { width: 140 })
+          .text("Pemasukan", 190, headerY, { width: 120, align: "right" })
+          .text("Pengeluaran", 310, headerY, { width: 120, align: "right" })
+          .text("Saldo Akhir", 430, headerY, { width: 120, align: "right" });
+        doc.moveDown(0.3);
+
+        data.months.forEach((month) => {
+          ensureSpace(15);
+          const y = doc.y;
+          doc
+            .font("Helvetica")
+            .text(formatPeriod(month.period), 50, y, { width: 140 })
+            .text(formatRupiah(month.totalIncome), 190, y, {
+              width: 120,
+              align: "right",
+            })
+            .text(formatRupiah(month.totalExpense), 310, y, {
+              width: 120,
+              align: "right",
+            })
+            .text(formatRupiah(month.closingBalance), 430, y, {
+              width: 120,
+              align: "right",
+            });
+          doc.moveDown(0.2);
+        });
+        doc.moveDown(1);
+      }
+
+      // Pengeluaran itemization
+      ensureSpace(60);
+      doc
+        .fontSize(12)
+        .font("Helvetica-Bold")
+        .text("Rincian Pengeluaran", 50, doc.y, { underline: true })
+        .moveDown(0.5);
+
+      if (data.pengeluaran.length === 0) {
+        doc.fontSize(10).font("Helvetica").text("Tidak ada pengeluaran.");
+      }
+
+      data.pengeluaran.forEach((pengeluaran, index) => {
+        ensureSpace(40 + pengeluaran.items.length * 25);
+        amountRow(
+          `${index + 1}. ${pengeluaran.title} (${formatDate(pengeluaran.date)})`,
+          pengeluaran.total,
+          true
+        );
+
+        pengeluaran.items.forEach((item) => {
+          amountRow(`     - ${item.name}`, item.price);
+          doc
+            .fontSize(8)
+            .font("Helvetica")
+            .fillColor("#555555")
+            .text(
+              `       Bukti: ${item.image_url || "tidak ada"}`,
+              50,
+              doc.y
+            )
+            .fillColor("#000000");
+          doc.moveDown(0.2);
+        });
+
+        doc
+          .fontSize(8)
+          .fillColor("#555555")
+          .text(`     Ref: ${pengeluaran.slug}`, 50, doc.y)
+          .fillColor("#000000")
+          .moveDown(0.5);
+      });
+      doc.moveDown(1);
+
+      // Completed events
+      ensureSpace(60);
+      doc
+        .fontSize(12)
+        .font("Helvetica-Bold")
+        .text("Event Selesai", 50, doc.y, { underline: true })
+        .moveDown(0.5);
+
+      if (data.events.length === 0) {
+        doc.fontSize(10).font("Helvetica").text("Tidak ada event selesai.");
+      }
+
+      data.events.forEach((event, index) => {
+        ensureSpace(70);
+        doc
+          .fontSize(10)
+          .font("Helvetica-Bold")
+          .text(
+            `${index + 1}. ${event.name}${
+              event.completedAt ? ` (selesai ${formatDate(event.completedAt)})` : ""
+            }`,
+            50,
+            doc.y
+          )
+          .moveDown(0.2);
+        amountRow("     Total Donasi", event.totalDonations);
+        amountRow("     Total Pengeluaran", event.totalExpenses);
+        amountRow(
+          event.balance < 0 ? "     Defisit (dari kas)" : "     Surplus",
+          Math.abs(event.balance)
+        );
+        doc.moveDown(0.3);
+      });
+
+      // Corrections (voided payments), only when there are any
+      if (data.corrections.length > 0) {
+        doc.moveDown(1);
+        ensureSpace(60);
+        doc
+          .fontSize(12)
+          .font("Helvetica-Bold")
+          .text("Koreksi Pembatalan", 50, doc.y, { underline: true })
+          .moveDown(0.5);
+
+        data.corrections.forEach((correction, index) => {
+          ensureSpace(20);
+          amountRow(
+            `${index + 1}. ${correction.description} (${formatDate(correction.date)})`,
+            -correction.amount
+          );
+        });
+        doc
+          .fontSize(8)
+          .font("Helvetica")
+          .fillColor("#555555")
+          .text("Sudah dikurangkan dari pemasukan di atas.", 50, doc.y)
+          .fillColor("#000000");
+      }
+
+      // Signature blocks
+      ensureSpace(150);
+      doc.moveDown(2);
+      doc
+        .fontSize(10)
+        .font("Helvetica")
+        .text(`Dibuat pada ${formatDate(new Date())}`, 50, doc.y, {
+          align: "right",
+          width: 500,
+        })
+        .moveDown(1);
+
+      const signatureY = doc.y;
+      const signatureBlock = (x: number, title: string, name: string | null) => {
+        doc
+          .fontSize(10)
+          .font("Helvetica")
+          .text(title, x, signatureY, { width: 200, align: "center" })
+          .text(`( ${name || "...................."} )`, x, signatureY + 70, {
+            width: 200,
+            align: "center",
+          });
+      };
+
+      signatureBlock(50, "Ketua RT", data.ketuaRt);
+      signatureBlock(350, "Bendahara", data.bendahara);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
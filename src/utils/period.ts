@@ -0,0 +1,44 @@
+// Helpers for iuran/laporan periods in "YYYY-MM" format (server local time)
+
+export const PERIOD_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function toPeriod(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function getCurrentPeriod(): string {
+  return toPeriod(new Date());
+}
+
+// "Agustus 2026", for messages
+export function periodLabel(period: string): string {
+  return periodStart(period).toLocaleDateString("id-ID", { month: "long", year: "numeric" });
+}
+
+// First moment of the period
+export function periodStart(period: string): Date {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month - 1, 1);
+}
+
+// First moment of the following period (exclusive end)
+export function periodEnd(period: string): Date {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month, 1);
+}
+
+export function listPeriods(from: string, to: string): string[] {
+  const periods: string[] = [];
+  let [year, month] = from.split("-").map(Number);
+  const [endYear, endMonth] = to.split("-").map(Number);
+
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    periods.push(`${year}-${String(month).padStart(2, "0")}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return periods;
+}
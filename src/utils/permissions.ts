@@ -0,0 +1,90 @@
+import { PERMISSIONS, ROLES } from "./constants";
+
+export const PERMISSION_DESCRIPTIONS: Record<PERMISSIONS, string> = {
+  [PERMISSIONS.USER_READ_FULL]: "Lihat data lengkap warga (kontak, alamat)",
+  [PERMISSIONS.USER_WRITE]: "Ubah data, status dan pulihkan user",
+  [PERMISSIONS.USER_DELETE]: "Hapus user",
+  [PERMISSIONS.USER_IMPORT]: "Import user dari Excel",
+  [PERMISSIONS.USER_EXPORT]: "Export user ke Excel",
+  [PERMISSIONS.USER_RESET_PASSWORD]: "Buat kode reset password",
+  [PERMISSIONS.USER_REVOKE_SESSIONS]: "Keluarkan user dari semua perangkat",
+  [PERMISSIONS.HOUSEHOLD_READ]: "Lihat data kartu keluarga",
+  [PERMISSIONS.HOUSEHOLD_WRITE]: "Kelola kartu keluarga dan anggotanya",
+  [PERMISSIONS.IURAN_RECORD]: "Catat pembayaran iuran",
+  [PERMISSIONS.IURAN_REVIEW]: "Setujui/tolak bukti bayar iuran",
+  [PERMISSIONS.IURAN_IMPORT]: "Import iuran dari Excel",
+  [PERMISSIONS.IURAN_EXPORT]: "Export iuran ke Excel",
+  [PERMISSIONS.IURAN_GENERATE]: "Buat iuran tahunan",
+  [PERMISSIONS.IURAN_ARREARS_READ]: "Lihat laporan umur tunggakan iuran",
+  [PERMISSIONS.IURAN_REVERSE]: "Batalkan kwitansi dan pembayaran iuran",
+  [PERMISSIONS.BUKU_KAS_READ]: "Lihat buku kas umum",
+  [PERMISSIONS.PENGELUARAN_CREATE]: "Tambah pengeluaran",
+  [PERMISSIONS.PENGELUARAN_UPDATE]: "Ubah pengeluaran",
+  [PERMISSIONS.PENGELUARAN_DELETE]: "Hapus pengeluaran",
+  [PERMISSIONS.INVENTORY_WRITE]: "Tambah, ubah dan hapus inventaris",
+  [PERMISSIONS.INVENTORY_LOAN_MANAGE]: "Setujui, serahkan dan terima kembali pinjaman inventaris",
+  [PERMISSIONS.EVENT_READ]: "Lihat detail event",
+  [PERMISSIONS.EVENT_WRITE]: "Kelola event, donasi dan pengeluaran event",
+  [PERMISSIONS.EVENT_DELETE]: "Hapus event",
+  [PERMISSIONS.EVENT_EDIT_COMPLETED]: "Ubah event yang sudah selesai",
+  [PERMISSIONS.DANA_MASUK_CREATE]: "Catat dana masuk",
+  [PERMISSIONS.DANA_MASUK_DELETE]: "Hapus dana masuk",
+  [PERMISSIONS.SETTINGS_READ]: "Lihat pengaturan",
+  [PERMISSIONS.SETTINGS_WRITE]: "Ubah pengaturan (saldo awal, tarif iuran, denda, pengingat tunggakan)",
+  [PERMISSIONS.ANNOUNCEMENT_WRITE]: "Buat, jadwalkan dan hapus pengumuman",
+  [PERMISSIONS.JOB_MANAGE]: "Lihat riwayat dan jalankan job terjadwal",
+  [PERMISSIONS.AUDIT_READ]: "Lihat audit log",
+  [PERMISSIONS.PERMISSION_MANAGE]: "Atur hak akses tiap role",
+};
+
+const PENGURUS_KEUANGAN = [
+  PERMISSIONS.USER_READ_FULL,
+  PERMISSIONS.HOUSEHOLD_READ,
+  PERMISSIONS.IURAN_RECORD,
+  PERMISSIONS.IURAN_REVIEW,
+  PERMISSIONS.IURAN_IMPORT,
+  PERMISSIONS.IURAN_EXPORT,
+  PERMISSIONS.IURAN_ARREARS_READ,
+  PERMISSIONS.BUKU_KAS_READ,
+  PERMISSIONS.PENGELUARAN_CREATE,
+  PERMISSIONS.PENGELUARAN_UPDATE,
+  PERMISSIONS.PENGELUARAN_DELETE,
+  PERMISSIONS.EVENT_READ,
+  PERMISSIONS.EVENT_WRITE,
+  PERMISSIONS.EVENT_DELETE,
+];
+
+// Used until an admin saves a mapping for the role. Matches the role lists
+// routes/api.ts had before permissions existed. Admin always has everything.
+export const DEFAULT_ROLE_PERMISSIONS: Record<ROLES, PERMISSIONS[]> = {
+  [ROLES.ADMIN]: Object.values(PERMISSIONS),
+  [ROLES.BENDAHARA]: [
+    ...PENGURUS_KEUANGAN,
+    PERMISSIONS.IURAN_REVERSE,
+    PERMISSIONS.INVENTORY_WRITE,
+    PERMISSIONS.INVENTORY_LOAN_MANAGE,
+    PERMISSIONS.DANA_MASUK_CREATE,
+  ],
+  [ROLES.SEKRETARIS]: [
+    ...PENGURUS_KEUANGAN,
+    PERMISSIONS.USER_RESET_PASSWORD,
+    PERMISSIONS.HOUSEHOLD_WRITE,
+    PERMISSIONS.ANNOUNCEMENT_WRITE,
+  ],
+  [ROLES.RT]: [
+    PERMISSIONS.USER_READ_FULL,
+    PERMISSIONS.HOUSEHOLD_READ,
+    PERMISSIONS.IURAN_ARREARS_READ,
+    PERMISSIONS.BUKU_KAS_READ,
+    PERMISSIONS.INVENTORY_WRITE,
+    PERMISSIONS.INVENTORY_LOAN_MANAGE,
+    PERMISSIONS.ANNOUNCEMENT_WRITE,
+  ],
+  [ROLES.RW]: [
+    PERMISSIONS.USER_READ_FULL,
+    PERMISSIONS.HOUSEHOLD_READ,
+    PERMISSIONS.ANNOUNCEMENT_WRITE,
+  ],
+  [ROLES.SATPAM]: [],
+  [ROLES.WARGA]: [],
+};
@@ -1,6 +1,12 @@
 import { Response } from "express";
 import mongoose from "mongoose";
 import { ZodError } from "zod";
+import { toLegacyMoney, wantsLegacyMoney } from "./money";
+
+// Old clients still get the money fields that used to be strings as strings
+function payload(res: Response, data: any) {
+  return wantsLegacyMoney(res.req) ? toLegacyMoney(data) : data;
+}
 
 type Pagination = {
   totalPages: number;
@@ -15,7 +21,7 @@ export default {
         status: 200,
         message,
       },
-      data,
+      data: payload(res, data),
     });
   },
   error(res: Response, error: unknown, message: string) {
@@ -92,6 +98,24 @@ export default {
       data: null,
     });
   },
+  unsupportedMediaType(res: Response, message: string = "unsupported media type") {
+    res.status(415).json({
+      meta: {
+        status: 415,
+        message,
+      },
+      data: null,
+    });
+  },
+  tooManyRequests(res: Response, message: string = "too many requests") {
+    res.status(429).json({
+      meta: {
+        status: 429,
+        message,
+      },
+      data: null,
+    });
+  },
   pagination(
     res: Response,
     data: any[],
@@ -103,7 +127,7 @@ export default {
         status: 200,
         message,
       },
-      data,
+      data: payload(res, data),
       pagination,
     });
   },
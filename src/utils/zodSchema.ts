@@ -1,5 +1,26 @@
 import { z } from "zod";
-import { ROLES } from "./constants";
+import {
+  ANNOUNCEMENT_AUDIENCE,
+  DEVICE_PLATFORM,
+  INVENTORY_CONDITION,
+  INVENTORY_MOVEMENT_TYPE,
+  PERMISSIONS,
+  REMINDER_AUDIENCE,
+  REMINDER_TEMPLATE_VARIABLES,
+  ROLES,
+  USER_STATUS,
+} from "./constants";
+import { PERIOD_REGEX } from "./period";
+
+const PeriodString = z
+  .string()
+  .regex(PERIOD_REGEX, "Period must be YYYY-MM");
+
+// Whole rupiah, see utils/money
+export const Rupiah = z
+  .number()
+  .int("Amount must be a whole rupiah amount")
+  .min(0, "Amount must not be negative");
 
 export const UserDTO = z.object({
   email: z.email().min(1, "Email is required").optional().or(z.literal("")),
@@ -23,6 +44,7 @@ export const UserDTO = z.object({
     .max(15, "Phone number too long")
     .optional(),
   image_url: z.string().optional(),
+  thumbnail_url: z.string().optional(),
 });
 
 export const UserLoginDTO = z.object({
@@ -30,10 +52,23 @@ export const UserLoginDTO = z.object({
   password: z.string().min(5, "Please input password"),
 });
 
+export const RefreshTokenDTO = z.object({
+  refresh_token: z.string().min(1, "Refresh token is required"),
+});
+
 export const UpdatePasswordDTO = z.object({
   password: z.string().min(8, "Password length min 8"),
 });
 
+export const ChangePasswordDTO = UpdatePasswordDTO.extend({
+  current_password: z.string().min(1, "Current password is required"),
+});
+
+export const ResetPasswordDTO = UpdatePasswordDTO.extend({
+  identifier: z.string().min(1, "Username or email is required"),
+  code: z.string().regex(/^[0-9]{8}$/, "Reset code must be 8 digits"),
+});
+
 export const UpdateProfileDTO = z.object({
   username: z.string().min(5, "Name length min 5").optional(),
   address: z.string().optional(),
@@ -45,14 +80,16 @@ export const UpdateProfileDTO = z.object({
     .max(15, "Phone number too long")
     .optional(),
   image_url: z.string().optional(),
+  thumbnail_url: z.string().optional(),
 });
 
 export const IuranDTO = z.object({
   user: z.string(),
   period: z.string(),
-  amount: z.string(),
+  amount: Rupiah,
   status: z.string(),
   proof_image_url: z.string().optional().nullable(),
+  proof_thumbnail_url: z.string().optional().nullable(),
   note: z.string().optional().nullable(),
   type: z.enum(["regular", "custom"]).optional(),
   submitted_at: z.string().optional().nullable(),
@@ -61,22 +98,314 @@ export const IuranDTO = z.object({
 });
 
 export const IuranSubmitWargaDTO = z.object({
-  period: z.string().min(1, "Period date is required"),
-  amount: z.string().min(1, "Amount is required"),
+  periods: z.array(PeriodString).min(1, "At least one period is required"),
+  proof_image_url: z.string().min(1, "Proof image is required"),
+  proof_thumbnail_url: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export const IuranRejectDTO = z.object({
+  ids: z.array(z.string()).min(1, "At least one iuran id is required"),
+  reason: z.string().min(1, "Rejection reason is required"),
+});
+
+export const ReceiptVoidDTO = z.object({
+  reason: z.string().trim().min(1, "Void reason is required"),
 });
 
 export const PushTokenDTO = z.object({
   pushToken: z.string().min(1, "Push token is required"),
+  platform: z.enum(DEVICE_PLATFORM).optional(),
+  deviceName: z.string().max(100).nullable().optional(),
 });
 
+// Sent as form-data, numbers arrive as strings. A blank field counts as
+// missing, not 0, so an untouched quantity input cannot wipe the stock.
+const toStockNumber = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  return value.trim() === "" ? undefined : Number(value);
+};
+
+const StockNumber = z
+  .number({
+    error: (issue) =>
+      issue.input === undefined ? "Quantity is required" : "Quantity must be a number",
+  })
+  .int("Quantity must be a whole number")
+  .min(0, "Quantity must not be negative");
+
+const StockQuantity = z.preprocess(toStockNumber, StockNumber);
+
 export const InventoryDTO = z.object({
   name: z.string().min(1, "Name length min 1"),
-  quantity: z.string(),
+  quantity: StockQuantity,
   image_url: z.string().optional(),
+  thumbnail_url: z.string().optional(),
 });
 
+// A changed quantity is recorded as a correction, see inventory.controller
 export const InventoryUpdateDTO = z.object({
   name: z.string().min(1, "Name length min 1").optional(),
-  quantity: z.string().optional(),
+  quantity: z.preprocess(toStockNumber, StockNumber.optional()),
+  reason: z.string().trim().min(1).max(500).optional(),
   image_url: z.string().optional(),
+  thumbnail_url: z.string().optional(),
+});
+
+export const TariffDTO = z
+  .object({
+    scope: z.enum(["default", "user", "address"]),
+    user: z.string().optional().nullable(),
+    address: z.string().optional().nullable(),
+    amount: Rupiah,
+    is_exempt: z.boolean().optional(),
+    effective_from: PeriodString,
+    effective_until: PeriodString.optional().nullable(),
+    note: z.string().optional().nullable(),
+  })
+  .refine((data) => data.scope !== "user" || !!data.user, {
+    message: "user is required for scope user",
+    path: ["user"],
+  })
+  .refine((data) => data.scope !== "address" || !!data.address, {
+    message: "address is required for scope address",
+    path: ["address"],
+  })
+  .refine(
+    (data) => !data.effective_until || data.effective_until >= data.effective_from,
+    {
+      message: "effective_until must not be before effective_from",
+      path: ["effective_until"],
+    }
+  );
+
+export const DendaRuleDTO = z
+  .object({
+    enabled: z.boolean(),
+    type: z.enum(["flat", "percentage"]),
+    value: z.number().min(0, "Value must not be negative"),
+    due_day: z.number().int().min(1).max(28),
+    grace_days: z.number().int().min(0),
+    repeat_every_days: z.number().int().min(1).nullable(),
+    max_per_period: Rupiah.nullable(),
+  })
+  .refine((data) => data.type !== "percentage" || data.value <= 100, {
+    message: "percentage must not exceed 100",
+    path: ["value"],
+  })
+  .refine((data) => data.type !== "flat" || Rupiah.safeParse(data.value).success, {
+    message: "Amount must be a whole rupiah amount",
+    path: ["value"],
+  });
+
+const CategoryName = z
+  .string()
+  .trim()
+  .min(1, "Category is required")
+  .transform((value) => value.toUpperCase());
+
+export const EventCategoriesDTO = z.object({
+  categories: z
+    .array(CategoryName)
+    .min(1, "At least one category is required")
+    .refine((list) => new Set(list).size === list.length, "Categories must be unique"),
 });
+
+export const EventBudgetDTO = z.object({
+  items: z
+    .array(
+      z.object({
+        category: CategoryName,
+        amount: Rupiah,
+      })
+    )
+    .refine(
+      (items) => new Set(items.map((item) => item.category)).size === items.length,
+      "Each category may only be budgeted once"
+    ),
+});
+
+const ObjectIdString = z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid id");
+
+export const HouseholdDTO = z.object({
+  kk_number: z
+    .string()
+    .regex(/^[0-9]{16}$/, "KK number must be 16 digits")
+    .optional()
+    .nullable(),
+  address: z.string().min(1, "Address is required"),
+  head: ObjectIdString,
+  members: z.array(ObjectIdString).optional(),
+  note: z.string().optional().nullable(),
+});
+
+export const HouseholdUpdateDTO = HouseholdDTO.omit({ members: true }).partial();
+
+export const RolePermissionDTO = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+const AnnouncementFields = z.object({
+  title: z.string().trim().min(1, "Title is required").max(150),
+  body: z.string().trim().min(1, "Body is required"),
+  audience: z.enum(ANNOUNCEMENT_AUDIENCE),
+  audience_values: z.array(z.string().trim().min(1)),
+  is_public: z.boolean(),
+  send_push: z.boolean(),
+  publish_at: z.coerce.date(),
+  expires_at: z.coerce.date().nullable(),
+  draft: z.boolean(), // keep as draft instead of publishing/scheduling
+});
+
+type AnnouncementInput = Partial<z.infer<typeof AnnouncementFields>>;
+
+// Audience values must fit the audience, expiry must come after publishing
+function checkAnnouncement(data: AnnouncementInput, ctx: z.RefinementCtx) {
+  const values = data.audience_values ?? [];
+  const allowed: Partial<Record<ANNOUNCEMENT_AUDIENCE, string[]>> = {
+    [ANNOUNCEMENT_AUDIENCE.ROLES]: Object.values(ROLES),
+    [ANNOUNCEMENT_AUDIENCE.STATUSES]: Object.values(USER_STATUS),
+  };
+
+  if (data.audience && data.audience !== ANNOUNCEMENT_AUDIENCE.ALL) {
+    if (values.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["audience_values"],
+        message: `At least one value is required for audience ${data.audience}`,
+      });
+    }
+    const options = allowed[data.audience];
+    const invalid = options ? values.filter((value) => !options.includes(value)) : [];
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["audience_values"],
+        message: `Invalid ${data.audience}: ${invalid.join(", ")}`,
+      });
+    }
+  }
+
+  if (data.publish_at && data.expires_at && data.expires_at <= data.publish_at) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["expires_at"],
+      message: "Expiry must be after the publish time",
+    });
+  }
+}
+
+export const AnnouncementDTO = AnnouncementFields.partial()
+  .required({ title: true, body: true })
+  .superRefine(checkAnnouncement);
+
+export const AnnouncementUpdateDTO = AnnouncementFields.partial().superRefine(
+  checkAnnouncement
+);
+
+const ReminderPolicyFields = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  enabled: z.boolean(),
+  audience: z.enum(REMINDER_AUDIENCE),
+  day_of_month: z.number().int().min(1).max(28, "Day of month must be 1-28"),
+  min_periods: z.number().int().min(1),
+  max_periods: z.number().int().min(1).nullable(),
+  roles: z.array(z.enum(ROLES)),
+  top_n: z.number().int().min(1).max(50),
+  title_template: z.string().trim().min(1, "Title template is required").max(150),
+  body_template: z.string().trim().min(1, "Body template is required").max(1000),
+});
+
+type ReminderPolicyInput = z.infer<typeof ReminderPolicyFields>;
+
+// Checked on the merged policy, so updates are validated as a whole
+export const ReminderPolicyDTO = ReminderPolicyFields.superRefine(
+  (data: ReminderPolicyInput, ctx) => {
+    if (data.max_periods != null && data.max_periods < data.min_periods) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["max_periods"],
+        message: "max_periods must not be less than min_periods",
+      });
+    }
+    if (data.audience === REMINDER_AUDIENCE.PENGURUS && data.roles.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["roles"],
+        message: "At least one role is required for a pengurus summary",
+      });
+    }
+
+    const allowed = REMINDER_TEMPLATE_VARIABLES[data.audience];
+    for (const field of ["title_template", "body_template"] as const) {
+      const unknown = [...data[field].matchAll(/\{(\w+)\}/g)]
+        .map((match) => match[1])
+        .filter((name) => !allowed.includes(name));
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: [field],
+          message: `Unknown variables: ${unknown.join(", ")}. Allowed: ${allowed.join(", ")}`,
+        });
+      }
+    }
+  }
+);
+
+// Pengurus may lend to another warga (`borrower`) or to an outside borrower
+// (`borrower_name`); warga always borrow for themselves
+export const InventoryLoanDTO = z
+  .object({
+    inventory: ObjectIdString,
+    quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+    start_date: z.coerce.date(),
+    due_date: z.coerce.date(),
+    purpose: z.string().trim().max(500).optional().nullable(),
+    borrower: ObjectIdString.optional(),
+    borrower_name: z.string().trim().min(1).max(100).optional(),
+    borrower_phone: z.string().trim().max(20).optional().nullable(),
+    rental_fee: Rupiah.optional(),
+  })
+  .refine((data) => data.due_date >= data.start_date, {
+    path: ["due_date"],
+    message: "Due date must not be before the start date",
+  })
+  .refine((data) => !(data.borrower && data.borrower_name), {
+    path: ["borrower_name"],
+    message: "Use either borrower or borrower_name",
+  });
+
+export const InventoryLoanApproveDTO = z.object({
+  rental_fee: Rupiah.optional(),
+  due_date: z.coerce.date().optional(),
+});
+
+export const InventoryLoanReasonDTO = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+export const InventoryLoanReturnDTO = z.object({
+  note: z.string().trim().max(500).optional().nullable(),
+});
+
+// `quantity` is the number of units moved. Only corrections may be
+// negative (units removed); the conditions default per type, see
+// inventory.service.
+export const InventoryMovementDTO = z
+  .object({
+    type: z.enum(INVENTORY_MOVEMENT_TYPE),
+    quantity: z.coerce.number().int("Quantity must be a whole number"),
+    condition_from: z.enum(INVENTORY_CONDITION).optional(),
+    condition_to: z.enum(INVENTORY_CONDITION).optional(),
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+    pengeluaran: ObjectIdString.optional(),
+  })
+  .refine(
+    (data) =>
+      data.type === INVENTORY_MOVEMENT_TYPE.CORRECTION ? data.quantity !== 0 : data.quantity > 0,
+    { path: ["quantity"], message: "Quantity must be at least 1" }
+  )
+  .refine((data) => !data.pengeluaran || data.type === INVENTORY_MOVEMENT_TYPE.PURCHASE, {
+    path: ["pengeluaran"],
+    message: "Only purchases can be linked to a pengeluaran",
+  });